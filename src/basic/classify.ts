@@ -0,0 +1,93 @@
+// Classify: Tag input packages by what they contain (CAS, Build/Buy, gameplay tuning, overrides),
+// from the resource type histogram of each package's index.
+import type { ResourceCategory } from '../core/resource-types.js';
+import { getPackageFileStats, type ResourceTypeInfo } from '../core/s4tk.js';
+import { cacheFor, type IndexCache } from './index-cache.js';
+import type { PackageInfo } from './scanner.js';
+
+/**
+ * What a package is, as far as its resource types tell
+ */
+export type PackageCategory = 'cas' | 'build-buy' | 'gameplay' | 'override' | 'mixed' | 'unknown';
+
+/**
+ * Output group name used for each category by `--group-by category`
+ */
+export const PACKAGE_CATEGORY_GROUPS: Record<PackageCategory, string> = {
+  cas: 'CAS',
+  'build-buy': 'BuildBuy',
+  gameplay: 'Gameplay',
+  override: 'Overrides',
+  mixed: 'Mixed',
+  unknown: 'Unknown',
+};
+
+// Resource categories that define new content of their kind
+const DEFINING: Partial<Record<ResourceCategory, 'cas' | 'build-buy' | 'gameplay'>> = {
+  cas: 'cas',
+  'build-buy': 'build-buy',
+  tuning: 'gameplay',
+  simdata: 'gameplay',
+};
+
+// Resource categories that only carry assets (textures, animations, strings) for other resources
+const ASSETS = new Set<ResourceCategory>(['image', 'animation', 'string-table', 'other']);
+
+/**
+ * Classify a package from its type histogram.
+ *
+ * - CAS parts (CASP, GEOM, ...) make a package `cas`.
+ * - Object definitions or catalog entries make it `build-buy`; the tuning and SimData
+ *   that come with functional objects do not change that.
+ * - Tuning or SimData without CAS or Build/Buy resources make it `gameplay`.
+ * - CAS together with Build/Buy resources, or CAS together with tuning, is `mixed`.
+ * - Only assets (images, animations, string tables) and no resource that defines
+ *   an item means the package replaces existing content: `override`.
+ * - Empty packages and packages with only unregistered types are `unknown`.
+ *
+ * Merge metadata (METG) of an already merged input is ignored.
+ */
+export function classifyTypes(types: ResourceTypeInfo[]): PackageCategory {
+  const kinds = new Set<'cas' | 'build-buy' | 'gameplay'>();
+  let assets = 0;
+  for (const type of types) {
+    const kind = DEFINING[type.category];
+    if (kind !== undefined) {
+      kinds.add(kind);
+    } else if (ASSETS.has(type.category)) {
+      assets += type.count;
+    }
+  }
+
+  if (kinds.has('cas')) {
+    return kinds.size > 1 ? 'mixed' : 'cas';
+  }
+  if (kinds.has('build-buy')) {
+    return 'build-buy';
+  }
+  if (kinds.has('gameplay')) {
+    return 'gameplay';
+  }
+  return assets > 0 ? 'override' : 'unknown';
+}
+
+/**
+ * Classify every package from its index. Returns copies tagged with `category`, in
+ * input order. Packages whose index cannot be read are reported in `errors` and
+ * tagged `unknown`. With `cache`, type histograms of unchanged packages are reused.
+ */
+export async function classifyPackages(packages: PackageInfo[], errors?: string[], cache?: IndexCache): Promise<PackageInfo[]> {
+  const classified: PackageInfo[] = [];
+  for (const pkg of packages) {
+    let category: PackageCategory = 'unknown';
+    try {
+      const pkgCache = cacheFor(pkg, cache);
+      category = classifyTypes(pkgCache ? await pkgCache.resourceTypes(pkg.path) : (await getPackageFileStats(pkg.path)).uniqueTypes);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors?.push(`Failed to classify '${pkg.path}': ${message}`);
+    }
+    classified.push({ ...pkg, category });
+  }
+  return classified;
+}
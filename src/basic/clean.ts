@@ -0,0 +1,247 @@
+// Clean: Find the `.tmp-<base>-<hex>` files `createTempFile` leaves behind when a
+// rename fails or a run dies, report them, and delete them on request.
+import { promises as fs } from 'node:fs';
+import { basename, join } from 'node:path';
+import { stablePathCompare } from '../util/determinism.js';
+import { tempFileTarget } from '../util/fsx.js';
+import type { CleanCliOptions } from './types.js';
+
+/**
+ * Temp files modified less than this many minutes ago are left alone by default:
+ * a running merge may still be writing them.
+ */
+export const DEFAULT_CLEAN_MIN_AGE_MINUTES = 60;
+
+/**
+ * What `clean` did (or would do) with one temp file
+ */
+export type TempFileStatus = 'deleted' | 'would-delete' | 'recent' | 'locked' | 'failed';
+
+/**
+ * One temp file found under a root
+ */
+export interface TempFileEntry {
+  path: string;
+  /** Base name the temp file was reserved for, e.g. `All.package` */
+  target: string;
+  size: number;
+  mtime: Date;
+  ageMs: number;
+  status: TempFileStatus;
+  /** Why a file was skipped or could not be deleted */
+  reason?: string;
+}
+
+/**
+ * Everything found under the roots of one `clean` run
+ */
+export interface CleanReport {
+  roots: string[];
+  files: TempFileEntry[];
+  /** Bytes deleted, or that would be deleted without `--yes` */
+  reclaimedBytes: number;
+  skippedCount: number;
+  errors: string[];
+}
+
+/**
+ * Options for `cleanTempFiles`
+ */
+export interface CleanOptions {
+  /** Delete the files; without it they are only reported */
+  yes: boolean;
+  /** Skip files modified less than this long ago */
+  minAgeMs: number;
+  /** Reference time for ages; defaults to now */
+  now?: Date;
+}
+
+/**
+ * Find temp files (`createTempFile` names) under `roots`, recursively and without
+ * following symbolic links, in stable path order. Hidden folders are searched too:
+ * temp files are hidden themselves and often sit next to hidden outputs.
+ *
+ * @param errors Receives folders that could not be read
+ */
+export async function findTempFiles(roots: string[], errors: string[]): Promise<string[]> {
+  const found: string[] = [];
+  const pending = [...roots];
+  while (pending.length > 0) {
+    const folder = pending.shift() as string;
+    let entries;
+    try {
+      entries = await fs.readdir(folder, { withFileTypes: true });
+    } catch (error) {
+      errors.push(`Failed to read directory '${folder}': ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    for (const entry of entries) {
+      const path = join(folder, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(path);
+      } else if (entry.isFile() && tempFileTarget(entry.name) !== undefined) {
+        found.push(path);
+      }
+    }
+  }
+  return found.sort(stablePathCompare);
+}
+
+/**
+ * Report, and with `yes` delete, the temp files under `roots`. Files modified less
+ * than `minAgeMs` ago and files another process holds open for writing (Windows
+ * reports these as busy or denied) are skipped.
+ */
+export async function cleanTempFiles(roots: string[], options: CleanOptions): Promise<CleanReport> {
+  const now = (options.now ?? new Date()).getTime();
+  const errors: string[] = [];
+  const files: TempFileEntry[] = [];
+  for (const path of await findTempFiles(roots, errors)) {
+    let stats;
+    try {
+      stats = await fs.stat(path);
+    } catch {
+      continue; // Removed since the folder was read, e.g. by the run that created it.
+    }
+    const entry: TempFileEntry = {
+      path,
+      target: tempFileTarget(basename(path)) as string,
+      size: stats.size,
+      mtime: stats.mtime,
+      ageMs: Math.max(0, now - stats.mtimeMs),
+      status: options.yes ? 'deleted' : 'would-delete',
+    };
+    if (entry.ageMs < options.minAgeMs) {
+      entry.status = 'recent';
+      entry.reason = `modified ${formatAge(entry.ageMs)} ago`;
+    } else {
+      const lock = await lockReason(path);
+      if (lock !== undefined) {
+        entry.status = 'locked';
+        entry.reason = lock;
+      } else if (options.yes) {
+        try {
+          await fs.rm(path);
+        } catch (error) {
+          entry.status = 'failed';
+          entry.reason = error instanceof Error ? error.message : String(error);
+        }
+      }
+    }
+    files.push(entry);
+  }
+
+  return {
+    roots,
+    files,
+    reclaimedBytes: files.filter((file) => file.status === 'deleted' || file.status === 'would-delete').reduce((sum, file) => sum + file.size, 0),
+    skippedCount: files.filter((file) => file.status === 'recent' || file.status === 'locked').length,
+    errors: [...errors, ...files.filter((file) => file.status === 'failed').map((file) => `${file.path}: ${file.reason}`)],
+  };
+}
+
+/**
+ * Render a report for the console.
+ */
+export function formatCleanReport(report: CleanReport, yes: boolean): string {
+  const lines: string[] = [];
+  for (const file of report.files) {
+    const reason = file.reason === undefined ? '' : ` (${file.reason})`;
+    lines.push(`  ${file.status} ${file.path}: ${formatBytes(file.size)}, ${formatAge(file.ageMs)} old${reason}`);
+  }
+  const count = report.files.filter((file) => file.status === 'deleted' || file.status === 'would-delete').length;
+  const verb = yes ? 'deleted' : 'would delete';
+  lines.push(
+    `clean: ${report.files.length} temp file(s) found; ${verb} ${count} (${formatBytes(report.reclaimedBytes)}), skipped ${report.skippedCount}`,
+  );
+  if (!yes && count > 0) {
+    lines.push('clean: run again with --yes to delete them');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * `s4merge clean`: find temp files under the roots, print the report, and delete
+ * them with `--yes`.
+ *
+ * @returns 1 when a folder could not be read or a file could not be deleted, else 0
+ */
+export async function runClean(roots: string[], options: CleanCliOptions): Promise<number> {
+  for (const root of roots) {
+    const stats = await fs.stat(root).catch(() => undefined);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Folder not found: ${root}`);
+    }
+  }
+  const report = await cleanTempFiles(roots, { yes: options.yes, minAgeMs: options.minAge * 60_000 });
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    for (const error of report.errors) {
+      console.error(`clean: ${error}`);
+    }
+    console.log(formatCleanReport(report, options.yes));
+  }
+  return report.errors.length > 0 ? 1 : 0;
+}
+
+/**
+ * Age as its two largest units: `45s`, `12m`, `3h 5m`, `2d 4h`.
+ */
+export function formatAge(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const units: [string, number][] = [
+    ['d', 86_400],
+    ['h', 3_600],
+    ['m', 60],
+    ['s', 1],
+  ];
+  const index = units.findIndex(([, size]) => seconds >= size);
+  if (index === -1) {
+    return '0s';
+  }
+  const [unit, size] = units[index];
+  const major = `${Math.floor(seconds / size)}${unit}`;
+  const next = units[index + 1];
+  if (index >= 2 || next === undefined) {
+    return major;
+  }
+  const minor = Math.floor((seconds % size) / next[1]);
+  return minor === 0 ? major : `${major} ${minor}${next[0]}`;
+}
+
+/**
+ * Byte count in binary units: `512 B`, `1.5 KiB`, `2.0 GiB`.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KiB', 'MiB', 'GiB', 'TiB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Why a file cannot be deleted safely, or undefined. Opening it for writing fails
+ * with EBUSY/EACCES/EPERM while another process holds it (on Windows) or when it
+ * is not writable.
+ */
+async function lockReason(path: string): Promise<string | undefined> {
+  try {
+    const handle = await fs.open(path, 'r+');
+    await handle.close();
+    return undefined;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'EBUSY' || code === 'EACCES' || code === 'EPERM') {
+      return `in use or not writable (${code})`;
+    }
+    return undefined;
+  }
+}
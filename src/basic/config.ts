@@ -0,0 +1,309 @@
+// Config: Named merge profiles from s4merge.config.json/.yaml, expanded by `basic --profile <name>`.
+import { promises as fs } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+import { parseYaml, YamlParseError } from '../util/yaml.js';
+import type { BasicCliOptions } from './types.js';
+
+/**
+ * Config file names looked up in the working directory, in this order
+ */
+export const CONFIG_FILE_NAMES = ['s4merge.config.json', 's4merge.config.yaml', 's4merge.config.yml'];
+
+/**
+ * Options a profile can set; each has the same name and meaning as the `basic` option
+ */
+export type MergeProfile = Partial<
+  Pick<
+    BasicCliOptions,
+    | 'in'
+    | 'files'
+    | 'include'
+    | 'exclude'
+    | 'ignoreFiles'
+    | 'out'
+    | 'byFolder'
+    | 'groupBy'
+    | 'groupDepth'
+    | 'groupRegex'
+    | 'groupMap'
+    | 'outRoot'
+    | 'sort'
+    | 'reverse'
+    | 'maxSize'
+    | 'manifestOut'
+    | 'changelog'
+    | 'statsJson'
+    | 'verify'
+    | 'progress'
+    | 'conflictReport'
+    | 'collisionPolicy'
+    | 'dedupeIdentical'
+    | 'skipDuplicates'
+    | 'watch'
+    | 'watchDebounce'
+    | 'jobs'
+    | 'memoryBudget'
+    | 'cache'
+    | 'cacheDir'
+    | 'cacheContentHash'
+  >
+>;
+
+/**
+ * Parsed config file
+ */
+export interface S4MergeConfig {
+  path: string;
+  profiles: Record<string, MergeProfile>;
+}
+
+/**
+ * `basic` options with a profile applied, and which options the profile supplied
+ */
+export interface ProfileExpansion {
+  options: BasicCliOptions;
+  profileName: string;
+  configPath: string;
+  fromProfile: (keyof MergeProfile)[];
+}
+
+/**
+ * Invalid, unreadable or missing config file or profile
+ */
+export class ConfigError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath === undefined ? message : `${filePath}: ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type FieldKind = 'path' | 'paths' | 'string' | 'strings' | 'boolean' | 'number';
+
+interface FieldSpec {
+  flag: string;
+  kind: FieldKind;
+  choices?: readonly string[];
+}
+
+const PROFILE_FIELDS: Record<keyof MergeProfile, FieldSpec> = {
+  in: { flag: '--in', kind: 'paths' },
+  files: { flag: '--files', kind: 'path' },
+  include: { flag: '--include', kind: 'strings' },
+  exclude: { flag: '--exclude', kind: 'strings' },
+  ignoreFiles: { flag: '--ignore-files', kind: 'boolean' },
+  out: { flag: '--out', kind: 'path' },
+  byFolder: { flag: '--by-folder', kind: 'boolean' },
+  groupBy: { flag: '--group-by', kind: 'string', choices: ['folder', 'depth', 'regex', 'mapping', 'category'] },
+  groupDepth: { flag: '--group-depth', kind: 'number' },
+  groupRegex: { flag: '--group-regex', kind: 'string' },
+  groupMap: { flag: '--group-map', kind: 'path' },
+  outRoot: { flag: '--out-root', kind: 'path' },
+  sort: { flag: '--sort', kind: 'string', choices: ['name', 'path', 'mtime'] },
+  reverse: { flag: '--reverse', kind: 'boolean' },
+  maxSize: { flag: '--max-size', kind: 'number' },
+  manifestOut: { flag: '--manifest-out', kind: 'path' },
+  changelog: { flag: '--changelog', kind: 'boolean' },
+  statsJson: { flag: '--stats-json', kind: 'path' },
+  verify: { flag: '--verify', kind: 'boolean' },
+  progress: { flag: '--progress', kind: 'boolean' },
+  conflictReport: { flag: '--conflict-report', kind: 'path' },
+  collisionPolicy: { flag: '--collision-policy', kind: 'string', choices: ['keep-last', 'keep-first', 'shadow-original'] },
+  dedupeIdentical: { flag: '--dedupe-identical', kind: 'boolean' },
+  skipDuplicates: { flag: '--skip-duplicates', kind: 'boolean' },
+  watch: { flag: '--watch', kind: 'boolean' },
+  watchDebounce: { flag: '--watch-debounce', kind: 'number' },
+  jobs: { flag: '--jobs', kind: 'number' },
+  memoryBudget: { flag: '--memory-budget', kind: 'number' },
+  cache: { flag: '--cache', kind: 'boolean' },
+  cacheDir: { flag: '--cache-dir', kind: 'path' },
+  cacheContentHash: { flag: '--cache-content-hash', kind: 'boolean' },
+};
+
+/**
+ * First config file found in `cwd`, or undefined.
+ */
+export async function findConfigFile(cwd: string = process.cwd()): Promise<string | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = join(cwd, name);
+    try {
+      if ((await fs.stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Not there; try the next name.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse and validate a config file. JSON when the name ends in `.json`, YAML otherwise.
+ * Relative paths in profiles are resolved against the config file's folder.
+ *
+ * ```yaml
+ * profiles:
+ *   weekly:
+ *     in: [Mods/CC]
+ *     groupBy: category
+ *     outRoot: Merged
+ *     maxSize: 500
+ * ```
+ *
+ * @throws ConfigError naming the offending field, e.g. `profiles.weekly.maxSize`
+ */
+export function parseConfig(text: string, filePath: string): S4MergeConfig {
+  let parsed: unknown;
+  try {
+    parsed = extname(filePath).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    if (error instanceof YamlParseError || error instanceof SyntaxError) {
+      throw new ConfigError(`Config is not valid ${error instanceof SyntaxError ? 'JSON' : 'YAML'}: ${error.message}`, filePath);
+    }
+    throw error;
+  }
+
+  const root = expectMapping(parsed, 'config', filePath);
+  for (const key of Object.keys(root)) {
+    if (key !== 'profiles') {
+      throw new ConfigError(`${key} is not a known config field (expected profiles)`, filePath);
+    }
+  }
+  const profiles: Record<string, MergeProfile> = {};
+  const baseDir = dirname(resolve(filePath));
+  for (const [name, value] of Object.entries(expectMapping(root.profiles, 'profiles', filePath))) {
+    profiles[name] = parseProfile(value, `profiles.${name}`, baseDir, filePath);
+  }
+  return { path: filePath, profiles };
+}
+
+/**
+ * Read and parse a config file.
+ */
+export async function loadConfig(filePath: string): Promise<S4MergeConfig> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file: ${(error as Error).message}`, filePath);
+  }
+  return parseConfig(text, filePath);
+}
+
+/**
+ * Apply `options.profile` to parsed `basic` options. Options given on the command line
+ * (per `sourceOf`, Commander's option value source) win over the profile; the profile
+ * wins over defaults.
+ *
+ * @param sourceOf Where an option's value came from: `cli`, `env`, `default` or undefined
+ * @throws ConfigError when no config file is found or the profile does not exist
+ */
+export async function expandProfile(
+  options: BasicCliOptions,
+  sourceOf: (key: string) => string | undefined,
+  cwd: string = process.cwd(),
+): Promise<ProfileExpansion> {
+  const profileName = options.profile as string;
+  const configPath = options.config ?? (await findConfigFile(cwd));
+  if (configPath === undefined) {
+    throw new ConfigError(`--profile ${profileName} needs a config file: none of ${CONFIG_FILE_NAMES.join(', ')} found in ${cwd}`);
+  }
+  const config = await loadConfig(configPath);
+  const profile = config.profiles[profileName];
+  if (profile === undefined) {
+    const known = Object.keys(config.profiles);
+    throw new ConfigError(
+      `Unknown profile '${profileName}'${known.length > 0 ? ` (available: ${known.join(', ')})` : ' (no profiles defined)'}`,
+      configPath,
+    );
+  }
+
+  const expanded: BasicCliOptions = { ...options };
+  const fromProfile: (keyof MergeProfile)[] = [];
+  for (const key of Object.keys(profile) as (keyof MergeProfile)[]) {
+    const source = sourceOf(key);
+    if (source === 'cli' || source === 'env') {
+      continue;
+    }
+    (expanded as unknown as Record<string, unknown>)[key] = profile[key];
+    fromProfile.push(key);
+  }
+  return { options: expanded, profileName, configPath, fromProfile };
+}
+
+/**
+ * Point a validation error at the profile fields behind the flags it mentions, e.g.
+ * `... --max-size must be a positive number. (from profile 'weekly': profiles.weekly.maxSize in s4merge.config.yaml)`.
+ * Errors that only involve command-line flags are returned unchanged.
+ */
+export function explainProfileError(error: Error, expansion: ProfileExpansion): Error {
+  const fields = expansion.fromProfile.filter((key) =>
+    new RegExp(`${PROFILE_FIELDS[key].flag}(?![\\w-])`, 'u').test(error.message),
+  );
+  if (fields.length === 0) {
+    return error;
+  }
+  const names = fields.map((key) => `profiles.${expansion.profileName}.${key}`).join(', ');
+  return new Error(`${error.message} (from profile '${expansion.profileName}': ${names} in ${expansion.configPath})`);
+}
+
+function parseProfile(value: unknown, path: string, baseDir: string, filePath: string): MergeProfile {
+  const fields = expectMapping(value, path, filePath);
+  const profile: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(fields)) {
+    const spec = (PROFILE_FIELDS as Record<string, FieldSpec | undefined>)[key];
+    if (spec === undefined) {
+      throw new ConfigError(`${path}.${key} is not a known profile field`, filePath);
+    }
+    profile[key] = parseField(raw, spec, `${path}.${key}`, baseDir, filePath);
+  }
+  return profile as MergeProfile;
+}
+
+function parseField(value: unknown, spec: FieldSpec, path: string, baseDir: string, filePath: string): unknown {
+  switch (spec.kind) {
+    case 'paths': {
+      const items = typeof value === 'string' ? [value] : value;
+      if (!Array.isArray(items) || items.some((item) => typeof item !== 'string' || item === '')) {
+        throw new ConfigError(`${path} must be a path or a list of paths`, filePath);
+      }
+      return items.map((item: string) => resolve(baseDir, item));
+    }
+    case 'strings': {
+      const items = typeof value === 'string' ? [value] : value;
+      if (!Array.isArray(items) || items.some((item) => typeof item !== 'string' || item === '')) {
+        throw new ConfigError(`${path} must be a string or a list of strings`, filePath);
+      }
+      return items;
+    }
+    case 'path':
+      if (typeof value !== 'string' || value === '') {
+        throw new ConfigError(`${path} must be a path`, filePath);
+      }
+      return resolve(baseDir, value);
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new ConfigError(`${path} must be true or false`, filePath);
+      }
+      return value;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ConfigError(`${path} must be a number`, filePath);
+      }
+      return value;
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new ConfigError(`${path} must be a string`, filePath);
+      }
+      if (spec.choices !== undefined && !spec.choices.includes(value)) {
+        throw new ConfigError(`${path} must be one of ${spec.choices.join(', ')}`, filePath);
+      }
+      return value;
+  }
+}
+
+function expectMapping(value: unknown, path: string, filePath: string): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ConfigError(`${path} must be a mapping`, filePath);
+  }
+  return value as Record<string, unknown>;
+}
@@ -0,0 +1,302 @@
+// Conflicts: Build a TGI index over ordered inputs and report colliding keys.
+// Determinism: conflicts are listed by canonical key; providers keep input order.
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { extname } from 'node:path';
+import { decompressPayload, readDbpfPayload } from '../core/dbpf.js';
+import {
+  formatGroupId,
+  formatInstanceId,
+  formatResourceKey,
+  formatTypeId,
+  readPackageIndex,
+  type CollisionPolicy,
+  type ResourceKey,
+} from '../core/s4tk.js';
+import { stableCompare } from '../util/determinism.js';
+import { writeFileAtomic } from '../util/fsx.js';
+import { toYaml, type YamlValue } from '../util/yaml.js';
+import { cacheFor, openIndexCache, type IndexCache, type PayloadDigest } from './index-cache.js';
+import { removeStagingDir, scanInputs, sourcePathOf, type PackageInfo } from './scanner.js';
+import type { ConflictsCliOptions } from './types.js';
+
+/**
+ * One input package that provides a colliding key
+ */
+export interface ConflictProvider {
+  idx: number;
+  path: string;
+  dataHash?: string;
+}
+
+/**
+ * A type/group/instance key provided by more than one input package
+ */
+export interface ResourceConflict {
+  key: string;
+  type: string;
+  group: string;
+  instance: string;
+  providers: ConflictProvider[];
+  winner: ConflictProvider;
+  payloadsDiffer: boolean;
+}
+
+/**
+ * Result of analyzing a set of inputs for TGI collisions
+ */
+export interface ConflictReport {
+  packageCount: number;
+  resourceCount: number;
+  conflictCount: number;
+  identicalCount: number;
+  conflicts: ResourceConflict[];
+  errors: string[];
+}
+
+interface IndexedKey {
+  key: ResourceKey;
+  providers: number[];
+}
+
+/**
+ * Walk the ordered inputs, index every resource key and report keys provided by
+ * more than one package.
+ *
+ * The first pass only reads package indexes. Payload hashes are computed in a
+ * second pass, and only for the packages and keys that actually collide. The winner is the
+ * provider that comes last in input order, matching append-all semantics, unless
+ * the `keep-first` collision policy is requested. Packages that cannot be loaded
+ * are recorded in `errors` and skipped. With `cache`, indexes and payload hashes of
+ * unchanged packages come from earlier runs.
+ */
+export async function analyzeConflicts(
+  packages: PackageInfo[],
+  options: { collisionPolicy?: CollisionPolicy; cache?: IndexCache } = {},
+): Promise<ConflictReport> {
+  const keepFirst = options.collisionPolicy === 'keep-first';
+  const errors: string[] = [];
+  const index = new Map<string, IndexedKey>();
+  let resourceCount = 0;
+
+  for (let position = 0; position < packages.length; position += 1) {
+    const info = packages[position];
+    const cache = cacheFor(info, options.cache);
+    try {
+      const { entries } = cache ? await cache.readIndex(info.path) : await readPackageIndex(info.path);
+      for (const entry of entries) {
+        resourceCount += 1;
+        const id = formatResourceKey(entry.key);
+        const indexed = index.get(id);
+        if (indexed === undefined) {
+          index.set(id, { key: entry.key, providers: [position] });
+        } else if (indexed.providers[indexed.providers.length - 1] !== position) {
+          indexed.providers.push(position);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`Failed to index package '${sourcePathOf(info)}': ${message}`);
+    }
+  }
+
+  const colliding = Array.from(index.entries()).filter(([, indexed]) => indexed.providers.length > 1);
+  const hashes = await hashCollidingEntries(packages, colliding, errors, options.cache);
+
+  const conflicts: ResourceConflict[] = colliding
+    .map(([id, indexed]) => {
+      const providers = indexed.providers.map((position) => ({
+        idx: position + 1,
+        path: sourcePathOf(packages[position]),
+        dataHash: hashes.get(position)?.get(id),
+      }));
+      const distinct = new Set(providers.map((provider) => provider.dataHash ?? `missing:${provider.idx}`));
+      return {
+        key: id,
+        type: formatTypeId(indexed.key.type),
+        group: formatGroupId(indexed.key.group),
+        instance: formatInstanceId(indexed.key.instance),
+        providers,
+        winner: keepFirst ? providers[0] : providers[providers.length - 1],
+        payloadsDiffer: distinct.size > 1,
+      };
+    })
+    .sort((left, right) => stableCompare(left.key, right.key));
+
+  return {
+    packageCount: packages.length,
+    resourceCount,
+    conflictCount: conflicts.length,
+    identicalCount: conflicts.filter((conflict) => !conflict.payloadsDiffer).length,
+    conflicts,
+    errors,
+  };
+}
+
+/**
+ * Read and hash only the colliding payloads of the packages taking part in collisions.
+ * Returns a map of input position -> (key id -> sha256 of the uncompressed payload).
+ */
+async function hashCollidingEntries(
+  packages: PackageInfo[],
+  colliding: [string, IndexedKey][],
+  errors: string[],
+  sharedCache: IndexCache | undefined,
+): Promise<Map<number, Map<string, string>>> {
+  const keysByPosition = new Map<number, Set<string>>();
+  for (const [id, indexed] of colliding) {
+    for (const position of indexed.providers) {
+      const keys = keysByPosition.get(position) ?? new Set<string>();
+      keys.add(id);
+      keysByPosition.set(position, keys);
+    }
+  }
+
+  const hashes = new Map<number, Map<string, string>>();
+  const positions = Array.from(keysByPosition.keys()).sort((left, right) => left - right);
+  for (const position of positions) {
+    const wanted = keysByPosition.get(position) ?? new Set<string>();
+    const byKey = new Map<string, string>();
+    const path = packages[position].path;
+    const cache = cacheFor(packages[position], sharedCache);
+    try {
+      const { entries } = cache ? await cache.readIndex(path) : await readPackageIndex(path);
+      const cached = (await cache?.payloadDigests(path)) ?? new Map<number, PayloadDigest>();
+      const fresh = new Map<number, PayloadDigest>();
+      const handle = await fs.open(path, 'r');
+      try {
+        for (const entry of entries) {
+          const id = formatResourceKey(entry.key);
+          if (!wanted.has(id)) {
+            continue;
+          }
+          let digest = cached.get(entry.position);
+          if (digest === undefined) {
+            const payload = decompressPayload(await readDbpfPayload(handle, entry, path), entry.compressionType);
+            digest = { length: payload.length, sha256: createHash('sha256').update(payload).digest('hex') };
+            fresh.set(entry.position, digest);
+          } else if (digest.error !== undefined) {
+            throw new Error(digest.error);
+          }
+          // Within one package the last entry for a key is the one the game sees.
+          byKey.set(id, digest.sha256);
+        }
+      } finally {
+        await handle.close();
+        await cache?.storePayloadDigests(path, fresh);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`Failed to hash resources in '${path}': ${message}`);
+    }
+    hashes.set(position, byKey);
+  }
+
+  return hashes;
+}
+
+/**
+ * Render a conflict report for the console.
+ */
+export function formatConflictReport(report: ConflictReport): string {
+  const lines: string[] = [];
+  const differing = report.conflictCount - report.identicalCount;
+  lines.push(
+    `conflicts: ${report.conflictCount} colliding key(s) across ${report.packageCount} package(s) ` +
+      `(${differing} differing, ${report.identicalCount} identical)`,
+  );
+
+  for (const conflict of report.conflicts) {
+    const status = conflict.payloadsDiffer ? 'differs' : 'identical';
+    lines.push(`  ${conflict.key} [${status}]`);
+    for (const provider of conflict.providers) {
+      const marker = provider === conflict.winner ? '*' : ' ';
+      lines.push(`    ${marker} #${provider.idx} ${provider.path}`);
+    }
+  }
+
+  for (const error of report.errors) {
+    lines.push(`  error: ${error}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a conflict report as JSON or YAML. Both use the same field layout.
+ */
+export function serializeConflictReport(report: ConflictReport, format: 'json' | 'yaml'): string {
+  const document = toReportDocument(report);
+  return format === 'json' ? `${JSON.stringify(document, null, 2)}\n` : toYaml(document);
+}
+
+/**
+ * Write a conflict report atomically. The format is taken from the file extension
+ * (`.json`, `.yaml`/`.yml`); anything else is written as JSON.
+ */
+export async function writeConflictReport(report: ConflictReport, outputPath: string): Promise<void> {
+  await writeFileAtomic(outputPath, serializeConflictReport(report, reportFormatForPath(outputPath)));
+}
+
+/**
+ * Choose a serialization format from a report file extension.
+ */
+export function reportFormatForPath(outputPath: string): 'json' | 'yaml' {
+  const extension = extname(outputPath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+}
+
+function toReportDocument(report: ConflictReport): { [key: string]: YamlValue } {
+  return {
+    packages: report.packageCount,
+    resources: report.resourceCount,
+    conflicts: report.conflictCount,
+    identical: report.identicalCount,
+    keys: report.conflicts.map((conflict) => ({
+      key: conflict.key,
+      type: conflict.type,
+      group: conflict.group,
+      instance: conflict.instance,
+      payloads_differ: conflict.payloadsDiffer,
+      winner: conflict.winner.path,
+      providers: conflict.providers.map((provider) => ({
+        idx: provider.idx,
+        path: provider.path,
+        sha256: provider.dataHash ?? null,
+      })),
+    })),
+    errors: report.errors,
+  };
+}
+
+/**
+ * Standalone `conflicts` run: scan inputs, analyze, print and optionally write the report.
+ * Returns 1 when inputs could not be scanned or indexed, 0 otherwise.
+ */
+export async function runConflicts(options: ConflictsCliOptions): Promise<number> {
+  const scan = await scanInputs({
+    inDirs: options.in,
+    filesList: options.files,
+    sortBy: options.sort,
+    reverse: options.reverse,
+  });
+  let report: ConflictReport;
+  try {
+    report = await analyzeConflicts(scan.packages, { cache: openIndexCache(options) });
+  } finally {
+    await removeStagingDir(scan);
+  }
+  report.errors.unshift(...scan.errors);
+
+  if (options.format === 'text') {
+    console.log(formatConflictReport(report));
+  } else {
+    process.stdout.write(serializeConflictReport(report, options.format));
+  }
+
+  if (options.out) {
+    await writeConflictReport(report, options.out);
+  }
+
+  return report.errors.length > 0 ? 1 : 0;
+}
@@ -0,0 +1,71 @@
+// Group mapping: User-supplied relative path prefix -> output group file for `--group-by mapping`.
+import { promises as fs } from 'node:fs';
+import { extname } from 'node:path';
+import { parseYaml, YamlParseError } from '../util/yaml.js';
+import { mappingStrategy, type GroupingStrategy } from './plan.js';
+
+/**
+ * Invalid or unreadable mapping file
+ */
+export class GroupMappingError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath === undefined ? message : `${filePath}: ${message}`);
+    this.name = 'GroupMappingError';
+  }
+}
+
+/**
+ * Parse a mapping file: a flat map of path prefixes below an `--in` root to group
+ * names, as JSON (`.json`) or YAML (anything else). `*` names the group for inputs
+ * no prefix matches.
+ *
+ * ```yaml
+ * Hair: CAS
+ * Hair/Maxis Match: CAS-MM
+ * "*": Other
+ * ```
+ *
+ * @throws GroupMappingError when the content is not a valid mapping
+ */
+export function parseGroupMapping(text: string, filePath?: string): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = filePath !== undefined && extname(filePath).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    if (error instanceof YamlParseError || error instanceof SyntaxError) {
+      throw new GroupMappingError(`Mapping is not valid ${error instanceof SyntaxError ? 'JSON' : 'YAML'}: ${error.message}`, filePath);
+    }
+    throw error;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new GroupMappingError('Mapping must be a map of path prefixes to group names', filePath);
+  }
+
+  const mapping: Record<string, string> = {};
+  for (const [prefix, group] of Object.entries(parsed)) {
+    if (prefix.trim() === '') {
+      throw new GroupMappingError('Path prefixes must not be empty', filePath);
+    }
+    if (typeof group !== 'string' || group.trim() === '') {
+      throw new GroupMappingError(`Group for '${prefix}' must be a non-empty string`, filePath);
+    }
+    mapping[prefix] = group;
+  }
+  if (Object.keys(mapping).length === 0) {
+    throw new GroupMappingError('Mapping is empty', filePath);
+  }
+  return mapping;
+}
+
+/**
+ * Read a mapping file and build the `--group-by mapping` strategy from it.
+ */
+export async function loadGroupMappingStrategy(filePath: string): Promise<GroupingStrategy> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new GroupMappingError(`Cannot read mapping file: ${(error as Error).message}`, filePath);
+  }
+  return mappingStrategy(parseGroupMapping(text, filePath));
+}
@@ -0,0 +1,407 @@
+// Index cache: Parsed package indexes, type histograms and hashes kept on disk, so
+// runs over an unchanged Mods folder do not read every package again.
+import { createHash } from 'node:crypto';
+import { promises as fs, type Stats } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import type { DbpfHeader, DbpfIndex } from '../core/dbpf.js';
+import { describeResourceType } from '../core/resource-types.js';
+import { countResourceTypes, readPackageIndex, type ResourceTypeInfo } from '../core/s4tk.js';
+import { normalizePath, stablePathCompare } from '../util/determinism.js';
+import { writeFileAtomic } from '../util/fsx.js';
+import { IN_THREAD_POOL } from '../util/worker-pool.js';
+import { formatBytes } from './clean.js';
+import type { CachePruneCliOptions } from './types.js';
+
+/**
+ * Version of the cache entry format; entries of any other version are misses
+ */
+export const INDEX_CACHE_VERSION = 2;
+
+/**
+ * Index record as stored: `[type, group, instance (hex), position, compressedSize, uncompressedSize, compressionType]`
+ */
+type CachedIndexEntry = [number, number, string, number, number, number, number];
+
+/**
+ * Type histogram bucket as stored: `[type ID (hex), count]`. Names and categories are
+ * looked up on read, so `--resource-types` applies to cached packages too.
+ */
+type CachedTypeCount = [string, number];
+
+/**
+ * Digest of one decompressed payload, or why it does not decompress
+ */
+export type PayloadDigest = { length: number; sha256: string; error?: undefined } | { error: string };
+
+/**
+ * One cache entry: what is known about a package file at one size and mtime.
+ * Everything but the key fields is filled in as callers ask for it.
+ */
+export interface CachedPackage {
+  version: number;
+  /** Normalized absolute path of the package */
+  path: string;
+  size: number;
+  mtimeMs: number;
+  /** sha256 of the whole file; part of the key with `contentHash` */
+  sha256?: string;
+  index?: { header: DbpfHeader; fileSize: number; deletedCount: number; entries: CachedIndexEntry[] };
+  /** Type histogram of the live entries */
+  types?: CachedTypeCount[];
+  /** Payload digests by payload position */
+  payloads?: Record<string, PayloadDigest>;
+}
+
+/**
+ * Options for an `IndexCache`
+ */
+export interface IndexCacheOptions {
+  /**
+   * Also key entries by the sha256 of the file, for folders whose tools keep mtimes
+   * across edits. Every lookup then reads the whole file.
+   */
+  contentHash?: boolean;
+}
+
+interface CacheSlot {
+  file: string;
+  record: CachedPackage;
+}
+
+/**
+ * Default cache folder: `%LOCALAPPDATA%\s4merge\Cache` on Windows, otherwise
+ * `$XDG_CACHE_HOME/s4merge` or `~/.cache/s4merge`.
+ */
+export function defaultCacheDir(env: NodeJS.ProcessEnv = process.env, platform: NodeJS.Platform = process.platform): string {
+  if (platform === 'win32' && env.LOCALAPPDATA) {
+    return join(env.LOCALAPPDATA, 's4merge', 'Cache');
+  }
+  return join(env.XDG_CACHE_HOME || join(homedir(), '.cache'), 's4merge');
+}
+
+/**
+ * The cache the `--no-cache`, `--cache-dir` and `--cache-content-hash` options ask for, if any.
+ */
+export function openIndexCache(options: { cache: boolean; cacheDir?: string; cacheContentHash?: boolean }): IndexCache | undefined {
+  return options.cache
+    ? new IndexCache(options.cacheDir ?? defaultCacheDir(), { contentHash: options.cacheContentHash ?? false })
+    : undefined;
+}
+
+/**
+ * `cache`, or undefined for a package staged from an archive: staged copies live in
+ * a new temp folder every run, so caching them would only fill the cache.
+ */
+export function cacheFor(pkg: { archive?: unknown }, cache: IndexCache | undefined): IndexCache | undefined {
+  return pkg.archive === undefined ? cache : undefined;
+}
+
+/**
+ * On-disk cache of what was read from package files, one JSON file per package state.
+ *
+ * Entries are content-addressed: the file name is the sha256 of the normalized path,
+ * size and mtime (and file hash with `contentHash`), so a changed package simply
+ * misses and its old entry stays until `cache prune`. Lookups stat the package every
+ * time, so a long-running watch sees changes too. Results are the same with or
+ * without the cache; a cache that cannot be written only costs speed.
+ */
+export class IndexCache {
+  private readonly slots = new Map<string, Promise<CacheSlot>>();
+
+  constructor(
+    readonly dir: string,
+    private readonly options: IndexCacheOptions = {},
+  ) {}
+
+  /**
+   * Whether entries are keyed by file hash too, so a package edited with its size
+   * and mtime kept still misses.
+   */
+  get contentHash(): boolean {
+    return this.options.contentHash ?? false;
+  }
+
+  /**
+   * Header and index of a package file, as `readPackageIndex` returns them.
+   *
+   * @throws PackageLoadError or PackageCorruptionError as `readPackageIndex` does
+   */
+  async readIndex(filePath: string): Promise<DbpfIndex> {
+    const slot = await this.slot(filePath);
+    if (slot?.record.index !== undefined) {
+      return decodeIndex(slot.record.index);
+    }
+    const index = await readPackageIndex(filePath);
+    if (slot !== undefined) {
+      slot.record.index = encodeIndex(index);
+      slot.record.types = countResourceTypes(index.entries.map((entry) => entry.key.type)).map(({ typeId, count }) => [typeId, count]);
+      await this.save(slot);
+    }
+    return index;
+  }
+
+  /**
+   * Type histogram of a package's live entries, in index order of first appearance.
+   */
+  async resourceTypes(filePath: string): Promise<ResourceTypeInfo[]> {
+    const slot = await this.slot(filePath);
+    if (slot?.record.types !== undefined) {
+      return slot.record.types.map(([typeId, count]) => ({ typeId, count, ...describeResourceType(Number.parseInt(typeId, 16)) }));
+    }
+    const { entries } = await this.readIndex(filePath);
+    return countResourceTypes(entries.map((entry) => entry.key.type));
+  }
+
+  /**
+   * sha256 of the whole file.
+   */
+  async fileSha256(filePath: string): Promise<string> {
+    const slot = await this.slot(filePath);
+    if (slot?.record.sha256 !== undefined) {
+      return slot.record.sha256;
+    }
+    const { hex } = await IN_THREAD_POOL.run({ kind: 'digest-file', algorithm: 'sha256', path: filePath });
+    if (slot !== undefined) {
+      slot.record.sha256 = hex;
+      await this.save(slot);
+    }
+    return hex;
+  }
+
+  /**
+   * Payload digests recorded for a package, by payload position.
+   */
+  async payloadDigests(filePath: string): Promise<Map<number, PayloadDigest>> {
+    const slot = await this.slot(filePath);
+    return new Map(Object.entries(slot?.record.payloads ?? {}).map(([position, digest]) => [Number(position), digest]));
+  }
+
+  /**
+   * Record payload digests for a package, next to those already recorded.
+   */
+  async storePayloadDigests(filePath: string, digests: Map<number, PayloadDigest>): Promise<void> {
+    const slot = await this.slot(filePath);
+    if (slot === undefined || digests.size === 0) {
+      return;
+    }
+    const payloads = { ...slot.record.payloads };
+    for (const [position, digest] of digests) {
+      payloads[String(position)] = digest;
+    }
+    slot.record.payloads = payloads;
+    await this.save(slot);
+  }
+
+  /**
+   * The entry for the file's current state, read once per run; undefined when the
+   * file cannot be read, so the caller's own read reports why.
+   */
+  private async slot(filePath: string): Promise<CacheSlot | undefined> {
+    let stat: Stats;
+    let sha256: string | undefined;
+    try {
+      stat = await fs.stat(filePath);
+      if (this.options.contentHash) {
+        sha256 = (await IN_THREAD_POOL.run({ kind: 'digest-file', algorithm: 'sha256', path: filePath })).hex;
+      }
+    } catch {
+      return undefined;
+    }
+    const path = normalizePath(resolve(filePath));
+    const key = createHash('sha256')
+      .update(JSON.stringify([path, stat.size, stat.mtimeMs, sha256 ?? null]))
+      .digest('hex');
+    let slot = this.slots.get(key);
+    if (slot === undefined) {
+      const fresh: CachedPackage = { version: INDEX_CACHE_VERSION, path, size: stat.size, mtimeMs: stat.mtimeMs, sha256 };
+      slot = this.load(join(this.dir, key.slice(0, 2), `${key}.json`), fresh);
+      this.slots.set(key, slot);
+    }
+    return slot;
+  }
+
+  private async load(file: string, fresh: CachedPackage): Promise<CacheSlot> {
+    try {
+      const record = JSON.parse(await fs.readFile(file, 'utf8')) as CachedPackage;
+      if (record.version === INDEX_CACHE_VERSION && record.path === fresh.path && record.size === fresh.size && record.mtimeMs === fresh.mtimeMs) {
+        return { file, record };
+      }
+    } catch {
+      // Missing or unreadable: start over.
+    }
+    return { file, record: fresh };
+  }
+
+  private async save(slot: CacheSlot): Promise<void> {
+    try {
+      await fs.mkdir(dirname(slot.file), { recursive: true });
+      await writeFileAtomic(slot.file, JSON.stringify(slot.record));
+    } catch {
+      // Not writable: the next run reads the package again.
+    }
+  }
+}
+
+/**
+ * Why `cache prune` removed an entry
+ */
+export type PruneReason = 'missing' | 'changed' | 'unreadable' | 'all';
+
+/**
+ * One removed (or, with `dryRun`, removable) cache entry
+ */
+export interface PrunedEntry {
+  file: string;
+  /** Package the entry was for, when it could be read */
+  path?: string;
+  bytes: number;
+  reason: PruneReason;
+}
+
+/**
+ * Result of one `cache prune` run
+ */
+export interface CachePruneReport {
+  dir: string;
+  pruned: PrunedEntry[];
+  keptCount: number;
+  /** Bytes removed, or that would be removed with `dryRun` */
+  reclaimedBytes: number;
+  errors: string[];
+}
+
+/**
+ * Remove the entries of packages that are gone or have changed since, and entries
+ * that cannot be read or are of another version. With `all`, every entry goes.
+ * Entries keyed by content hash are kept as long as size and mtime still match.
+ */
+export async function pruneIndexCache(dir: string, options: { all?: boolean; dryRun?: boolean } = {}): Promise<CachePruneReport> {
+  const report: CachePruneReport = { dir, pruned: [], keptCount: 0, reclaimedBytes: 0, errors: [] };
+  let shards: string[];
+  try {
+    shards = (await fs.readdir(dir, { withFileTypes: true })).filter((dirent) => dirent.isDirectory()).map((dirent) => dirent.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      report.errors.push(`Cannot read ${dir}: ${(error as Error).message}`);
+    }
+    return report;
+  }
+
+  const files: string[] = [];
+  for (const shard of shards) {
+    try {
+      for (const name of await fs.readdir(join(dir, shard))) {
+        if (name.endsWith('.json')) {
+          files.push(join(dir, shard, name));
+        }
+      }
+    } catch (error) {
+      report.errors.push(`Cannot read ${join(dir, shard)}: ${(error as Error).message}`);
+    }
+  }
+
+  for (const file of files.sort(stablePathCompare)) {
+    const entry = await pruneReason(file, options.all ?? false);
+    if (entry === undefined) {
+      report.keptCount += 1;
+      continue;
+    }
+    if (!options.dryRun) {
+      try {
+        await fs.unlink(file);
+      } catch (error) {
+        report.errors.push(`Cannot remove ${file}: ${(error as Error).message}`);
+        continue;
+      }
+    }
+    report.pruned.push(entry);
+    report.reclaimedBytes += entry.bytes;
+  }
+  return report;
+}
+
+/**
+ * Render a prune report for the console.
+ */
+export function formatPruneReport(report: CachePruneReport, dryRun: boolean): string {
+  const lines = report.pruned.map((entry) => `  ${entry.reason} ${entry.path ?? entry.file}`);
+  const verb = dryRun ? 'would remove' : 'removed';
+  lines.push(
+    `cache: ${verb} ${report.pruned.length} entr${report.pruned.length === 1 ? 'y' : 'ies'} (${formatBytes(report.reclaimedBytes)}), kept ${report.keptCount} in ${report.dir}`,
+  );
+  return lines.join('\n');
+}
+
+/**
+ * `s4merge cache prune`: prune the cache folder and print the report.
+ * Returns 1 when an entry could not be read or removed.
+ */
+export async function runCachePrune(options: CachePruneCliOptions): Promise<number> {
+  const report = await pruneIndexCache(options.cacheDir ?? defaultCacheDir(), { all: options.all, dryRun: options.dryRun });
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    for (const error of report.errors) {
+      console.error(`cache: ${error}`);
+    }
+    console.log(formatPruneReport(report, options.dryRun));
+  }
+  return report.errors.length > 0 ? 1 : 0;
+}
+
+async function pruneReason(file: string, all: boolean): Promise<PrunedEntry | undefined> {
+  let bytes = 0;
+  let record: CachedPackage;
+  try {
+    const text = await fs.readFile(file, 'utf8');
+    bytes = Buffer.byteLength(text);
+    record = JSON.parse(text) as CachedPackage;
+  } catch {
+    return { file, bytes, reason: 'unreadable' };
+  }
+  if (all) {
+    return { file, path: record.path, bytes, reason: 'all' };
+  }
+  if (record.version !== INDEX_CACHE_VERSION || typeof record.path !== 'string') {
+    return { file, bytes, reason: 'unreadable' };
+  }
+  try {
+    const stat = await fs.stat(record.path);
+    return stat.size === record.size && stat.mtimeMs === record.mtimeMs ? undefined : { file, path: record.path, bytes, reason: 'changed' };
+  } catch {
+    return { file, path: record.path, bytes, reason: 'missing' };
+  }
+}
+
+function encodeIndex(index: DbpfIndex): NonNullable<CachedPackage['index']> {
+  return {
+    header: index.header,
+    fileSize: index.fileSize,
+    deletedCount: index.deletedCount,
+    entries: index.entries.map(({ key, position, compressedSize, uncompressedSize, compressionType }) => [
+      key.type,
+      key.group,
+      key.instance.toString(16),
+      position,
+      compressedSize,
+      uncompressedSize,
+      compressionType,
+    ]),
+  };
+}
+
+function decodeIndex(cached: NonNullable<CachedPackage['index']>): DbpfIndex {
+  return {
+    header: cached.header,
+    fileSize: cached.fileSize,
+    deletedCount: cached.deletedCount,
+    entries: cached.entries.map(([type, group, instance, position, compressedSize, uncompressedSize, compressionType]) => ({
+      key: { type, group, instance: BigInt(`0x${instance}`) },
+      position,
+      compressedSize,
+      uncompressedSize,
+      compressionType,
+    })),
+  };
+}
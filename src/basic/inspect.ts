@@ -0,0 +1,242 @@
+// Inspect: List the index of a package and extract single resources, without loading it through S4TK.
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import {
+  CompressionType,
+  decompressPayload,
+  readDbpfFileIndex,
+  readDbpfPayload,
+  type DbpfIndexEntry,
+} from '../core/dbpf.js';
+import { describeResourceType, type ResourceCategory } from '../core/resource-types.js';
+import { formatGroupId, formatInstanceId, formatTypeId } from '../core/s4tk.js';
+import { writeFileAtomic } from '../util/fsx.js';
+import type { InspectCliOptions } from './types.js';
+
+/**
+ * One index entry as shown by `inspect`. `index` is the 1-based position among live entries.
+ */
+export interface InspectEntry {
+  index: number;
+  type: string;
+  /** Registry name of the type, or the hex ID when it is not registered */
+  name: string;
+  category: ResourceCategory;
+  group: string;
+  instance: string;
+  compression: string;
+  storedSize: number;
+  size: number;
+  position: number;
+}
+
+/**
+ * Listing of one package, after filtering
+ */
+export interface InspectReport {
+  path: string;
+  fileSize: number;
+  totalEntries: number;
+  deletedCount: number;
+  entries: InspectEntry[];
+}
+
+/**
+ * Entry filters; an entry matches when it matches every non-empty list
+ */
+export interface InspectFilter {
+  types?: number[];
+  instances?: bigint[];
+}
+
+const COMPRESSION_NAMES: Record<number, string> = {
+  [CompressionType.Uncompressed]: 'none',
+  [CompressionType.ZLIB]: 'zlib',
+  [CompressionType.DeletedRecord]: 'deleted',
+  [CompressionType.StreamableCompression]: 'streamable',
+  [CompressionType.InternalCompression]: 'refpack',
+};
+
+const CSV_COLUMNS: (keyof InspectEntry)[] = ['index', 'type', 'name', 'category', 'group', 'instance', 'compression', 'storedSize', 'size', 'position'];
+
+/**
+ * Read a package index and list its live entries in index order, filtered.
+ *
+ * @throws DbpfFormatError when the file is not a readable package
+ */
+export async function inspectPackage(filePath: string, filter: InspectFilter = {}): Promise<InspectReport> {
+  const { entries, fileSize, deletedCount } = await readDbpfFileIndex(filePath);
+  return {
+    path: filePath,
+    fileSize,
+    totalEntries: entries.length,
+    deletedCount,
+    entries: matchingEntries(entries, filter).map(({ entry, index }) => describeEntry(entry, index)),
+  };
+}
+
+/**
+ * Write every matching resource to `<outDir>/<type>_<group>_<instance>.bin`, decompressed
+ * unless `raw` is set. Later entries with an already used key get a `.2`, `.3`, ... suffix.
+ *
+ * @returns The written file paths, in index order
+ */
+export async function extractResources(
+  filePath: string,
+  outDir: string,
+  options: InspectFilter & { raw?: boolean } = {},
+): Promise<string[]> {
+  const { entries } = await readDbpfFileIndex(filePath);
+  const selected = matchingEntries(entries, options);
+  const written: string[] = [];
+  const used = new Map<string, number>();
+
+  await fs.mkdir(outDir, { recursive: true });
+  const handle = await fs.open(filePath, 'r');
+  try {
+    for (const { entry } of selected) {
+      const stored = await readDbpfPayload(handle, entry, filePath);
+      const data = options.raw ? stored : decompressPayload(stored, entry.compressionType);
+      const stem = [formatTypeId(entry.key.type), formatGroupId(entry.key.group), formatInstanceId(entry.key.instance)]
+        .map((id) => id.slice(2))
+        .join('_');
+      const count = (used.get(stem) ?? 0) + 1;
+      used.set(stem, count);
+      const target = join(outDir, `${stem}${count > 1 ? `.${count}` : ''}.bin`);
+      await writeFileAtomic(target, data);
+      written.push(target);
+    }
+  } finally {
+    await handle.close();
+  }
+  return written;
+}
+
+/**
+ * Parse a `--type` value: `0x`-prefixed hex or decimal, 32 bits.
+ *
+ * @throws Error when the value is not a valid resource type
+ */
+export function parseTypeFilter(value: string): number {
+  const parsed = parseId(value, 'type');
+  if (parsed > 0xffffffffn) {
+    throw new Error(`Invalid type '${value}': expected a 32-bit value.`);
+  }
+  return Number(parsed);
+}
+
+/**
+ * Parse an `--instance` value: `0x`-prefixed hex or decimal, 64 bits.
+ *
+ * @throws Error when the value is not a valid instance
+ */
+export function parseInstanceFilter(value: string): bigint {
+  const parsed = parseId(value, 'instance');
+  if (parsed > 0xffffffffffffffffn) {
+    throw new Error(`Invalid instance '${value}': expected a 64-bit value.`);
+  }
+  return parsed;
+}
+
+/**
+ * Render a report as an aligned text table with a summary line.
+ */
+export function formatInspectTable(report: InspectReport): string {
+  const header = ['#', 'type', 'name', 'group', 'instance', 'compression', 'stored', 'size'];
+  const rows = report.entries.map((entry) => [
+    String(entry.index),
+    entry.type,
+    entry.name,
+    entry.group,
+    entry.instance,
+    entry.compression,
+    String(entry.storedSize),
+    String(entry.size),
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const numeric = new Set([0, 6, 7]);
+  const render = (row: string[]): string =>
+    row
+      .map((cell, column) => (numeric.has(column) ? cell.padStart(widths[column]) : cell.padEnd(widths[column])))
+      .join('  ')
+      .trimEnd();
+
+  const lines = [
+    `inspect: ${report.path}: ${report.entries.length} of ${report.totalEntries} entries, ${report.fileSize} bytes` +
+      (report.deletedCount > 0 ? ` (${report.deletedCount} deleted record(s) not shown)` : ''),
+    render(header),
+    ...rows.map(render),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Render a report as CSV (RFC 4180, header row, `\n` line endings).
+ */
+export function formatInspectCsv(report: InspectReport): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of report.entries) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(String(entry[column]))).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Standalone `inspect` run: list (and optionally extract) the entries of one package.
+ */
+export async function runInspect(filePath: string, options: InspectCliOptions): Promise<number> {
+  const filter: InspectFilter = {
+    types: options.type.map(parseTypeFilter),
+    instances: options.instance.map(parseInstanceFilter),
+  };
+  const report = await inspectPackage(filePath, filter);
+
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else if (options.format === 'csv') {
+    process.stdout.write(formatInspectCsv(report));
+  } else {
+    console.log(formatInspectTable(report));
+  }
+
+  if (options.extract) {
+    const written = await extractResources(filePath, options.extract, { ...filter, raw: options.raw });
+    // Keep stdout machine-readable for json/csv.
+    console.error(`inspect: extracted ${written.length} resource(s) to ${options.extract}${options.raw ? ' (raw)' : ''}`);
+  }
+  return 0;
+}
+
+function matchingEntries(entries: DbpfIndexEntry[], filter: InspectFilter): { entry: DbpfIndexEntry; index: number }[] {
+  const types = new Set(filter.types ?? []);
+  const instances = new Set(filter.instances ?? []);
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => (types.size === 0 || types.has(entry.key.type)) && (instances.size === 0 || instances.has(entry.key.instance)));
+}
+
+function describeEntry(entry: DbpfIndexEntry, index: number): InspectEntry {
+  return {
+    index: index + 1,
+    type: formatTypeId(entry.key.type),
+    ...describeResourceType(entry.key.type),
+    group: formatGroupId(entry.key.group),
+    instance: formatInstanceId(entry.key.instance),
+    compression: COMPRESSION_NAMES[entry.compressionType] ?? `0x${entry.compressionType.toString(16).padStart(4, '0')}`,
+    storedSize: entry.compressedSize,
+    size: entry.uncompressedSize,
+    position: entry.position,
+  };
+}
+
+function parseId(value: string, label: string): bigint {
+  const text = value.trim();
+  if (!/^(0x[0-9a-f]+|[0-9]+)$/iu.test(text)) {
+    throw new Error(`Invalid ${label} '${value}': expected 0x-prefixed hex or a decimal number.`);
+  }
+  return BigInt(text.toLowerCase());
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/u.test(value) ? `"${value.replace(/"/gu, '""')}"` : value;
+}
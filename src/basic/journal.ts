@@ -0,0 +1,262 @@
+// Journal: Checkpoints of a `basic` run, so `--resume` can skip the outputs an
+// interrupted run already finished. Written atomically after every output.
+import { createHash } from 'node:crypto';
+import { createReadStream, promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { canonicalJson } from '../core/metadata.js';
+import { normalizePath } from '../util/determinism.js';
+import { sanitizeBaseName, tempFileTarget, writeFileAtomic } from '../util/fsx.js';
+import type { OutputMergeResult } from './merge.js';
+import { fingerprintOutput, type OutputPlan, type Plan } from './plan.js';
+
+/**
+ * Journal file name, in the output folder (`--out-root`, or the folder of `--out`)
+ */
+export const JOURNAL_FILE_NAME = '.s4merge-journal.json';
+
+/**
+ * Journal format version written by this tool
+ */
+export const JOURNAL_VERSION = 1;
+
+/**
+ * Options that change the bytes of an output besides its inputs
+ */
+export interface JournalFlags {
+  maxSizeMb: number | null;
+  collisionPolicy: string;
+  dedupeIdentical: boolean;
+}
+
+/**
+ * One written part of a finished output, with the sha256 of its content
+ */
+export interface JournalPart extends OutputMergeResult {
+  sha256: string;
+}
+
+/**
+ * A finished output: the hash of its inputs and flags, and every part written for it
+ */
+export interface JournalOutput {
+  inputsHash: string;
+  parts: JournalPart[];
+}
+
+/**
+ * Content of the journal file. Outputs are keyed by normalized output path.
+ */
+export interface RunJournal {
+  version: number;
+  planHash: string;
+  outputs: Record<string, JournalOutput>;
+}
+
+/**
+ * An open journal: the one being written and, with `--resume`, the one found on disk
+ */
+export interface JournalSession {
+  path: string;
+  flags: JournalFlags;
+  journal: RunJournal;
+  previous?: RunJournal;
+}
+
+/**
+ * Journal that cannot be read or has an unknown version
+ */
+export class JournalError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath === undefined ? message : `${filePath}: ${message}`);
+    this.name = 'JournalError';
+  }
+}
+
+/**
+ * Hash of the whole plan: every output path with its inputs, and the flags.
+ */
+export function hashPlan(plan: Plan, flags: JournalFlags): string {
+  const outputs = plan.outputs.map((output) => [outputKey(output), fingerprintOutput(output)]);
+  return sha256Text(canonicalJson({ flags, inDirs: plan.inDirs.map(normalizePath), mode: plan.mode, outputs }));
+}
+
+/**
+ * Hash of one output's inputs (paths, sizes, mtimes in merge order) and the flags.
+ */
+export function hashOutputInputs(output: OutputPlan, plan: Plan, flags: JournalFlags): string {
+  return sha256Text(canonicalJson({ flags, inDirs: plan.inDirs.map(normalizePath), output: outputKey(output), inputs: fingerprintOutput(output) }));
+}
+
+/**
+ * Read a journal.
+ *
+ * @returns undefined when there is none
+ * @throws JournalError when the file is not a journal this tool can read
+ */
+export async function readJournal(filePath: string): Promise<RunJournal | undefined> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new JournalError(`Cannot read journal: ${(error as Error).message}`, filePath);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new JournalError(`Journal is not valid JSON: ${(error as Error).message}`, filePath);
+  }
+  const journal = parsed as Partial<RunJournal> | null;
+  if (journal === null || typeof journal !== 'object' || journal.version !== JOURNAL_VERSION) {
+    throw new JournalError(`Unsupported journal version '${String(journal?.version)}' (expected ${JOURNAL_VERSION})`, filePath);
+  }
+  if (typeof journal.planHash !== 'string' || journal.outputs === null || typeof journal.outputs !== 'object') {
+    throw new JournalError('Journal is missing planHash or outputs', filePath);
+  }
+  return journal as RunJournal;
+}
+
+/**
+ * Start the journal of a run and write it. With `resume`, the journal found at
+ * `filePath` is kept as `previous`, and its outputs that are still planned with the
+ * same inputs and flags are carried over, so a second interruption loses nothing.
+ *
+ * @throws JournalError when resuming from a journal that cannot be read
+ */
+export async function openJournal(filePath: string, plan: Plan, flags: JournalFlags, resume: boolean): Promise<JournalSession> {
+  const previous = resume ? await readJournal(filePath) : undefined;
+  const journal: RunJournal = { version: JOURNAL_VERSION, planHash: hashPlan(plan, flags), outputs: {} };
+  for (const output of plan.outputs) {
+    const entry = previous?.outputs[outputKey(output)];
+    if (entry !== undefined && entry.inputsHash === hashOutputInputs(output, plan, flags)) {
+      journal.outputs[outputKey(output)] = entry;
+    }
+  }
+  const session: JournalSession = { path: filePath, flags, journal, previous };
+  await writeJournal(session);
+  return session;
+}
+
+/**
+ * Results of an output an earlier run finished, when its inputs and flags are
+ * unchanged and every part on disk still has the recorded sha256; undefined otherwise.
+ */
+export async function reuseFinishedOutput(session: JournalSession, plan: Plan, output: OutputPlan): Promise<OutputMergeResult[] | undefined> {
+  const entry = session.previous?.outputs[outputKey(output)];
+  if (entry === undefined || entry.inputsHash !== hashOutputInputs(output, plan, session.flags)) {
+    return undefined;
+  }
+  for (const part of entry.parts) {
+    try {
+      if ((await sha256File(part.outputPath)) !== part.sha256) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Input paths are taken from this run: packages from archives are staged under new names.
+  let position = 0;
+  return entry.parts.map((part) => ({
+    outputPath: part.outputPath,
+    resourceCount: part.resourceCount,
+    bytes: part.bytes,
+    inputs: part.inputs.map((input) => ({ ...input, path: output.inputs[position++]?.path ?? input.path })),
+    part: part.part,
+    partCount: part.partCount,
+    oversized: part.oversized,
+    reused: true,
+  }));
+}
+
+/**
+ * Record a finished output with the sha256 of each part and rewrite the journal.
+ */
+export async function recordFinishedOutput(session: JournalSession, plan: Plan, output: OutputPlan, results: OutputMergeResult[]): Promise<void> {
+  const parts: JournalPart[] = [];
+  for (const result of results) {
+    const part: JournalPart = { ...result, sha256: await sha256File(result.outputPath) };
+    delete part.reused;
+    parts.push(part);
+  }
+  session.journal.outputs[outputKey(output)] = { inputsHash: hashOutputInputs(output, plan, session.flags), parts };
+  await writeJournal(session);
+}
+
+/**
+ * Delete temp files `createTempFile` left next to the outputs, manifests and journal
+ * of a plan when a run died mid-write. Only temp files reserved for one of those
+ * names (parts included) are touched.
+ *
+ * @param extraPaths Other files the run writes, e.g. manifests and the journal
+ * @returns The deleted paths
+ */
+export async function removeStaleTempFiles(plan: Plan, extraPaths: string[] = []): Promise<string[]> {
+  const targets = new Map<string, Set<string>>();
+  const addTarget = (path: string): void => {
+    const names = targets.get(dirname(path)) ?? new Set<string>();
+    names.add(sanitizeBaseName(basename(path)).toLowerCase());
+    targets.set(dirname(path), names);
+  };
+  const partPatterns = plan.outputs.map((output) => {
+    const stem = sanitizeBaseName(basename(output.outputPath)).replace(/\.package$/iu, '');
+    return { dir: dirname(output.outputPath), pattern: new RegExp(`^${escapeRegex(stem)}\\.part\\d+\\.package$`, 'iu') };
+  });
+  for (const path of [...plan.outputs.map((output) => output.outputPath), ...extraPaths]) {
+    addTarget(path);
+  }
+
+  const removed: string[] = [];
+  const dirs = new Set([...targets.keys(), ...partPatterns.map((part) => part.dir)]);
+  for (const dir of dirs) {
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+    for (const name of names.sort()) {
+      const target = tempFileTarget(name);
+      if (target === undefined) {
+        continue;
+      }
+      const planned =
+        targets.get(dir)?.has(target.toLowerCase()) ||
+        partPatterns.some((part) => part.dir === dir && part.pattern.test(target));
+      if (planned) {
+        await fs.rm(join(dir, name), { force: true });
+        removed.push(join(dir, name));
+      }
+    }
+  }
+  return removed;
+}
+
+async function writeJournal(session: JournalSession): Promise<void> {
+  await fs.mkdir(dirname(session.path), { recursive: true });
+  await writeFileAtomic(session.path, `${JSON.stringify(session.journal, null, 2)}\n`);
+}
+
+function outputKey(output: OutputPlan): string {
+  return normalizePath(output.outputPath);
+}
+
+function sha256Text(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/gu, '\\$&');
+}
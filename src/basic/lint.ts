@@ -0,0 +1,288 @@
+// Lint: Check a Mods folder against the rules the game loads it by: folder depth,
+// valid package files, stray hidden/temp copies and the PackedFile lines of Resource.cfg.
+import { promises as fs } from 'node:fs';
+import { join, relative } from 'node:path';
+import { DBPF_HEADER_SIZE, parseDbpfHeader } from '../core/dbpf.js';
+import { normalizePath, splitPathComponents, stablePathCompare } from '../util/determinism.js';
+import { compileGlob, matchesGlob, type GlobPattern } from '../util/glob.js';
+import { enumerateDirectory, type SkippedFile } from './scanner.js';
+import type { LintCliOptions } from './types.js';
+
+/**
+ * Deepest folder level the game loads `.package` files from (`Mods/1/2/3/4/5/x.package`)
+ */
+export const MAX_PACKAGE_DEPTH = 5;
+
+/**
+ * Deepest folder level the game loads `.ts4script` files from (`Mods/1/x.ts4script`)
+ */
+export const MAX_SCRIPT_DEPTH = 1;
+
+/**
+ * Exit codes of `s4merge lint`; info findings alone exit with 0
+ */
+export const LINT_EXIT_OK = 0;
+export const LINT_EXIT_WARNINGS = 1;
+export const LINT_EXIT_ERRORS = 2;
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * What a finding is about
+ */
+export type LintCode =
+  | 'package-depth'
+  | 'script-depth'
+  | 'empty-package'
+  | 'not-dbpf'
+  | 'hidden-file'
+  | 'temp-file'
+  | 'zip-archive'
+  | 'resource-cfg'
+  | 'unreadable';
+
+/**
+ * One finding. `path` is relative to the Mods folder, with forward slashes.
+ */
+export interface LintIssue {
+  severity: LintSeverity;
+  code: LintCode;
+  path: string;
+  message: string;
+}
+
+/**
+ * Everything found in one Mods folder
+ */
+export interface LintReport {
+  root: string;
+  packages: number;
+  scripts: number;
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+}
+
+const RESOURCE_CFG = 'Resource.cfg';
+
+// Names editors, sync tools and interrupted writes leave behind with a loadable extension
+const TEMP_NAME = /^(?:~|\.tmp-)|\.(?:tmp|temp|bak|old)\.(?:package|ts4script)$/iu;
+
+/**
+ * Lint a Mods folder.
+ *
+ * - `.package` files more than 5 folders and `.ts4script` files more than 1 folder
+ *   below the root are not loaded (errors).
+ * - Zero-byte `.package` files and files without a DBPF 2.1 header are errors.
+ * - Hidden files and files in hidden folders, and leftovers with temp-like names, are
+ *   warnings when the game would still load them.
+ * - `.zip` archives are never loaded (warning).
+ * - Packages at a depth the `PackedFile` lines of `Resource.cfg` do not cover are
+ *   errors; a missing `Resource.cfg` is only noted, as the game writes a default one.
+ *
+ * `.s4mergeignore` files are not honored: the game does not read them either.
+ */
+export async function lintModsFolder(root: string): Promise<LintReport> {
+  const issues: LintIssue[] = [];
+  const issue = (severity: LintSeverity, code: LintCode, fullPath: string, message: string): void => {
+    issues.push({ severity, code, path: relativePath(root, fullPath), message });
+  };
+
+  const packages: string[] = [];
+  const scripts: string[] = [];
+  const archives: string[] = [];
+  const errors: string[] = [];
+  const pending = [root];
+  // Hidden folders are skipped by the scanner but not by the game, so they are scanned on their own.
+  while (pending.length > 0) {
+    const folder = pending.shift() as string;
+    const skipped: SkippedFile[] = [];
+    packages.push(...(await enumerateDirectory(folder, errors, { ignoreFiles: false, skipped, scripts, archives })));
+    for (const entry of skipped) {
+      if (entry.reason !== 'hidden') {
+        continue;
+      }
+      const stats = await fs.stat(entry.path).catch(() => undefined);
+      if (stats?.isDirectory()) {
+        pending.push(entry.path);
+      } else if (isLoadable(entry.path)) {
+        (entry.path.toLowerCase().endsWith('.package') ? packages : scripts).push(entry.path);
+      }
+    }
+  }
+  for (const error of errors) {
+    issues.push({ severity: 'error', code: 'unreadable', path: '.', message: error });
+  }
+
+  const depths = new Set<number>();
+  for (const path of packages) {
+    const depth = folderDepth(root, path);
+    depths.add(depth);
+    if (depth > MAX_PACKAGE_DEPTH) {
+      issue('error', 'package-depth', path, `${depth} folders deep; packages load at most ${MAX_PACKAGE_DEPTH} folders below Mods`);
+    }
+    await checkPackageFile(path, (code, message) => issue('error', code, path, message));
+  }
+  for (const path of scripts) {
+    const depth = folderDepth(root, path);
+    if (depth > MAX_SCRIPT_DEPTH) {
+      issue('error', 'script-depth', path, `${depth} folders deep; scripts load at most ${MAX_SCRIPT_DEPTH} folder below Mods`);
+    }
+  }
+  for (const path of [...packages, ...scripts]) {
+    const rel = relativePath(root, path);
+    const name = rel.split('/').pop() as string;
+    if (TEMP_NAME.test(name)) {
+      issue('warning', 'temp-file', path, 'looks like a temporary or backup copy, but the game still loads it');
+    } else if (rel.split('/').some((part) => part.startsWith('.'))) {
+      issue('warning', 'hidden-file', path, 'hidden, but the game still loads it');
+    }
+  }
+  for (const path of archives) {
+    issue('warning', 'zip-archive', path, 'the game does not load .zip archives; extract it into the Mods folder');
+  }
+
+  await checkResourceCfg(root, depths, (severity, message) => issue(severity, 'resource-cfg', join(root, RESOURCE_CFG), message));
+
+  issues.sort((left, right) => stablePathCompare(left.path, right.path));
+  return {
+    root,
+    packages: packages.length,
+    scripts: scripts.length,
+    issues,
+    errorCount: issues.filter((item) => item.severity === 'error').length,
+    warningCount: issues.filter((item) => item.severity === 'warning').length,
+    infoCount: issues.filter((item) => item.severity === 'info').length,
+  };
+}
+
+/**
+ * Parse the `PackedFile` lines of a Resource.cfg into anchored patterns; other
+ * directives (`Priority`, `DirectoryFiles`, ...) and comments are ignored.
+ */
+export function parseResourceCfg(text: string): GlobPattern[] {
+  const patterns: GlobPattern[] = [];
+  text.split(/\r?\n/u).forEach((raw, index) => {
+    const match = /^\s*PackedFile\s+(\S.*?)\s*$/iu.exec(raw);
+    if (match !== null) {
+      patterns.push(compileGlob(`/${match[1].replace(/\\/gu, '/')}`, index + 1));
+    }
+  });
+  return patterns;
+}
+
+/**
+ * Render a report for the console.
+ */
+export function formatLintReport(report: LintReport): string {
+  const lines = [`lint: ${report.root}: ${report.packages} package(s), ${report.scripts} script(s)`];
+  for (const item of report.issues) {
+    lines.push(`  ${item.severity} [${item.code}] ${item.path}: ${item.message}`);
+  }
+  lines.push(`lint: ${report.errorCount} error(s), ${report.warningCount} warning(s), ${report.infoCount} info`);
+  return lines.join('\n');
+}
+
+/**
+ * Exit code for a report: errors beat warnings; info findings do not count.
+ */
+export function lintExitCode(report: LintReport): number {
+  if (report.errorCount > 0) {
+    return LINT_EXIT_ERRORS;
+  }
+  return report.warningCount > 0 ? LINT_EXIT_WARNINGS : LINT_EXIT_OK;
+}
+
+/**
+ * `s4merge lint`: lint one Mods folder and print the report.
+ */
+export async function runLint(root: string, options: LintCliOptions): Promise<number> {
+  const stats = await fs.stat(root).catch(() => undefined);
+  if (!stats?.isDirectory()) {
+    throw new Error(`Mods folder not found: ${root}`);
+  }
+  const report = await lintModsFolder(root);
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    console.log(formatLintReport(report));
+  }
+  return lintExitCode(report);
+}
+
+async function checkPackageFile(path: string, error: (code: LintCode, message: string) => void): Promise<void> {
+  let header: Buffer;
+  try {
+    const handle = await fs.open(path, 'r');
+    try {
+      header = Buffer.alloc(DBPF_HEADER_SIZE);
+      const { bytesRead } = await handle.read(header, 0, DBPF_HEADER_SIZE, 0);
+      header = header.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch (cause) {
+    error('unreadable', cause instanceof Error ? cause.message : String(cause));
+    return;
+  }
+
+  if (header.length === 0) {
+    error('empty-package', 'zero-byte package file');
+    return;
+  }
+  try {
+    parseDbpfHeader(header);
+  } catch (cause) {
+    error('not-dbpf', `${cause instanceof Error ? cause.message : String(cause)}; the game cannot read it`);
+  }
+}
+
+async function checkResourceCfg(
+  root: string,
+  depths: Set<number>,
+  report: (severity: LintSeverity, message: string) => void,
+): Promise<void> {
+  let text: string;
+  try {
+    text = await fs.readFile(join(root, RESOURCE_CFG), 'utf8');
+  } catch {
+    report('info', 'missing; the game writes a default one on its next start');
+    return;
+  }
+
+  const patterns = parseResourceCfg(text);
+  if (patterns.length === 0) {
+    report('error', 'has no PackedFile lines; no packages will load');
+    return;
+  }
+  for (const depth of [...depths].sort((left, right) => left - right)) {
+    if (depth > MAX_PACKAGE_DEPTH) {
+      continue;
+    }
+    // A representative path at this depth: `*/` per folder, matched like the game does.
+    const sample = `${'x/'.repeat(depth)}x.package`;
+    if (!patterns.some((pattern) => matchesGlob(pattern, sample, false))) {
+      report('error', `no PackedFile line covers packages ${depth} folder(s) deep`);
+    }
+  }
+  for (const pattern of patterns) {
+    const folders = splitPathComponents(pattern.source.slice(1)).length - 1;
+    if (folders > MAX_PACKAGE_DEPTH) {
+      report('warning', `line ${pattern.line}: 'PackedFile ${pattern.source.slice(1)}' reaches ${folders} folders deep; the game stops at ${MAX_PACKAGE_DEPTH}`);
+    }
+  }
+}
+
+function isLoadable(path: string): boolean {
+  const lower = path.toLowerCase();
+  return lower.endsWith('.package') || lower.endsWith('.ts4script');
+}
+
+function folderDepth(root: string, path: string): number {
+  return splitPathComponents(relativePath(root, path)).length - 1;
+}
+
+function relativePath(root: string, path: string): string {
+  return normalizePath(relative(root, path)) || '.';
+}
@@ -1,9 +1,217 @@
+import { dirname, join } from 'node:path';
+import { WorkerPool } from '../util/worker-pool.js';
+import { classifyPackages } from './classify.js';
+import { analyzeConflicts, formatConflictReport, writeConflictReport } from './conflicts.js';
+import { JOURNAL_FILE_NAME, openJournal, recordFinishedOutput, removeStaleTempFiles, reuseFinishedOutput } from './journal.js';
+import { openIndexCache, type IndexCache } from './index-cache.js';
+import { formatCommandLine, groupResultsByOutput, manifestPathFor, writeManifests } from './manifest.js';
+import { loadGroupMappingStrategy } from './group-mapping.js';
+import { mergeAll } from './merge.js';
+import {
+  categoryStrategy,
+  folderDepthStrategy,
+  formatPlan,
+  planMerge,
+  regexStrategy,
+  topFolderStrategy,
+  type GroupingStrategy,
+} from './plan.js';
+import { removeStagingDir, scanInputs, sourcePathOf, type ScanResult } from './scanner.js';
+import { copyScripts, formatScriptPlan, planScriptCopies } from './scripts.js';
+import { writeStatsJson } from './stats.js';
 import type { BasicCliOptions } from './types.js';
+import { formatVerifyReport, verifyOutputs } from './verify.js';
+import { watchBasic } from './watch.js';
 
 export async function runBasic(options: BasicCliOptions): Promise<number> {
-  // TODO: Implement orchestrator logic in Task 11
+  const strategy = await strategyFor(options);
+  if (options.watch) {
+    return watchBasic(options, strategy);
+  }
+  const cache = openIndexCache(options);
+  const scan = await scanInputs({
+    inDirs: options.in,
+    filesList: options.files,
+    sortBy: options.sort,
+    reverse: options.reverse,
+    skipDuplicates: options.skipDuplicates,
+    include: options.include,
+    exclude: options.exclude,
+    ignoreFiles: options.ignoreFiles,
+    cache,
+  });
+  // Dry runs hash nothing, so they start no workers.
+  const pool = new WorkerPool(options.dryRun ? 1 : options.jobs);
+  try {
+    return await runScanned(options, scan, strategy, { pool, cache });
+  } finally {
+    await pool.close();
+    await removeStagingDir(scan);
+  }
+}
+
+/**
+ * Plan, merge and report on scanned inputs; files extracted from archives are
+ * staged until this returns. Hashing and decompression go through `pool`; indexes
+ * and hashes of unchanged packages come from `cache` when given.
+ */
+async function runScanned(
+  options: BasicCliOptions,
+  scan: ScanResult,
+  strategy: GroupingStrategy | undefined,
+  { pool, cache }: { pool: WorkerPool; cache?: IndexCache },
+): Promise<number> {
+  const packages = options.groupBy === 'category' ? await classifyPackages(scan.packages, scan.errors, cache) : scan.packages;
+  for (const error of scan.errors) {
+    console.error(`basic: ${error}`);
+  }
+  for (const duplicate of scan.duplicates) {
+    const action = options.skipDuplicates ? 'skipped' : 'use --skip-duplicates to leave it out';
+    console.log(`basic: ${duplicate.path} is identical to ${duplicate.duplicateOf} (${action})`);
+  }
+
+  const plan = planMerge(packages, {
+    out: options.out,
+    byFolder: options.byFolder,
+    strategy,
+    outRoot: options.outRoot,
+    inDirs: options.in,
+  });
+  const scripts = planScriptCopies(scan.scripts, options.outRoot ?? dirname(options.out as string));
+
   if (options.dryRun) {
-    // TODO(Task 11): compute plan and return status; CLI will render any messages.
+    console.log(formatPlan(plan));
+    if (scripts.copies.length + scripts.clashes.length > 0) {
+      console.log(formatScriptPlan(scripts));
+    }
+    for (const archive of scan.archives) {
+      console.log(`basic: archive ${archive.path}: ${archive.packages.length} package(s), ${archive.scripts.length} script(s)`);
+    }
+    for (const skipped of scan.skippedFiles) {
+      console.log(`  skipped ${skipped.path} (${skipped.reason}: ${skipped.cause})`);
+    }
+
+    // Pre-merge conflict check: report colliding TGIs before anything is written.
+    const report = await analyzeConflicts(packages, { collisionPolicy: options.collisionPolicy, cache });
+    console.log(formatConflictReport(report));
+    if (options.conflictReport) {
+      await writeConflictReport(report, options.conflictReport);
+    }
+    return 0;
+  }
+
+  const journalPath = join(options.outRoot ?? dirname(options.out as string), JOURNAL_FILE_NAME);
+  if (options.resume) {
+    const manifestPaths = plan.outputs.map((output) => manifestPathFor(plan, output, options.manifestOut));
+    const stale = await removeStaleTempFiles(plan, [...manifestPaths, journalPath, ...(options.statsJson ? [options.statsJson] : [])]);
+    for (const path of stale) {
+      console.log(`basic: removed stale temp file ${path}`);
+    }
+  }
+  const journal = await openJournal(
+    journalPath,
+    plan,
+    { maxSizeMb: options.maxSize ?? null, collisionPolicy: options.collisionPolicy, dedupeIdentical: options.dedupeIdentical },
+    options.resume,
+  );
+
+  const results = await mergeAll(plan, {
+    maxSizeMb: options.maxSize,
+    progress: options.progress,
+    collisionPolicy: options.collisionPolicy,
+    dedupeIdentical: options.dedupeIdentical,
+    jobs: options.jobs,
+    memoryBudgetMb: options.memoryBudget,
+    pool,
+    reuse: options.resume ? (output) => reuseFinishedOutput(journal, plan, output) : undefined,
+    onOutput: (output, outputResults) => recordFinishedOutput(journal, plan, output, outputResults),
+  });
+
+  const copiedScripts = await copyScripts(scripts);
+
+  // Packages from archives are merged from their staged copies; report them by archive path.
+  const shownPaths = new Map(packages.map((pkg) => [pkg.path, sourcePathOf(pkg)]));
+
+  for (const result of results) {
+    const part = result.partCount > 1 ? ` [part ${result.part}/${result.partCount}]` : '';
+    const action = result.reused ? 'kept' : 'wrote';
+    console.log(`basic: ${action} ${result.outputPath}${part} (${result.resourceCount} resources, ${result.bytes} bytes)`);
+    if (result.oversized) {
+      console.warn(`  warning: a single input exceeds --max-size ${options.maxSize} MB; it was written as its own part`);
+    }
+    for (const input of result.inputs) {
+      const inputPath = shownPaths.get(input.path) ?? input.path;
+      if (input.overwrittenCount > 0) {
+        const outcome =
+          options.collisionPolicy === 'shadow-original'
+            ? `visible ${input.keptCount - input.overwrittenCount}/${input.resourceCount}, shadowed ${input.overwrittenCount}`
+            : `kept ${input.keptCount}/${input.resourceCount}, overwritten ${input.overwrittenCount}`;
+        console.log(`  ${inputPath}: ${outcome} (${options.collisionPolicy})`);
+      }
+      if (input.dedupedCount > 0) {
+        console.log(`  ${inputPath}: dropped ${input.dedupedCount} identical resource(s)`);
+      }
+    }
+  }
+  for (const copy of copiedScripts) {
+    console.log(`basic: copied script ${sourcePathOf(copy.script)} -> ${copy.destination}`);
+  }
+  for (const clash of scripts.clashes) {
+    console.warn(`basic: warning: skipped script ${sourcePathOf(clash.script)}; ${clash.keptFrom} already goes to ${clash.destination}`);
+  }
+
+  const manifests = await writeManifests(plan, results, {
+    manifestOut: options.manifestOut,
+    command: formatCommandLine(['s4merge', ...process.argv.slice(2)]),
+    order: { key: options.sort, reverse: options.reverse },
+    maxSizeMb: options.maxSize,
+    collisionPolicy: options.collisionPolicy,
+    scripts: copiedScripts,
+    pool,
+  });
+  for (const manifestPath of manifests) {
+    console.log(`basic: wrote manifest ${manifestPath}`);
+  }
+
+  if (options.statsJson) {
+    await writeStatsJson(plan, results, options.statsJson, cache);
+    console.log(`basic: wrote stats ${options.statsJson}`);
+  }
+
+  if (options.verify) {
+    const grouped = groupResultsByOutput(plan, results);
+    const report = await verifyOutputs(
+      plan.outputs.flatMap((output, index) =>
+        grouped[index].map((part) => ({ path: part.outputPath, manifestPath: manifestPathFor(plan, output, options.manifestOut) })),
+      ),
+      { pool, cache },
+    );
+    console.log(formatVerifyReport(report));
+    if (report.errorCount > 0) {
+      return 1;
+    }
+  }
+
+  return scan.errors.length > 0 ? 1 : 0;
+}
+
+
+/**
+ * Grouping strategy for the CLI options; mapping files are read here, before planning.
+ */
+async function strategyFor(options: BasicCliOptions): Promise<GroupingStrategy | undefined> {
+  switch (options.groupBy) {
+    case 'folder':
+      return topFolderStrategy;
+    case 'depth':
+      return folderDepthStrategy(options.groupDepth as number);
+    case 'regex':
+      return regexStrategy(new RegExp(options.groupRegex as string, 'u'));
+    case 'mapping':
+      return loadGroupMappingStrategy(options.groupMap as string);
+    case 'category':
+      return categoryStrategy;
+    default:
+      return undefined;
   }
-  return 0;
 }
@@ -1,8 +1,432 @@
-// Manifests: Emit per-output YAML manifest matching §3.1 schema.
-import type { Plan } from './plan.js';
+// Manifests: Emit per-output YAML manifest matching §3.1 schema, and read them back.
+// Determinism: keys are sorted, integers are plain decimal and dates are UTC ISO-8601 seconds.
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type { CollisionPolicy } from '../core/s4tk.js';
+import { writeFileAtomic } from '../util/fsx.js';
+import { IN_THREAD_POOL, type WorkerPool } from '../util/worker-pool.js';
+import { parseYaml, toYaml, YamlParseError, type YamlValue } from '../util/yaml.js';
+import type { OutputMergeResult } from './merge.js';
+import type { OutputPlan, Plan } from './plan.js';
+import { sourcePathOf } from './scanner.js';
+import type { ScriptCopy } from './scripts.js';
 
-export async function writeManifests(plan: Plan, opts: { manifestOut?: string }): Promise<void> {
-  // TODO(#7.5): Emit YAML manifest(s). For now, no-op.
-  void plan;
-  void opts;
+/**
+ * Manifest schema version written by this tool
+ */
+export const MANIFEST_SCHEMA = 1;
+
+/**
+ * One input package listed in a manifest
+ */
+export interface ManifestInputFile {
+  idx: number;
+  path: string;
+  bytes: number;
+  /** Omitted when the input could not be read back, e.g. originals carried over by `update` */
+  sha1?: string;
+  mtime?: string;
+  part: number;
+  /** Set for packages extracted from a `.zip`; `path` is then `<archive>/<entry>` */
+  archive?: string;
+}
+
+/**
+ * One `.ts4script` file copied (not merged) to the output root by the same run
+ */
+export interface ManifestScriptFile {
+  path: string;
+  source: string;
+  bytes: number;
+  sha1?: string;
+}
+
+/**
+ * Manifest describing one planned output and every part written for it
+ */
+export interface Manifest {
+  schema: number;
+  tool: string;
+  command: string;
+  created_utc: string;
+  output: {
+    path: string;
+    bytes: number;
+    parts: number;
+    resources: number;
+  };
+  inputs: {
+    order: { key: string; reverse: boolean };
+    files: ManifestInputFile[];
+  };
+  /** Only present when the run copied scripts */
+  scripts?: ManifestScriptFile[];
+  rollover: { max_mb: number | null };
+  metadata: {
+    enabled: boolean;
+    resource_count: number;
+    unmerge_capable: boolean;
+  };
+  notes: string[];
+}
+
+/**
+ * Options for writing the manifests of one run
+ */
+export interface WriteManifestsOptions {
+  /** Manifest file for a single output, or the directory for by-folder manifests */
+  manifestOut?: string;
+  command: string;
+  order: { key: string; reverse: boolean };
+  maxSizeMb?: number;
+  collisionPolicy?: CollisionPolicy;
+  /** Scripts copied to the output root, listed in every manifest of the run */
+  scripts?: ScriptCopy[];
+  /** Defaults to SOURCE_DATE_EPOCH when set, otherwise the current time */
+  createdAt?: Date;
+  /** Hashes input files and scripts; in-thread when not given */
+  pool?: WorkerPool;
+}
+
+/**
+ * Raised when a manifest cannot be parsed, uses an unknown schema or fails validation
+ */
+export class ManifestError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath === undefined ? message : `${filePath}: ${message}`);
+    this.name = 'ManifestError';
+  }
+}
+
+const TOOL_NAME = 's4merge';
+const SHA1 = /^[0-9a-f]{40}$/u;
+const UTC_SECONDS = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/u;
+const MANIFEST_EXTENSION = '.manifest.yaml';
+
+/**
+ * Write one manifest per planned output, after its parts have been merged.
+ *
+ * `results` are the merge results in plan order, as returned by `mergeAll`; every
+ * output owns `partCount` consecutive results. Manifests are written atomically.
+ *
+ * @returns The manifest paths, in plan order
+ */
+export async function writeManifests(
+  plan: Plan,
+  results: OutputMergeResult[],
+  opts: WriteManifestsOptions,
+): Promise<string[]> {
+  const written: string[] = [];
+  const createdAt = opts.createdAt ?? defaultCreatedAt();
+  const grouped = groupResultsByOutput(plan, results);
+
+  for (const [index, output] of plan.outputs.entries()) {
+    const parts = grouped[index];
+    if (parts.length === 0) {
+      continue;
+    }
+
+    const manifest = await buildManifest(output, parts, { ...opts, createdAt });
+    const manifestPath = manifestPathFor(plan, output, opts.manifestOut);
+    await fs.mkdir(dirname(manifestPath), { recursive: true });
+    await writeFileAtomic(manifestPath, serializeManifest(manifest));
+    written.push(manifestPath);
+  }
+
+  return written;
+}
+
+/**
+ * Split `mergeAll` results into the parts of each planned output, in plan order.
+ */
+export function groupResultsByOutput(plan: Plan, results: OutputMergeResult[]): OutputMergeResult[][] {
+  let position = 0;
+  return plan.outputs.map(() => {
+    const partCount = results[position]?.partCount ?? 0;
+    const parts = results.slice(position, position + partCount);
+    position += partCount;
+    return parts;
+  });
+}
+
+/**
+ * Where the manifest of an output goes: `--manifest-out` for a single output (or the
+ * directory for grouped outputs), otherwise `<output>.manifest.yaml` next to it.
+ */
+export function manifestPathFor(plan: Plan, output: OutputPlan, manifestOut?: string): string {
+  const stem = basename(output.outputPath).replace(/\.package$/iu, '');
+  if (manifestOut === undefined) {
+    return join(dirname(output.outputPath), `${stem}${MANIFEST_EXTENSION}`);
+  }
+  return plan.mode !== 'single' ? join(manifestOut, `${stem}${MANIFEST_EXTENSION}`) : manifestOut;
+}
+
+/**
+ * Describe one output and its parts. Input files are hashed (sha1) from disk, through
+ * `opts.pool` when given; inputs that no longer exist are listed without hash and
+ * timestamp. Packages from
+ * archives are listed by their path inside the archive and hashed from the staged copy.
+ */
+export async function buildManifest(
+  output: OutputPlan,
+  parts: OutputMergeResult[],
+  opts: WriteManifestsOptions & { createdAt: Date },
+): Promise<Manifest> {
+  const partByPath = new Map<string, number>();
+  for (const part of parts) {
+    for (const input of part.inputs) {
+      partByPath.set(input.path, part.part);
+    }
+  }
+
+  const pool = opts.pool ?? IN_THREAD_POOL;
+  const files: ManifestInputFile[] = [];
+  const digests = pool.runInOrder(output.inputs, (input) => ({ kind: 'digest-file', algorithm: 'sha1', path: input.path }) as const);
+  for await (const { item: input, result: digest } of digests) {
+    const file: ManifestInputFile = {
+      idx: files.length + 1,
+      path: sourcePathOf(input),
+      bytes: input.size,
+      part: partByPath.get(input.path) ?? 1,
+    };
+    if (input.archive !== undefined) {
+      file.archive = input.archive.path;
+    }
+    // An input that is not on disk any more fails to hash: keep the recorded size only.
+    if (digest !== undefined) {
+      try {
+        const stat = await fs.stat(input.path);
+        file.sha1 = digest.hex;
+        file.mtime = formatUtcSeconds(stat.mtime);
+      } catch {
+        // Removed since it was hashed.
+      }
+    }
+    files.push(file);
+  }
+
+  const scripts: ManifestScriptFile[] = [];
+  for (const copy of opts.scripts ?? []) {
+    const script: ManifestScriptFile = { path: copy.destination, source: sourcePathOf(copy.script), bytes: copy.script.size };
+    try {
+      script.sha1 = (await pool.run({ kind: 'digest-file', algorithm: 'sha1', path: copy.destination })).hex;
+    } catch {
+      // Not copied (yet): keep the recorded size only.
+    }
+    scripts.push(script);
+  }
+
+  const notes: string[] = [];
+  if (opts.collisionPolicy !== undefined) {
+    notes.push(`collision policy: ${opts.collisionPolicy}`);
+  }
+  for (const part of parts) {
+    if (part.oversized) {
+      notes.push(`part ${part.part} exceeds the size cap because a single input is larger than ${opts.maxSizeMb} MB`);
+    }
+  }
+
+  return {
+    schema: MANIFEST_SCHEMA,
+    tool: TOOL_NAME,
+    command: opts.command,
+    created_utc: formatUtcSeconds(opts.createdAt),
+    output: {
+      path: output.outputPath,
+      bytes: parts.reduce((sum, part) => sum + part.bytes, 0),
+      parts: parts.length,
+      resources: parts.reduce((sum, part) => sum + part.resourceCount, 0),
+    },
+    inputs: { order: opts.order, files },
+    ...(scripts.length > 0 ? { scripts } : {}),
+    rollover: { max_mb: opts.maxSizeMb ?? null },
+    metadata: { enabled: true, resource_count: parts.length, unmerge_capable: true },
+    notes,
+  };
+}
+
+/**
+ * Render a manifest as YAML with sorted keys.
+ */
+export function serializeManifest(manifest: Manifest): string {
+  return toYaml(manifest as unknown as YamlValue, { sortKeys: true });
+}
+
+/**
+ * Parse and validate manifest text.
+ *
+ * @throws ManifestError for YAML syntax errors, unknown schema versions and schema violations
+ */
+export function parseManifest(text: string, filePath?: string): Manifest {
+  let parsed: YamlValue;
+  try {
+    parsed = parseYaml(text);
+  } catch (error) {
+    if (error instanceof YamlParseError) {
+      throw new ManifestError(`Manifest is not valid YAML: ${error.message}`, filePath);
+    }
+    throw error;
+  }
+  try {
+    validateManifest(parsed);
+  } catch (error) {
+    if (error instanceof ManifestError && filePath !== undefined) {
+      throw new ManifestError(error.message, filePath);
+    }
+    throw error;
+  }
+  return parsed;
+}
+
+/**
+ * Read a manifest written by `writeManifests` (or by hand) and validate it.
+ */
+export async function readManifest(filePath: string): Promise<Manifest> {
+  return parseManifest(await fs.readFile(filePath, 'utf8'), filePath);
+}
+
+/**
+ * Assert that a parsed value matches the manifest schema.
+ */
+export function validateManifest(value: unknown): asserts value is Manifest {
+  const root = expectObject(value, 'manifest');
+  if (root.schema !== MANIFEST_SCHEMA) {
+    if (root.schema === undefined) {
+      throw new ManifestError('schema is missing');
+    }
+    throw new ManifestError(`Unsupported manifest schema '${String(root.schema)}' (expected ${MANIFEST_SCHEMA})`);
+  }
+  expectString(root.tool, 'tool');
+  expectString(root.command, 'command');
+  expectUtc(root.created_utc, 'created_utc');
+
+  const output = expectObject(root.output, 'output');
+  expectString(output.path, 'output.path');
+  expectCount(output.bytes, 'output.bytes');
+  const parts = expectCount(output.parts, 'output.parts');
+  if (parts < 1) {
+    throw new ManifestError('output.parts must be at least 1');
+  }
+  if (output.resources !== undefined) {
+    expectCount(output.resources, 'output.resources');
+  }
+
+  const inputs = expectObject(root.inputs, 'inputs');
+  const order = expectObject(inputs.order, 'inputs.order');
+  expectString(order.key, 'inputs.order.key');
+  expectBoolean(order.reverse, 'inputs.order.reverse');
+  if (!Array.isArray(inputs.files)) {
+    throw new ManifestError('inputs.files must be a sequence');
+  }
+  inputs.files.forEach((item, index) => {
+    const path = `inputs.files[${index}]`;
+    const file = expectObject(item, path);
+    expectCount(file.idx, `${path}.idx`);
+    expectString(file.path, `${path}.path`);
+    expectCount(file.bytes, `${path}.bytes`);
+    if (file.sha1 !== undefined && !SHA1.test(expectString(file.sha1, `${path}.sha1`))) {
+      throw new ManifestError(`${path}.sha1 must be a lowercase sha1 hex digest`);
+    }
+    if (file.mtime !== undefined) {
+      expectUtc(file.mtime, `${path}.mtime`);
+    }
+    if (file.part !== undefined) {
+      const part = expectCount(file.part, `${path}.part`);
+      if (part < 1 || part > parts) {
+        throw new ManifestError(`${path}.part must be between 1 and ${parts}`);
+      }
+    }
+    if (file.archive !== undefined) {
+      expectString(file.archive, `${path}.archive`);
+    }
+  });
+
+  if (root.scripts !== undefined) {
+    if (!Array.isArray(root.scripts)) {
+      throw new ManifestError('scripts must be a sequence');
+    }
+    root.scripts.forEach((item, index) => {
+      const path = `scripts[${index}]`;
+      const script = expectObject(item, path);
+      expectString(script.path, `${path}.path`);
+      expectString(script.source, `${path}.source`);
+      expectCount(script.bytes, `${path}.bytes`);
+      if (script.sha1 !== undefined && !SHA1.test(expectString(script.sha1, `${path}.sha1`))) {
+        throw new ManifestError(`${path}.sha1 must be a lowercase sha1 hex digest`);
+      }
+    });
+  }
+
+  const rollover = expectObject(root.rollover, 'rollover');
+  if (rollover.max_mb !== null && (typeof rollover.max_mb !== 'number' || !(rollover.max_mb > 0))) {
+    throw new ManifestError('rollover.max_mb must be a positive number or null');
+  }
+
+  const metadata = expectObject(root.metadata, 'metadata');
+  expectBoolean(metadata.enabled, 'metadata.enabled');
+  expectCount(metadata.resource_count, 'metadata.resource_count');
+  expectBoolean(metadata.unmerge_capable, 'metadata.unmerge_capable');
+
+  if (!Array.isArray(root.notes)) {
+    throw new ManifestError('notes must be a sequence');
+  }
+  root.notes.forEach((note, index) => expectString(note, `notes[${index}]`));
+}
+
+/**
+ * Render a command line for the manifest, quoting arguments that contain whitespace or quotes.
+ */
+export function formatCommandLine(args: string[]): string {
+  return args.map((arg) => (arg === '' || /[\s"']/u.test(arg) ? JSON.stringify(arg) : arg)).join(' ');
+}
+
+/**
+ * UTC timestamp with second precision, e.g. `2025-09-19T21:20:00Z`.
+ */
+export function formatUtcSeconds(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}Z`;
+}
+
+function defaultCreatedAt(): Date {
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+  if (epoch !== undefined && /^\d+$/u.test(epoch)) {
+    return new Date(Number(epoch) * 1000);
+  }
+  return new Date();
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ManifestError(`${path} must be a mapping`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new ManifestError(`${path} must be a string`);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ManifestError(`${path} must be a boolean`);
+  }
+  return value;
+}
+
+function expectCount(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    throw new ManifestError(`${path} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function expectUtc(value: unknown, path: string): string {
+  const text = expectString(value, path);
+  if (!UTC_SECONDS.test(text) || Number.isNaN(Date.parse(text))) {
+    throw new ManifestError(`${path} must be a UTC timestamp like 2025-09-19T21:20:00Z`);
+  }
+  return text;
 }
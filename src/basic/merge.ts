@@ -1,8 +1,187 @@
 // Merger: Append-all using S4TK; handle --max-size rollover; crash-safe writes.
-import type { Plan } from './plan.js';
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+import { DBPF_HEADER_SIZE, DBPF_INDEX_ENTRY_SIZE, DBPF_INDEX_FLAGS_SIZE } from '../core/dbpf.js';
+import type { CollisionPolicy, InputMergeStats } from '../core/s4tk.js';
+import { streamMergePackagesInParts, type ResolvedInput } from '../core/stream-merge.js';
+import { DEFAULT_MEMORY_BUDGET_MB, LoadLimiter, mapInOrder } from '../util/concurrency.js';
+import { normalizePath } from '../util/determinism.js';
+import type { WorkerPool } from '../util/worker-pool.js';
+import { findInputRoot, type OutputPlan, type Plan } from './plan.js';
+import { sourcePathOf } from './scanner.js';
 
-export async function mergeAll(plan: Plan, opts: { maxSizeMb?: number; progress: boolean }): Promise<void> {
-  // TODO(#7.4): Implement merge via S4TK adapter with temp + atomic rename.
-  void plan;
-  void opts;
+/**
+ * Options for merging every planned output
+ */
+export interface MergeAllOptions {
+  maxSizeMb?: number;
+  progress: boolean;
+  collisionPolicy?: CollisionPolicy;
+  dedupeIdentical?: boolean;
+  /** Inputs loaded, and outputs merged, at the same time (`--jobs`); 1 keeps everything sequential */
+  jobs?: number;
+  /** Loaded input data held at once across all outputs with `jobs` > 1, in MB (`--memory-budget`) */
+  memoryBudgetMb?: number;
+  /** Decompresses and hashes payloads for the METG data hashes; in-thread when not given */
+  pool?: WorkerPool;
+  /** Results of an output finished by an earlier run; the output is then not merged again (`--resume`) */
+  reuse?: (output: OutputPlan) => Promise<OutputMergeResult[] | undefined>;
+  /** Called once every part of an output has been written or reused */
+  onOutput?: (output: OutputPlan, results: OutputMergeResult[]) => Promise<void>;
+}
+
+/**
+ * Result of writing one planned output (or one part of it when rolling over)
+ */
+export interface OutputMergeResult {
+  outputPath: string;
+  resourceCount: number;
+  bytes: number;
+  inputs: InputMergeStats[];
+  part: number;
+  partCount: number;
+  oversized: boolean;
+  /** Taken over from an earlier run instead of being merged */
+  reused?: boolean;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Upper bounds for the canonical JSON the METG resource stores, so a part planned
+// under the cap stays under it once its metadata is added.
+const METADATA_ENVELOPE_BYTES = 1024;
+const METADATA_BYTES_PER_ORIGINAL = 512;
+const METADATA_BYTES_PER_ENTRY = 256;
+
+/**
+ * Merge every planned output in plan order, streaming each one atomically to disk.
+ *
+ * With `maxSizeMb`, each output is split into `Name.package`, `Name.part2.package`,
+ * ... once the collision policy has been resolved over all of its inputs, so the
+ * parts together hold what the unsplit output would. Inputs are never split: a part
+ * is closed when what the next input still contributes would push it over the cap,
+ * and an input that exceeds the cap on its own is written as a part by itself and
+ * flagged `oversized`.
+ *
+ * With `jobs` > 1, up to `jobs` outputs are merged at once and every output loads
+ * its inputs ahead through one shared limiter, so at most `jobs` inputs are read at
+ * a time and at most `memoryBudgetMb` of them is held. Each output still appends its
+ * inputs in plan order, so the bytes match a sequential run; results are returned in
+ * plan order, and `onOutput` calls never overlap.
+ */
+export async function mergeAll(plan: Plan, opts: MergeAllOptions): Promise<OutputMergeResult[]> {
+  const capBytes = opts.maxSizeMb === undefined ? undefined : Math.floor(opts.maxSizeMb * BYTES_PER_MB);
+  const jobs = opts.jobs ?? 1;
+  const limiter =
+    jobs > 1 ? new LoadLimiter(jobs, Math.floor((opts.memoryBudgetMb ?? DEFAULT_MEMORY_BUDGET_MB) * BYTES_PER_MB)) : undefined;
+  let recorded = Promise.resolve();
+  const finish = async (output: OutputPlan, outputResults: OutputMergeResult[]): Promise<OutputMergeResult[]> => {
+    recorded = recorded.then(() => opts.onOutput?.(output, outputResults));
+    await recorded;
+    return outputResults;
+  };
+
+  const perOutput = await mapInOrder(plan.outputs, jobs, async (output) => {
+    const reused = await opts.reuse?.(output);
+    if (reused !== undefined) {
+      return finish(output, reused);
+    }
+
+    await fs.mkdir(dirname(output.outputPath), { recursive: true });
+    const parts = await streamMergePackagesInParts(
+      output.inputs.map((input) => input.path),
+      (part) => partOutputPath(output.outputPath, part),
+      (inputs) => (capBytes === undefined ? [inputs.map((_, position) => position)] : splitIntoParts(inputs, capBytes)),
+      {
+        collisionPolicy: opts.collisionPolicy,
+        dedupeIdentical: opts.dedupeIdentical,
+        limiter,
+        pool: opts.pool,
+        sources: output.inputs.map((input) => {
+          const match = findInputRoot(sourcePathOf(input), plan.inDirs);
+          return match === undefined ? {} : { relPath: match.relPath, inputRoot: normalizePath(match.root) };
+        }),
+      },
+    );
+
+    const outputResults = parts.map((merged, index): OutputMergeResult => {
+      if (opts.progress) {
+        console.log(`merged ${merged.inputs.length} input(s) -> ${merged.outputPath}`);
+      }
+      return {
+        outputPath: merged.outputPath,
+        resourceCount: merged.resourceCount,
+        bytes: merged.bytes,
+        inputs: merged.inputs,
+        part: index + 1,
+        partCount: parts.length,
+        oversized: capBytes !== undefined && merged.bytes > capBytes,
+      };
+    });
+    return finish(output, outputResults);
+  });
+
+  return perOutput.flat();
+}
+
+/**
+ * Path of the n-th part of an output: part 1 keeps the planned name, later parts
+ * become `Name.partN.package`.
+ */
+export function partOutputPath(outputPath: string, part: number): string {
+  if (part <= 1) {
+    return outputPath;
+  }
+  const match = /\.package$/iu.exec(outputPath);
+  return match === null
+    ? `${outputPath}.part${part}`
+    : `${outputPath.slice(0, match.index)}.part${part}${match[0]}`;
+}
+
+/**
+ * Greedily group consecutive inputs into parts whose size stays within `capBytes`.
+ *
+ * `sizes[i]` is what input i adds to a merged package; `baseBytes` is the fixed cost
+ * of every part. A part is only closed before an input, never inside one, so the
+ * boundaries depend on nothing but the ordered sizes.
+ *
+ * @returns Input indices per part, in input order
+ */
+export function planParts(sizes: number[], capBytes: number, baseBytes: number): number[][] {
+  const parts: number[][] = [];
+  let current: number[] = [];
+  let used = baseBytes;
+
+  sizes.forEach((size, index) => {
+    if (current.length > 0 && used + size > capBytes) {
+      parts.push(current);
+      current = [];
+      used = baseBytes;
+    }
+    current.push(index);
+    used += size;
+  });
+
+  if (current.length > 0) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Measure what each input still contributes once collisions are resolved (index
+ * records and stored payload bytes of its survivors, plus a metadata allowance for
+ * all of its entries) and split the output's inputs into parts under the cap.
+ */
+function splitIntoParts(inputs: ResolvedInput[], capBytes: number): number[][] {
+  const sizes = inputs.map(
+    (input) =>
+      input.survivors.reduce((sum, entry) => sum + DBPF_INDEX_ENTRY_SIZE + entry.compressedSize, 0) +
+      METADATA_BYTES_PER_ORIGINAL +
+      2 * Buffer.byteLength(input.path) +
+      METADATA_BYTES_PER_ENTRY * input.entries.length,
+  );
+
+  const baseBytes = DBPF_HEADER_SIZE + DBPF_INDEX_FLAGS_SIZE + DBPF_INDEX_ENTRY_SIZE + METADATA_ENVELOPE_BYTES;
+  return planParts(sizes, capBytes, baseBytes);
 }
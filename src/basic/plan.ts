@@ -1,8 +1,334 @@
-// Planner: Map inputs -> outputs (single --out or --by-folder -> <out-root>/<group>.package)
-export type Plan = { outputs: { target: string; inputs: string[] }[] };
+// Planner: Map inputs -> outputs (single --out, or a grouping strategy -> <out-root>/<group>.package)
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { normalizePath, splitPathComponents, stableCompare } from '../util/determinism.js';
+import { PACKAGE_CATEGORY_GROUPS } from './classify.js';
+import { sourcePathOf, type PackageInfo } from './scanner.js';
 
-export function planMerge(opts: { inputs: string[]; out?: string; byFolder: boolean; outRoot?: string }): Plan {
-  // TODO(#7.3): Implement grouping logic per Core-Design-Document §5.
-  void opts;
-  return { outputs: [] };
+/**
+ * How outputs of a plan were grouped
+ */
+export type PlanMode = 'single' | 'by-folder' | 'by-depth' | 'by-regex' | 'by-mapping' | 'by-category';
+
+/**
+ * Maps each input to the name of the output group it goes into
+ */
+export interface GroupingStrategy {
+  readonly mode: PlanMode;
+  /**
+   * Raw group name of one input; the planner sanitizes names and resolves collisions.
+   * Packages from archives are placed by `sourcePathOf`, as if the archive were a folder.
+   */
+  groupFor(input: PackageInfo, inDirs: string[]): string;
+}
+
+/**
+ * Options controlling how inputs are mapped to outputs
+ */
+export interface PlanOptions {
+  out?: string;
+  byFolder: boolean;
+  /** Grouping to use instead of `byFolder`; every strategy but `single` requires `outRoot` */
+  strategy?: GroupingStrategy;
+  outRoot?: string;
+  inDirs: string[];
+}
+
+/**
+ * A single output package and the ordered inputs that go into it
+ */
+export interface OutputPlan {
+  outputPath: string;
+  inputs: PackageInfo[];
+  totalSize: number;
+  groupName?: string;
+}
+
+/**
+ * Full mapping of inputs to outputs for one run
+ */
+export interface Plan {
+  mode: PlanMode;
+  inDirs: string[];
+  outputs: OutputPlan[];
+  totalInputs: number;
+  totalSize: number;
+}
+
+const ROOT_GROUP = 'root';
+
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/iu;
+
+/**
+ * Everything into one output (`--out`)
+ */
+export const singleStrategy: GroupingStrategy = {
+  mode: 'single',
+  groupFor: () => ROOT_GROUP,
+};
+
+/**
+ * Group by the first folder below the `--in` root (`--by-folder`)
+ */
+export const topFolderStrategy: GroupingStrategy = {
+  mode: 'by-folder',
+  groupFor: (input, inDirs) => topFolderFor(sourcePathOf(input), inDirs),
+};
+
+/**
+ * Group by content category (`--group-by category`); inputs must be classified first
+ */
+export const categoryStrategy: GroupingStrategy = {
+  mode: 'by-category',
+  groupFor: (input) => {
+    if (input.category === undefined) {
+      throw new Error(`Planning error: '${input.path}' has not been classified.`);
+    }
+    return PACKAGE_CATEGORY_GROUPS[input.category];
+  },
+};
+
+/**
+ * Group by the first `depth` folders below the `--in` root: with depth 2,
+ * `CC/Hair/Long/a.package` goes to `CC_Hair`. Shallower files use the folders
+ * they have; inputs outside every root use their parent folder name.
+ */
+export function folderDepthStrategy(depth: number): GroupingStrategy {
+  if (!Number.isInteger(depth) || depth < 1) {
+    throw new Error(`Planning error: folder depth must be a positive integer, got ${depth}.`);
+  }
+  return {
+    mode: 'by-depth',
+    groupFor: (input, inDirs) => {
+      const match = findInputRoot(sourcePathOf(input), inDirs);
+      if (match === undefined) {
+        return basename(dirname(resolve(sourcePathOf(input)))) || ROOT_GROUP;
+      }
+      const folders = splitPathComponents(match.relPath).slice(0, -1).slice(0, depth);
+      return folders.length > 0 ? folders.join('/') : ROOT_GROUP;
+    },
+  };
+}
+
+/**
+ * Group by a regular expression matched against the input's path relative to its
+ * `--in` root (forward slashes; the normalized full path for inputs outside every
+ * root). The group name is the named group `group`, else the first capture group,
+ * else the whole match. Inputs that do not match go to `root`.
+ */
+export function regexStrategy(pattern: RegExp): GroupingStrategy {
+  return {
+    mode: 'by-regex',
+    groupFor: (input, inDirs) => {
+      const target = findInputRoot(sourcePathOf(input), inDirs)?.relPath ?? normalizePath(sourcePathOf(input));
+      const match = pattern.exec(target);
+      if (match === null) {
+        return ROOT_GROUP;
+      }
+      return match.groups?.group ?? match[1] ?? match[0];
+    },
+  };
+}
+
+/**
+ * Group by a user-supplied mapping of relative path prefixes (folders or files below
+ * an `--in` root) to group names. The longest matching prefix wins, compared per
+ * path component and case-insensitively; `*` names the group for everything else,
+ * which defaults to `root`.
+ */
+export function mappingStrategy(mapping: Record<string, string>): GroupingStrategy {
+  const fallback = mapping['*'] ?? ROOT_GROUP;
+  const rules = Object.entries(mapping)
+    .filter(([prefix]) => prefix !== '*')
+    .map(([prefix, group]) => ({ parts: splitPathComponents(normalizePath(prefix).toLowerCase()), group }))
+    .sort((left, right) => right.parts.length - left.parts.length);
+  return {
+    mode: 'by-mapping',
+    groupFor: (input, inDirs) => {
+      const match = findInputRoot(sourcePathOf(input), inDirs);
+      if (match === undefined) {
+        return fallback;
+      }
+      const parts = splitPathComponents(match.relPath.toLowerCase());
+      const rule = rules.find((candidate) => candidate.parts.every((part, index) => parts[index] === part));
+      return rule?.group ?? fallback;
+    },
+  };
+}
+
+/**
+ * Map the ordered inputs to output packages. Input order is preserved inside
+ * every output; grouped outputs are ordered by group name.
+ *
+ * Planning does no I/O: everything it needs (sizes, categories, mapping files) is
+ * read beforehand, so the plan can be shown in full before anything is written.
+ */
+export function planMerge(inputs: PackageInfo[], options: PlanOptions): Plan {
+  const totalSize = sumSizes(inputs);
+  const strategy = options.strategy ?? (options.byFolder ? topFolderStrategy : singleStrategy);
+
+  if (strategy.mode !== 'single') {
+    if (!options.outRoot) {
+      const flag = strategy.mode === 'by-folder' ? '--by-folder' : `--group-by ${strategy.mode.slice('by-'.length)}`;
+      throw new Error(`Planning error: ${flag} requires an output root.`);
+    }
+    const outputs = Array.from(groupInputs(inputs, strategy, options.inDirs).entries())
+      .sort(([left], [right]) => stableCompare(left, right))
+      .map(([groupName, members]) => ({
+        outputPath: generateOutputPath(options.outRoot as string, groupName),
+        inputs: members,
+        totalSize: sumSizes(members),
+        groupName,
+      }));
+    return { mode: strategy.mode, inDirs: options.inDirs, outputs, totalInputs: inputs.length, totalSize };
+  }
+
+  if (!options.out) {
+    throw new Error('Planning error: a single-output plan requires an output path.');
+  }
+  const outputs = inputs.length === 0 ? [] : [{ outputPath: options.out, inputs: inputs.slice(), totalSize }];
+  return { mode: 'single', inDirs: options.inDirs, outputs, totalInputs: inputs.length, totalSize };
+}
+
+/**
+ * Group inputs with a strategy, keyed by final group name in first-seen order.
+ *
+ * Raw names are sanitized with `sanitizeGroupName`. Distinct raw names that end up
+ * with the same file name (compared case-insensitively, as on Windows and macOS) are
+ * kept apart: in `stableCompare` order of the raw names, the first keeps the name
+ * and later ones get `-2`, `-3`, ... so the result does not depend on input order.
+ */
+export function groupInputs(inputs: PackageInfo[], strategy: GroupingStrategy, inDirs: string[]): Map<string, PackageInfo[]> {
+  const byRawName = new Map<string, PackageInfo[]>();
+  for (const input of inputs) {
+    const rawName = strategy.groupFor(input, inDirs);
+    const members = byRawName.get(rawName) ?? [];
+    members.push(input);
+    byRawName.set(rawName, members);
+  }
+
+  const finalNames = resolveGroupNames(Array.from(byRawName.keys()));
+  const groups = new Map<string, PackageInfo[]>();
+  for (const [rawName, members] of byRawName) {
+    groups.set(finalNames.get(rawName) as string, members);
+  }
+  return groups;
+}
+
+/**
+ * Group inputs by the first folder below the `--in` root that contains them.
+ *
+ * Files directly inside a root go to the `root` group. Inputs outside every root
+ * (for example from `--files`) are grouped by their parent folder name. When roots
+ * are nested, the deepest matching root wins.
+ */
+export function groupByTopFolder(inputs: PackageInfo[], inDirs: string[]): Map<string, PackageInfo[]> {
+  return groupInputs(inputs, topFolderStrategy, inDirs);
+}
+
+/**
+ * Group inputs by their content category (`CAS`, `BuildBuy`, `Gameplay`, ...), so
+ * CAS content and gameplay mods never share an output.
+ *
+ * @throws Error when an input has not been classified
+ */
+export function groupByCategory(inputs: PackageInfo[]): Map<string, PackageInfo[]> {
+  return groupInputs(inputs, categoryStrategy, []);
+}
+
+/**
+ * Render a plan the way `--dry-run` shows it: every output with its inputs in merge order.
+ */
+export function formatPlan(plan: Plan): string {
+  const lines = [
+    `basic: planned ${plan.outputs.length} output(s) from ${plan.totalInputs} input package(s), ${plan.totalSize} bytes` +
+      (plan.mode === 'single' ? '' : ` (${plan.mode})`),
+  ];
+  let position = 0;
+  for (const output of plan.outputs) {
+    lines.push(`  ${output.outputPath}`);
+    for (const info of output.inputs) {
+      position += 1;
+      lines.push(`    #${position} ${sourcePathOf(info)}${info.category ? ` [${info.category}]` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Fingerprint of an output: its inputs in merge order, with their sizes and
+ * modification times. `--watch` and `--resume` merge an output again when this changes.
+ */
+export function fingerprintOutput(output: OutputPlan): string {
+  return JSON.stringify(output.inputs.map((input) => [input.normalizedPath, input.size, input.mtime.getTime()]));
+}
+
+/**
+ * Output path for a by-folder group: `<out-root>/<group>.package`
+ */
+export function generateOutputPath(outRoot: string, groupName: string): string {
+  return join(outRoot, `${groupName}.package`);
+}
+
+/**
+ * Make a group name safe to use as a file name on every platform.
+ */
+export function sanitizeGroupName(name: string): string {
+  const cleaned = name
+    .normalize('NFC')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[<>:"/\\|?*\u0000-\u001f]/gu, '_')
+    .replace(/[. ]+$/u, '');
+  if (cleaned === '') {
+    return ROOT_GROUP;
+  }
+  return RESERVED_NAMES.test(cleaned.split('.')[0]) ? `${cleaned}_` : cleaned;
+}
+
+/**
+ * Find the `--in` root that contains an input and the input's path relative to it
+ * (normalized, forward slashes). When roots are nested, the deepest one wins.
+ */
+export function findInputRoot(inputPath: string, inDirs: string[]): { root: string; relPath: string } | undefined {
+  const absolute = resolve(inputPath);
+  const roots = inDirs
+    .map((dir) => resolve(dir))
+    .sort((left, right) => splitPathComponents(normalizePath(right)).length - splitPathComponents(normalizePath(left)).length);
+
+  for (const root of roots) {
+    const rel = relative(root, absolute);
+    if (rel === '' || rel.startsWith('..') || isAbsolute(rel)) {
+      continue;
+    }
+    return { root, relPath: normalizePath(rel) };
+  }
+  return undefined;
+}
+
+function topFolderFor(inputPath: string, inDirs: string[]): string {
+  const match = findInputRoot(inputPath, inDirs);
+  if (match === undefined) {
+    return basename(dirname(resolve(inputPath))) || ROOT_GROUP;
+  }
+  const parts = splitPathComponents(match.relPath);
+  return parts.length > 1 ? parts[0] : ROOT_GROUP;
+}
+
+function resolveGroupNames(rawNames: string[]): Map<string, string> {
+  const finalNames = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const rawName of [...rawNames].sort(stableCompare)) {
+    const base = sanitizeGroupName(rawName);
+    let name = base;
+    for (let suffix = 2; taken.has(name.toLowerCase()); suffix += 1) {
+      name = `${base}-${suffix}`;
+    }
+    taken.add(name.toLowerCase());
+    finalNames.set(rawName, name);
+  }
+  return finalNames;
+}
+
+function sumSizes(inputs: PackageInfo[]): number {
+  return inputs.reduce((sum, input) => sum + input.size, 0);
 }
@@ -1,9 +1,15 @@
-// Scanner: expand --files and/or enumerate --in recursively for *.package.
+// Scanner: expand --files and/or enumerate --in recursively for *.package, *.ts4script and *.zip.
 // Determinism: stable sort by path|name|mtime with optional reverse.
 
-import { promises as fs } from 'node:fs';
-import { basename, dirname, resolve } from 'node:path';
+import { createHash } from 'node:crypto';
+import { createReadStream, promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join, relative, resolve } from 'node:path';
 import { normalizePath, stableCompare, stablePathCompare, stableSortBy } from '../util/determinism.js';
+import { compileGlob, lastMatchingPattern, parseIgnoreFile, type GlobPattern } from '../util/glob.js';
+import { readZipEntries, readZipEntry } from '../util/zip.js';
+import type { PackageCategory } from './classify.js';
+import { cacheFor, type IndexCache } from './index-cache.js';
 
 /**
  * Options for scanning inputs
@@ -13,6 +19,69 @@ export interface ScanOptions {
   filesList?: string;
   sortBy: 'name' | 'path' | 'mtime';
   reverse: boolean;
+  /** Leave byte-identical copies of an earlier package out of `packages` */
+  skipDuplicates?: boolean;
+  /** Only take packages matching one of these globs (relative to the `--in` root or the file list) */
+  include?: string[];
+  /** Leave out files and folders matching any of these globs */
+  exclude?: string[];
+  /** Honor `.s4mergeignore` files in input folders (default true) */
+  ignoreFiles?: boolean;
+  /** Reuse file hashes from earlier runs for duplicate detection */
+  cache?: IndexCache;
+}
+
+/**
+ * Name of the gitignore-style file read from every scanned folder
+ */
+export const IGNORE_FILE_NAME = '.s4mergeignore';
+
+/**
+ * Why a file or folder was left out of the scan
+ */
+export type SkipReason =
+  | 'hidden'
+  | 'temporary'
+  | 'ignored'
+  | 'excluded'
+  | 'not-included'
+  | 'not-a-file'
+  | 'unreadable'
+  | 'duplicate';
+
+/**
+ * A path the scan left out, with the reason. For folders, nothing below them was scanned.
+ */
+export interface SkippedFile {
+  path: string;
+  reason: SkipReason;
+  /** Human-readable cause, e.g. the pattern and the ignore file it came from */
+  cause: string;
+}
+
+/**
+ * Include/exclude rules for `enumerateDirectory`
+ */
+export interface EnumerateOptions {
+  include?: string[];
+  exclude?: string[];
+  ignoreFiles?: boolean;
+  /** Receives every path that was left out, in scan order */
+  skipped?: SkippedFile[];
+  /** Receives `.ts4script` files; they are not returned with the packages */
+  scripts?: string[];
+  /** Receives `.zip` archives; they are not returned with the packages */
+  archives?: string[];
+}
+
+/**
+ * Where an input taken from a `.zip` archive came from
+ */
+export interface ArchiveSource {
+  /** The archive on disk */
+  path: string;
+  /** Path of the file inside the archive (forward slashes) */
+  entry: string;
 }
 
 /**
@@ -24,6 +93,42 @@ export interface PackageInfo {
   name: string;
   size: number;
   mtime: Date;
+  /** Set by `classifyPackages`; required for `--group-by category` */
+  category?: PackageCategory;
+  /** Set for packages extracted from an archive; `path` is then the staged copy */
+  archive?: ArchiveSource;
+}
+
+/**
+ * A `.ts4script` file. Scripts are copied to the output root, never merged.
+ */
+export interface ScriptInfo {
+  path: string;
+  normalizedPath: string;
+  name: string;
+  size: number;
+  mtime: Date;
+  /** Set for scripts extracted from an archive; `path` is then the staged copy */
+  archive?: ArchiveSource;
+}
+
+/**
+ * A `.zip` archive and the entries taken from it, in extraction order
+ */
+export interface ArchiveInfo {
+  path: string;
+  packages: string[];
+  scripts: string[];
+}
+
+/**
+ * A package whose bytes are identical to one earlier in the final input order
+ */
+export interface DuplicatePackage {
+  path: string;
+  duplicateOf: string;
+  size: number;
+  sha256: string;
 }
 
 /**
@@ -33,23 +138,52 @@ export interface ScanResult {
   packages: PackageInfo[];
   totalSize: number;
   totalCount: number;
-  skippedFiles: string[];
+  skippedFiles: SkippedFile[];
+  duplicates: DuplicatePackage[];
+  /** Script files in `stablePathCompare` order of their source paths */
+  scripts: ScriptInfo[];
+  archives: ArchiveInfo[];
+  /** Temporary folder holding files extracted from archives; see `removeStagingDir` */
+  stagingDir?: string;
   errors: string[];
 }
 
+// What the scanner does with a file, by extension
+type FileKind = 'package' | 'script' | 'archive';
+
 /**
- * Main entry point for scanning package files from directories and file lists
+ * Main entry point for scanning package files from directories and file lists.
+ *
+ * `.ts4script` files are reported in `scripts`. `.package` and `.ts4script` entries of
+ * `.zip` archives are extracted into a temporary staging folder (`stagingDir`) and
+ * returned like any other input; they sort by their path inside the archive, e.g.
+ * `Mods/Pack.zip/Hair/a.package`, so the order does not depend on the staging folder.
+ * Call `removeStagingDir` once the staged files are no longer needed.
  */
 export async function scanInputs(options: ScanOptions): Promise<ScanResult> {
   const errors: string[] = [];
-  const skippedFiles: string[] = [];
+  const skippedFiles: SkippedFile[] = [];
   const allPaths: string[] = [];
+  const scriptPaths: string[] = [];
+  const include = (options.include ?? []).map((pattern) => compileGlob(pattern));
+  const exclude = (options.exclude ?? []).map((pattern) => compileGlob(pattern));
 
   // Process file lists first (they take precedence)
   if (options.filesList) {
     try {
       const listPaths = await expandFilesList(options.filesList, errors);
-      allPaths.push(...listPaths);
+      const baseDir = dirname(resolve(options.filesList));
+      for (const path of listPaths) {
+        const kind = fileKindOf(path);
+        const skip = filterSkip(relative(baseDir, path), false, kind === 'script' || kind === 'archive' ? [] : include, exclude);
+        if (skip !== undefined) {
+          skippedFiles.push({ path, ...skip });
+        } else if (kind === 'script') {
+          scriptPaths.push(path);
+        } else {
+          allPaths.push(path);
+        }
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       errors.push(`Failed to process files list '${options.filesList}': ${message}`);
@@ -59,23 +193,35 @@ export async function scanInputs(options: ScanOptions): Promise<ScanResult> {
   // Process input directories
   for (const dirPath of options.inDirs) {
     try {
-      const dirPaths = await enumerateDirectory(dirPath);
-      allPaths.push(...dirPaths);
+      const archivePaths: string[] = [];
+      const dirPaths = await enumerateDirectory(dirPath, undefined, {
+        include: options.include,
+        exclude: options.exclude,
+        ignoreFiles: options.ignoreFiles,
+        skipped: skippedFiles,
+        scripts: scriptPaths,
+        archives: archivePaths,
+      });
+      allPaths.push(...dirPaths, ...archivePaths);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       errors.push(`Failed to enumerate directory '${dirPath}': ${message}`);
     }
   }
 
-  // Deduplicate paths
-  const uniquePaths = deduplicatePaths(allPaths);
-
-  // Collect package info for valid files
+  // Collect package info for valid files; archives expand in place
   const packages: PackageInfo[] = [];
-  for (const path of uniquePaths) {
+  const scripts: ScriptInfo[] = [];
+  const archives: ArchiveInfo[] = [];
+  const staging: Staging = {};
+  for (const path of deduplicatePaths(allPaths)) {
     try {
       const stats = await fs.stat(path);
-      if (stats.isFile()) {
+      if (!stats.isFile()) {
+        skippedFiles.push({ path, reason: 'not-a-file', cause: 'not a regular file' });
+      } else if (fileKindOf(path) === 'archive') {
+        archives.push(await extractArchive(path, stats.mtime, { include, exclude, staging, packages, scripts, skippedFiles }));
+      } else {
         packages.push({
           path,
           normalizedPath: normalizePath(path),
@@ -83,21 +229,47 @@ export async function scanInputs(options: ScanOptions): Promise<ScanResult> {
           size: stats.size,
           mtime: stats.mtime,
         });
-      } else {
-        skippedFiles.push(path);
       }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const action = fileKindOf(path) === 'archive' ? 'read archive' : 'stat file';
+      errors.push(`Failed to ${action} '${path}': ${message}`);
+      skippedFiles.push({ path, reason: 'unreadable', cause: message });
+    }
+  }
+  for (const path of deduplicatePaths(scriptPaths)) {
+    try {
+      const stats = await fs.stat(path);
+      scripts.push({ path, normalizedPath: normalizePath(path), name: basename(path), size: stats.size, mtime: stats.mtime });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       errors.push(`Failed to stat file '${path}': ${message}`);
-      skippedFiles.push(path);
+      skippedFiles.push({ path, reason: 'unreadable', cause: message });
     }
   }
+  scripts.sort((left, right) => stablePathCompare(left.normalizedPath, right.normalizedPath));
 
   // Sort packages according to options (but preserve explicit --files order)
-  const finalPackages = options.filesList
+  const orderedPackages = options.filesList
     ? packages // keep user-provided order
     : sortPackages(packages, options.sortBy, options.reverse);
 
+  // Detect identical copies saved under different names; the first in order is the original
+  const duplicates = await findDuplicatePackages(orderedPackages, errors, options.cache);
+  const copies = new Set(duplicates.map((duplicate) => duplicate.path));
+  const finalPackages = options.skipDuplicates
+    ? orderedPackages.filter((pkg) => !copies.has(sourcePathOf(pkg)))
+    : orderedPackages;
+  if (options.skipDuplicates) {
+    skippedFiles.push(
+      ...duplicates.map((duplicate): SkippedFile => ({
+        path: duplicate.path,
+        reason: 'duplicate',
+        cause: `identical to ${duplicate.duplicateOf}`,
+      })),
+    );
+  }
+
   // Calculate totals
   const totalSize = finalPackages.reduce((sum, pkg) => sum + pkg.size, 0);
   const totalCount = finalPackages.length;
@@ -107,10 +279,172 @@ export async function scanInputs(options: ScanOptions): Promise<ScanResult> {
     totalSize,
     totalCount,
     skippedFiles,
+    duplicates,
+    scripts,
+    archives,
+    stagingDir: staging.dir,
     errors,
   };
 }
 
+/**
+ * Delete the staging folder of a scan, if archives were extracted.
+ */
+export async function removeStagingDir(scan: Pick<ScanResult, 'stagingDir'>): Promise<void> {
+  if (scan.stagingDir !== undefined) {
+    await fs.rm(scan.stagingDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Where an input is shown and recorded: its own path, or `<archive>/<entry>` for
+ * files extracted from an archive.
+ */
+export function sourcePathOf(info: { path: string; archive?: ArchiveSource }): string {
+  return info.archive === undefined ? info.path : join(info.archive.path, ...info.archive.entry.split('/'));
+}
+
+/**
+ * Staging folder, created on first use
+ */
+interface Staging {
+  dir?: string;
+  count?: number;
+}
+
+interface ExtractContext {
+  include: GlobPattern[];
+  exclude: GlobPattern[];
+  staging: Staging;
+  packages: PackageInfo[];
+  scripts: ScriptInfo[];
+  skippedFiles: SkippedFile[];
+}
+
+/**
+ * Extract the packages and scripts of one archive into the staging folder, in
+ * `stableCompare` order of their entry names. Globs are matched against the path
+ * inside the archive; hidden entries (e.g. `__MACOSX/` or `._` resource forks) and
+ * other file types are left out.
+ */
+async function extractArchive(archivePath: string, mtime: Date, context: ExtractContext): Promise<ArchiveInfo> {
+  const info: ArchiveInfo = { path: archivePath, packages: [], scripts: [] };
+  const entries = (await readZipEntries(archivePath)).sort((left, right) => stableCompare(left.name, right.name));
+  for (const entry of entries) {
+    const kind = fileKindOf(entry.name);
+    if (kind !== 'package' && kind !== 'script') {
+      continue;
+    }
+    const archive: ArchiveSource = { path: archivePath, entry: entry.name };
+    const sourcePath = sourcePathOf({ path: archivePath, archive });
+    if (entry.name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX')) {
+      context.skippedFiles.push({ path: sourcePath, reason: 'hidden', cause: 'hidden entry in archive' });
+      continue;
+    }
+    const skip = filterSkip(entry.name, false, kind === 'package' ? context.include : [], context.exclude);
+    if (skip !== undefined) {
+      context.skippedFiles.push({ path: sourcePath, ...skip });
+      continue;
+    }
+
+    const data = await readZipEntry(archivePath, entry);
+    const stagedPath = await stageFile(context.staging, basename(entry.name), data);
+    const common = { path: stagedPath, normalizedPath: normalizePath(sourcePath), name: basename(entry.name), size: data.length, archive };
+    if (kind === 'package') {
+      context.packages.push({ ...common, mtime });
+      info.packages.push(entry.name);
+    } else {
+      context.scripts.push({ ...common, mtime });
+      info.scripts.push(entry.name);
+    }
+  }
+  return info;
+}
+
+/**
+ * Write an extracted file to its own numbered folder below the staging folder,
+ * keeping its name so merge metadata records the original file name.
+ */
+async function stageFile(staging: Staging, name: string, data: Buffer): Promise<string> {
+  staging.dir ??= await fs.mkdtemp(join(tmpdir(), 's4merge-archives-'));
+  staging.count = (staging.count ?? 0) + 1;
+  const folder = join(staging.dir, String(staging.count));
+  await fs.mkdir(folder);
+  const stagedPath = join(folder, name);
+  await fs.writeFile(stagedPath, data);
+  return stagedPath;
+}
+
+function fileKindOf(path: string): FileKind | undefined {
+  const lower = path.toLowerCase();
+  if (lower.endsWith('.package')) {
+    return 'package';
+  }
+  if (lower.endsWith('.ts4script')) {
+    return 'script';
+  }
+  return lower.endsWith('.zip') ? 'archive' : undefined;
+}
+
+/**
+ * Find packages whose content is byte-identical to an earlier package in the list.
+ *
+ * Only files that share their size with another file are hashed (sha256), so a
+ * folder without same-sized packages costs no reads. Packages from archives are
+ * reported by `sourcePathOf`. Files that cannot be read are
+ * reported in `errors` and treated as unique. With `cache`, hashes of unchanged
+ * files come from earlier runs; staged archive contents are never cached.
+ */
+export async function findDuplicatePackages(packages: PackageInfo[], errors?: string[], cache?: IndexCache): Promise<DuplicatePackage[]> {
+  const bySize = new Map<number, PackageInfo[]>();
+  for (const pkg of packages) {
+    const group = bySize.get(pkg.size) ?? [];
+    group.push(pkg);
+    bySize.set(pkg.size, group);
+  }
+
+  const hashes = new Map<string, string>();
+  for (const group of bySize.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+    for (const pkg of group) {
+      try {
+        const pkgCache = cacheFor(pkg, cache);
+        hashes.set(pkg.path, pkgCache ? await pkgCache.fileSha256(pkg.path) : await hashFile(pkg.path));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors?.push(`Failed to hash file '${sourcePathOf(pkg)}': ${message}`);
+      }
+    }
+  }
+
+  const firstByHash = new Map<string, PackageInfo>();
+  const duplicates: DuplicatePackage[] = [];
+  for (const pkg of packages) {
+    const hash = hashes.get(pkg.path);
+    if (hash === undefined) {
+      continue;
+    }
+    const id = `${pkg.size}:${hash}`;
+    const original = firstByHash.get(id);
+    if (original === undefined) {
+      firstByHash.set(id, pkg);
+    } else {
+      duplicates.push({ path: sourcePathOf(pkg), duplicateOf: sourcePathOf(original), size: pkg.size, sha256: hash });
+    }
+  }
+  return duplicates;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
 /**
  * Parse a file list (one path per line, supporting comments)
  * Returns valid paths and throws if the list file itself cannot be read
@@ -150,11 +484,29 @@ export async function expandFilesList(filePath: string, errors?: string[]): Prom
 
 /**
  * Recursively enumerate .package files in a directory
+ *
+ * `.ts4script` files and `.zip` archives go to the `scripts` and `archives`
+ * collectors when given, and are skipped otherwise; `include` globs do not apply to them.
+ *
+ * Hidden entries (leading `.`) and temporary files (`.tmp`, `.temp`, `~`) are always
+ * skipped. `.s4mergeignore` files apply gitignore semantics to their folder and
+ * everything below it (deeper files and later lines win, `!` re-includes); then
+ * `exclude` globs drop files and folders, and `include` globs, when given, keep only
+ * the `.package` files they match. Globs are relative to `dirPath`. Folders that are
+ * left out are not entered. Entries are visited in `stableCompare` order of their names.
+ *
+ * @throws GlobSyntaxError when a pattern cannot be compiled
  */
-export async function enumerateDirectory(dirPath: string, errors?: string[]): Promise<string[]> {
+export async function enumerateDirectory(dirPath: string, errors?: string[], options: EnumerateOptions = {}): Promise<string[]> {
   const packages: string[] = [];
-  
-  async function scanDir(currentPath: string): Promise<void> {
+  const root = resolve(dirPath);
+  const include = (options.include ?? []).map((pattern) => compileGlob(pattern));
+  const exclude = (options.exclude ?? []).map((pattern) => compileGlob(pattern));
+  const skip = (path: string, reason: SkipReason, cause: string): void => {
+    options.skipped?.push({ path, reason, cause });
+  };
+
+  async function scanDir(currentPath: string, rules: IgnoreRules[]): Promise<void> {
     let entries;
     try {
       entries = await fs.readdir(currentPath, { withFileTypes: true });
@@ -166,36 +518,128 @@ export async function enumerateDirectory(dirPath: string, errors?: string[]): Pr
       }
       throw error;
     }
+
+    if (options.ignoreFiles !== false && entries.some((entry) => entry.name === IGNORE_FILE_NAME && entry.isFile())) {
+      const ignorePath = join(currentPath, IGNORE_FILE_NAME);
+      try {
+        rules.push({ base: currentPath, file: ignorePath, patterns: parseIgnoreFile(await fs.readFile(ignorePath, 'utf-8')) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!errors) {
+          throw error;
+        }
+        errors.push(`Failed to read ignore file '${ignorePath}': ${message}`);
+      }
+    }
+
+    entries.sort((left, right) => stableCompare(left.name, right.name));
     for (const entry of entries) {
       const fullPath = resolve(currentPath, entry.name);
       const lowerName = entry.name.toLowerCase();
-      
+      const isDirectory = entry.isDirectory();
+
       // Skip hidden files/directories (starting with .)
       if (entry.name.startsWith('.')) {
+        if (entry.name !== IGNORE_FILE_NAME) {
+          skip(fullPath, 'hidden', 'name starts with a dot');
+        }
         continue;
       }
 
       // Skip temporary files
       if (lowerName.endsWith('.tmp') || lowerName.endsWith('.temp') || lowerName.endsWith('~')) {
+        skip(fullPath, 'temporary', 'temporary file name');
         continue;
       }
 
-      if (entry.isDirectory()) {
-        // Recursively scan subdirectories
-        await scanDir(fullPath);
-      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.package')) {
+      const ignoredBy = matchIgnoreRules(rules, fullPath, isDirectory);
+      if (ignoredBy !== undefined) {
+        skip(fullPath, 'ignored', ignoredBy);
+        continue;
+      }
+
+      const kind = entry.isFile() ? fileKindOf(lowerName) : undefined;
+      const collector = kind === 'script' ? options.scripts : kind === 'archive' ? options.archives : undefined;
+      const isPackage = kind === 'package';
+      if (isDirectory || isPackage || collector !== undefined) {
+        const filtered = filterSkip(relative(root, fullPath), isDirectory, collector === undefined ? include : [], exclude);
+        if (filtered !== undefined) {
+          skip(fullPath, filtered.reason, filtered.cause);
+          continue;
+        }
+      }
+
+      if (isDirectory) {
+        // Recursively scan subdirectories; ignore files below apply only there
+        await scanDir(fullPath, rules.slice());
+      } else if (isPackage) {
         // Add package files
         packages.push(fullPath);
+      } else if (collector !== undefined) {
+        collector.push(fullPath);
       }
       // Note: symlinks are ignored for safety unless they resolve to directories/files
       // which will be handled by the isDirectory()/isFile() checks above
     }
   }
 
-  await scanDir(resolve(dirPath));
+  await scanDir(root, []);
   return packages;
 }
 
+/**
+ * Patterns of one ignore file and the folder they are relative to
+ */
+interface IgnoreRules {
+  base: string;
+  file: string;
+  patterns: GlobPattern[];
+}
+
+/**
+ * Apply ignore files from the root down; the last matching pattern decides.
+ * Returns the cause when the path is ignored.
+ */
+function matchIgnoreRules(rules: IgnoreRules[], fullPath: string, isDirectory: boolean): string | undefined {
+  let decided: { rules: IgnoreRules; pattern: GlobPattern } | undefined;
+  for (const ruleSet of rules) {
+    const pattern = lastMatchingPattern(ruleSet.patterns, normalizePath(relative(ruleSet.base, fullPath)), isDirectory);
+    if (pattern !== undefined) {
+      decided = { rules: ruleSet, pattern };
+    }
+  }
+  if (decided === undefined || decided.pattern.negated) {
+    return undefined;
+  }
+  return `'${decided.pattern.source}' in ${decided.rules.file}:${decided.pattern.line}`;
+}
+
+/**
+ * Apply --exclude globs to files and folders and --include globs to package files.
+ */
+function filterSkip(
+  relPath: string,
+  isDirectory: boolean,
+  include: GlobPattern[],
+  exclude: GlobPattern[],
+): { reason: SkipReason; cause: string } | undefined {
+  const normalized = normalizePath(relPath);
+  // Folders above a listed file count too, so `--exclude WIP/` also drops `WIP/a.package` from --files.
+  const parts = normalized.split('/');
+  for (let depth = 1; depth <= parts.length; depth += 1) {
+    const isFolder = depth < parts.length || isDirectory;
+    const excludedBy = lastMatchingPattern(exclude, parts.slice(0, depth).join('/'), isFolder);
+    if (excludedBy !== undefined && !excludedBy.negated) {
+      return { reason: 'excluded', cause: `--exclude ${excludedBy.source}` };
+    }
+  }
+  const includedBy = lastMatchingPattern(include, normalized, false);
+  if (!isDirectory && include.length > 0 && (includedBy === undefined || includedBy.negated)) {
+    return { reason: 'not-included', cause: 'no --include pattern matches' };
+  }
+  return undefined;
+}
+
 /**
  * Remove duplicate paths from an array, preserving order of first occurrence
  */
@@ -0,0 +1,87 @@
+// Scripts: Copy .ts4script files to the output root. Scripts are never merged: the game
+// loads each one as its own archive, and only from at most one folder below Mods.
+import { promises as fs } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { writeFileAtomic } from '../util/fsx.js';
+import { sourcePathOf, type ScriptInfo } from './scanner.js';
+
+/**
+ * One script and where it is copied to
+ */
+export interface ScriptCopy {
+  script: ScriptInfo;
+  destination: string;
+}
+
+/**
+ * A script left out because an earlier one already takes its file name
+ */
+export interface ScriptNameClash {
+  script: ScriptInfo;
+  destination: string;
+  keptFrom: string;
+}
+
+/**
+ * Where every script of a run goes
+ */
+export interface ScriptPlan {
+  outRoot: string;
+  copies: ScriptCopy[];
+  clashes: ScriptNameClash[];
+}
+
+/**
+ * Plan copying scripts (in scan order) to `<outRoot>/<name>`. Names are compared
+ * case-insensitively; when two scripts share a name the first one is copied and the
+ * later one is reported as a clash.
+ */
+export function planScriptCopies(scripts: ScriptInfo[], outRoot: string): ScriptPlan {
+  const copies: ScriptCopy[] = [];
+  const clashes: ScriptNameClash[] = [];
+  const byName = new Map<string, ScriptCopy>();
+  for (const script of scripts) {
+    const destination = join(outRoot, script.name);
+    const kept = byName.get(script.name.toLowerCase());
+    if (kept !== undefined) {
+      clashes.push({ script, destination, keptFrom: sourcePathOf(kept.script) });
+      continue;
+    }
+    const copy = { script, destination };
+    byName.set(script.name.toLowerCase(), copy);
+    copies.push(copy);
+  }
+  return { outRoot, copies, clashes };
+}
+
+/**
+ * Copy every planned script atomically. Scripts that already are at their
+ * destination are left alone.
+ *
+ * @returns The copies, in plan order
+ */
+export async function copyScripts(plan: ScriptPlan): Promise<ScriptCopy[]> {
+  if (plan.copies.length > 0) {
+    await fs.mkdir(plan.outRoot, { recursive: true });
+  }
+  for (const copy of plan.copies) {
+    if (resolve(copy.script.path) !== resolve(copy.destination)) {
+      await writeFileAtomic(copy.destination, await fs.readFile(copy.script.path));
+    }
+  }
+  return plan.copies;
+}
+
+/**
+ * Render the script section of `--dry-run`.
+ */
+export function formatScriptPlan(plan: ScriptPlan): string {
+  const lines = [`basic: ${plan.copies.length} script(s) copied to ${plan.outRoot} (not merged)`];
+  for (const copy of plan.copies) {
+    lines.push(`  ${sourcePathOf(copy.script)} -> ${copy.destination}`);
+  }
+  for (const clash of plan.clashes) {
+    lines.push(`  ${sourcePathOf(clash.script)}: skipped, ${clash.keptFrom} already goes to ${clash.destination}`);
+  }
+  return lines.join('\n');
+}
@@ -1,8 +1,65 @@
-// Stats: Optional counts/timings to JSON when requested.
+// Stats: Optional counts to JSON when requested (--stats-json).
+// No timings or timestamps are written, so identical runs produce identical files.
+import { getPackageFileStats, type ResourceTypeInfo } from '../core/s4tk.js';
+import { stableCompare } from '../util/determinism.js';
+import { writeFileAtomic } from '../util/fsx.js';
+import type { IndexCache } from './index-cache.js';
+import type { OutputMergeResult } from './merge.js';
 import type { Plan } from './plan.js';
 
-export async function writeStatsJson(plan: Plan, outputPath: string): Promise<void> {
-  // TODO(#7.6): Compute and write JSON stats deterministically.
-  void plan;
-  void outputPath;
+/**
+ * Stats for one written package (one part of an output)
+ */
+export interface OutputStats {
+  path: string;
+  part: number;
+  parts: number;
+  bytes: number;
+  resources: number;
+  types: ResourceTypeInfo[];
+}
+
+/**
+ * Content of the `--stats-json` file
+ */
+export interface RunStats {
+  inputs: number;
+  inputBytes: number;
+  outputs: OutputStats[];
+  /** Resource types over every output, METG included */
+  types: ResourceTypeInfo[];
+}
+
+/**
+ * Collect run stats from the written outputs. Type histograms are read back from
+ * each output's index, or from `cache` for outputs kept unchanged, and sorted by type ID.
+ */
+export async function collectRunStats(plan: Plan, results: OutputMergeResult[], cache?: IndexCache): Promise<RunStats> {
+  const outputs: OutputStats[] = [];
+  const totals = new Map<string, ResourceTypeInfo>();
+  for (const result of results) {
+    const uniqueTypes = cache ? await cache.resourceTypes(result.outputPath) : (await getPackageFileStats(result.outputPath)).uniqueTypes;
+    for (const type of uniqueTypes) {
+      const total = totals.get(type.typeId);
+      totals.set(type.typeId, total === undefined ? { ...type } : { ...total, count: total.count + type.count });
+    }
+    outputs.push({
+      path: result.outputPath,
+      part: result.part,
+      parts: result.partCount,
+      bytes: result.bytes,
+      resources: result.resourceCount,
+      types: sortTypes(uniqueTypes),
+    });
+  }
+  return { inputs: plan.totalInputs, inputBytes: plan.totalSize, outputs, types: sortTypes([...totals.values()]) };
+}
+
+export async function writeStatsJson(plan: Plan, results: OutputMergeResult[], outputPath: string, cache?: IndexCache): Promise<void> {
+  const stats = await collectRunStats(plan, results, cache);
+  await writeFileAtomic(outputPath, `${JSON.stringify(stats, null, 2)}\n`);
+}
+
+function sortTypes(types: ResourceTypeInfo[]): ResourceTypeInfo[] {
+  return [...types].sort((left, right) => stableCompare(left.typeId, right.typeId));
 }
@@ -2,8 +2,15 @@
 export interface BasicCliOptions {
   in: string[];
   files?: string;
+  include: string[];
+  exclude: string[];
+  ignoreFiles: boolean;
   out?: string;
   byFolder: boolean;
+  groupBy?: 'folder' | 'depth' | 'regex' | 'mapping' | 'category';
+  groupDepth?: number;
+  groupRegex?: string;
+  groupMap?: string;
   outRoot?: string;
   sort: 'name' | 'path' | 'mtime';
   reverse: boolean;
@@ -14,4 +21,80 @@ export interface BasicCliOptions {
   verify: boolean;
   dryRun: boolean;
   progress: boolean;
+  conflictReport?: string;
+  collisionPolicy: 'keep-last' | 'keep-first' | 'shadow-original';
+  dedupeIdentical: boolean;
+  skipDuplicates: boolean;
+  watch: boolean;
+  watchDebounce: number;
+  resume: boolean;
+  jobs: number;
+  memoryBudget: number;
+  cache: boolean;
+  cacheDir?: string;
+  cacheContentHash: boolean;
+  profile?: string;
+  config?: string;
+}
+
+export interface ConflictsCliOptions {
+  in: string[];
+  files?: string;
+  sort: 'name' | 'path' | 'mtime';
+  reverse: boolean;
+  format: 'text' | 'json' | 'yaml';
+  out?: string;
+  cache: boolean;
+  cacheDir?: string;
+  cacheContentHash: boolean;
+}
+
+export interface UnmergeCliOptions {
+  outDir: string;
+  force: boolean;
+  dryRun: boolean;
+}
+
+export interface UpdateCliOptions {
+  merged: string;
+  replace: string[];
+  add: string[];
+  remove: string[];
+  in: string[];
+  out?: string;
+  manifestOut?: string;
+  dryRun: boolean;
+}
+
+export interface VerifyCliOptions {
+  manifest?: string;
+  format: 'text' | 'json';
+  cache: boolean;
+  cacheDir?: string;
+  cacheContentHash: boolean;
+}
+
+export interface InspectCliOptions {
+  type: string[];
+  instance: string[];
+  format: 'table' | 'json' | 'csv';
+  extract?: string;
+  raw: boolean;
+}
+
+export interface LintCliOptions {
+  format: 'text' | 'json';
+}
+
+export interface CleanCliOptions {
+  yes: boolean;
+  minAge: number;
+  format: 'text' | 'json';
+}
+
+export interface CachePruneCliOptions {
+  cacheDir?: string;
+  all: boolean;
+  dryRun: boolean;
+  format: 'text' | 'json';
 }
@@ -0,0 +1,129 @@
+// Unmerge: Rebuild the original packages recorded in a merged package's METG metadata.
+import { promises as fs } from 'node:fs';
+import { basename, dirname, isAbsolute, join } from 'node:path';
+import {
+  formatResourceKey,
+  listResourceEntries,
+  loadPackage,
+  serializePackage,
+  unmergePackage,
+  type UnmergedPackage,
+} from '../core/s4tk.js';
+import { normalizePath, splitPathComponents } from '../util/determinism.js';
+import { writeFileAtomic } from '../util/fsx.js';
+import type { UnmergeCliOptions } from './types.js';
+
+/**
+ * Outcome of checking one rebuilt package against its recorded metadata
+ */
+export interface UnmergeCheck {
+  resourceCount: number;
+  expectedCount: number;
+  lostToCollisions: number;
+  problems: string[];
+}
+
+/**
+ * Compare a rebuilt package with the resource count and payload hashes recorded at merge time.
+ *
+ * Resources dropped by a keep-first/keep-last collision policy cannot be recovered;
+ * they are reported in `lostToCollisions` rather than as problems.
+ */
+export function checkUnmergedPackage(unmerged: UnmergedPackage): UnmergeCheck {
+  const { original } = unmerged;
+  const problems: string[] = [];
+  const expectedCount = original.keptCount ?? original.resourceCount;
+  const entries = listResourceEntries(unmerged.package, { hashData: true });
+
+  if (entries.length !== expectedCount) {
+    problems.push(`expected ${expectedCount} resource(s), rebuilt ${entries.length}`);
+  }
+
+  const recorded = new Map<string, string[]>();
+  for (const entry of original.entries) {
+    const id = `${entry.type}:${entry.group}:${entry.instance}`;
+    recorded.set(id, [...(recorded.get(id) ?? []), entry.dataHash ?? '']);
+  }
+
+  for (const entry of entries) {
+    const id = formatResourceKey(entry.key);
+    const hashes = recorded.get(id);
+    if (hashes === undefined) {
+      problems.push(`resource ${id} is not recorded for this package`);
+    } else if (!hashes.includes(entry.dataHash ?? '') && !hashes.includes('')) {
+      problems.push(`resource ${id} payload hash does not match the recorded hash`);
+    }
+  }
+
+  return {
+    resourceCount: entries.length,
+    expectedCount,
+    lostToCollisions: original.resourceCount - expectedCount,
+    problems,
+  };
+}
+
+/**
+ * Choose where an original package is written below the output directory.
+ * Recorded relative paths are used unless they would escape the directory, in
+ * which case only the base name is kept.
+ */
+export function resolveUnmergeTarget(outDir: string, unmerged: UnmergedPackage): string {
+  const fileName = basename(unmerged.original.basename.replace(/\\/g, '/')) || 'unmerged.package';
+  const relPath = unmerged.original.relPath;
+  if (relPath !== undefined && !isAbsolute(relPath)) {
+    const parts = splitPathComponents(normalizePath(relPath));
+    if (!parts.includes('..') && !/^[A-Z]:$/u.test(parts[0] ?? '') && parts[0] !== '/' && parts[0] !== '//') {
+      return join(outDir, ...parts);
+    }
+  }
+  return join(outDir, fileName);
+}
+
+/**
+ * `unmerge` run: split a merged package back into its originals and check each one.
+ * Returns 1 when any rebuilt package fails its check or could not be written.
+ */
+export async function runUnmerge(mergedPath: string, options: UnmergeCliOptions): Promise<number> {
+  const merged = await loadPackage(mergedPath);
+  const unmerged = await unmergePackage(merged);
+  let failures = 0;
+
+  for (const item of unmerged) {
+    const target = resolveUnmergeTarget(options.outDir, item);
+    const check = checkUnmergedPackage(item);
+    const status = check.problems.length === 0 ? 'ok' : 'MISMATCH';
+    console.log(`unmerge: ${target} (${check.resourceCount}/${check.expectedCount} resources) ${status}`);
+    if (check.lostToCollisions > 0) {
+      console.log(`  note: ${check.lostToCollisions} resource(s) were dropped by the collision policy and cannot be restored`);
+    }
+    for (const problem of check.problems) {
+      console.log(`  ${problem}`);
+    }
+    if (check.problems.length > 0) {
+      failures += 1;
+    }
+
+    if (options.dryRun) {
+      continue;
+    }
+    if (!options.force && (await pathExists(target))) {
+      console.error(`unmerge: refusing to overwrite existing file ${target} (use --force)`);
+      failures += 1;
+      continue;
+    }
+    await fs.mkdir(dirname(target), { recursive: true });
+    await writeFileAtomic(target, serializePackage(item.package));
+  }
+
+  return failures > 0 ? 1 : 0;
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,141 @@
+// Update: Splice inputs into and out of an existing merged package using its METG metadata.
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+import type { CollisionPolicy, InputMergeStats, MergeSourceInfo, MergeUpdate } from '../core/s4tk.js';
+import { planStreamUpdate, streamUpdatePackage, type StreamMergeResult } from '../core/stream-merge.js';
+import { normalizePath } from '../util/determinism.js';
+import { formatCommandLine, writeManifests } from './manifest.js';
+import { findInputRoot, type Plan } from './plan.js';
+import type { PackageInfo } from './scanner.js';
+import type { UpdateCliOptions } from './types.js';
+
+/**
+ * Split a `--replace old=new` value into the recorded target and the new file.
+ *
+ * @throws Error when either side is missing
+ */
+export function parseReplaceSpec(spec: string): { target: string; path: string } {
+  const separator = spec.indexOf('=');
+  const target = separator === -1 ? '' : spec.slice(0, separator).trim();
+  const path = separator === -1 ? '' : spec.slice(separator + 1).trim();
+  if (target === '' || path === '') {
+    throw new Error(`Invalid --replace value '${spec}': expected <old>=<new>.`);
+  }
+  return { target, path };
+}
+
+/**
+ * Build the update request from parsed CLI options. New files below an `--in` root
+ * are recorded with their relative path; replacements outside every root inherit
+ * the folder of the package they replace.
+ */
+export function buildMergeUpdate(options: UpdateCliOptions): MergeUpdate {
+  return {
+    replace: options.replace.map((spec) => {
+      const change = parseReplaceSpec(spec);
+      return { ...change, source: sourceFor(change.path, options.in) };
+    }),
+    add: options.add.map((path) => ({ path, source: sourceFor(path, options.in) })),
+    remove: options.remove.slice(),
+  };
+}
+
+/**
+ * Describe an updated merged package as a single-output plan so manifests can be rewritten.
+ * Originals carried over from the old package are listed by their recorded relative path.
+ */
+export function planFromMergeResult(
+  outputPath: string,
+  result: Pick<StreamMergeResult, 'inputs' | 'metadata'>,
+  inDirs: string[],
+): Plan {
+  const inputs: PackageInfo[] = result.metadata.originalPackages.map((original, position) => {
+    const path = result.inputs[position]?.path ?? original.relPath ?? original.basename;
+    return {
+      path,
+      normalizedPath: normalizePath(path),
+      name: original.basename,
+      size: original.size,
+      mtime: new Date(original.mtime ?? 0),
+    };
+  });
+  const totalSize = inputs.reduce((sum, input) => sum + input.size, 0);
+  return {
+    mode: 'single',
+    inDirs,
+    outputs: [{ outputPath, inputs, totalSize }],
+    totalInputs: inputs.length,
+    totalSize,
+  };
+}
+
+/**
+ * `update` run: apply --replace/--remove/--add to a merged package and write it
+ * atomically with the streaming writer, then rewrite its manifest (next to the output
+ * unless --manifest-out is given). A dry run reports counts planned from the indexes
+ * and the recorded metadata, without reading any payload.
+ * Returns 0 on success; failures are thrown.
+ */
+export async function runUpdate(options: UpdateCliOptions): Promise<number> {
+  const update = buildMergeUpdate(options);
+  if (options.dryRun) {
+    const planned = await planStreamUpdate(options.merged, update);
+    reportUpdate(options, planned.inputs, planned.collisionPolicy);
+    return 0;
+  }
+
+  const outputPath = options.out ?? options.merged;
+  await fs.mkdir(dirname(outputPath), { recursive: true });
+  const result = await streamUpdatePackage(options.merged, update, outputPath);
+  reportUpdate(
+    options,
+    result.metadata.originalPackages.map((original) => ({
+      path: original.relPath ?? original.basename,
+      resourceCount: original.resourceCount,
+      keptCount: original.keptCount ?? original.resourceCount,
+    })),
+    result.collisionPolicy,
+  );
+  console.log(`update: wrote ${outputPath} (${result.resourceCount} resources, ${result.bytes} bytes)`);
+
+  const plan = planFromMergeResult(outputPath, result, options.in);
+  const written = {
+    outputPath,
+    resourceCount: result.resourceCount,
+    bytes: result.bytes,
+    inputs: result.inputs,
+    part: 1,
+    partCount: 1,
+    oversized: false,
+  };
+  await writeManifests(plan, [written], {
+    manifestOut: options.manifestOut,
+    command: formatCommandLine(['s4merge', ...process.argv.slice(2)]),
+    order: { key: 'merged', reverse: false },
+    collisionPolicy: result.collisionPolicy,
+  });
+  return 0;
+}
+
+function reportUpdate(
+  options: UpdateCliOptions,
+  inputs: Array<Pick<InputMergeStats, 'path' | 'resourceCount' | 'keptCount'>>,
+  collisionPolicy: CollisionPolicy,
+): void {
+  // Replacements keep their slot, so only removals and additions change the count
+  const previousCount = inputs.length - options.add.length + options.remove.length;
+  console.log(
+    `update: ${options.replace.length} replaced, ${options.remove.length} removed, ${options.add.length} added ` +
+      `(${previousCount} -> ${inputs.length} input package(s), ${collisionPolicy})`,
+  );
+  inputs.forEach((input, position) => {
+    const lost = input.resourceCount - input.keptCount;
+    const note = lost > 0 ? `, ${lost} dropped by collisions` : '';
+    console.log(`  #${position + 1} ${input.path} (${input.resourceCount} resources${note})`);
+  });
+}
+
+function sourceFor(path: string, inDirs: string[]): MergeSourceInfo | undefined {
+  const match = findInputRoot(path, inDirs);
+  return match === undefined ? undefined : { relPath: match.relPath, inputRoot: normalizePath(match.root) };
+}
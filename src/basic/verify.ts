@@ -1,7 +1,551 @@
-// Verify: Optional reopen/sanity checks (counts; basic invariants).
-import type { Plan } from './plan.js';
+// Verify: Deep integrity checks for any package file (header, index, payloads), plus
+// cross-checks against embedded merge metadata and the YAML manifest when present.
+import { promises as fs } from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import {
+  CompressionType,
+  DBPF_HEADER_SIZE,
+  decompressPayload,
+  parseDbpfHeader,
+  parseDbpfIndex,
+  payloadDigestTask,
+  readDbpfPayload,
+  type DbpfIndexEntry,
+} from '../core/dbpf.js';
+import { decodeMergeMetadata, type MergeMetadata } from '../core/metadata.js';
+import { countResourceTypes, DEFAULT_COLLISION_POLICY, formatResourceKey, isMergeMetadataKey, type ResourceTypeInfo } from '../core/s4tk.js';
+import { stableCompare } from '../util/determinism.js';
+import { IN_THREAD_POOL, type WorkerPool } from '../util/worker-pool.js';
+import { openIndexCache, type IndexCache, type PayloadDigest } from './index-cache.js';
+import { readManifest, type Manifest } from './manifest.js';
+import type { VerifyCliOptions } from './types.js';
 
-export async function verifyOutputs(plan: Plan): Promise<void> {
-  // TODO(#7.4): Reopen outputs and verify resource counts/type histogram.
-  void plan;
+/**
+ * Exit codes of `s4merge verify`: warnings and errors are distinguishable
+ */
+export const VERIFY_EXIT_OK = 0;
+export const VERIFY_EXIT_WARNINGS = 1;
+export const VERIFY_EXIT_ERRORS = 2;
+
+/**
+ * One finding about a package. `entry` is the 1-based position in the index.
+ */
+export interface VerifyIssue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  entry?: number;
+  key?: string;
+}
+
+/**
+ * Everything verified about one package file
+ */
+export interface PackageVerifyReport {
+  path: string;
+  fileSize: number;
+  resourceCount: number;
+  deletedCount: number;
+  hasMetadata: boolean;
+  manifestPath?: string;
+  /** Live entries per resource type, METG included */
+  types: ResourceTypeInfo[];
+  issues: VerifyIssue[];
+}
+
+/**
+ * Result of verifying several package files
+ */
+export interface VerifyReport {
+  packages: PackageVerifyReport[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Options for verifying one package
+ */
+export interface VerifyPackageOptions {
+  /** Manifest to check against; by default `<name>.manifest.yaml` next to the package is used if it exists */
+  manifestPath?: string;
+  /** Decompresses and hashes payloads; in-thread when not given */
+  pool?: WorkerPool;
+  /**
+   * Payload checks are recorded here. They are only taken from here instead of being
+   * repeated when the cache is keyed by content hash, since an edit that keeps size
+   * and mtime would otherwise hide corruption; the header, index and metadata are
+   * always read again
+   */
+  cache?: IndexCache;
+}
+
+interface LiveEntry {
+  index: number;
+  entry: DbpfIndexEntry;
+  id: string;
+}
+
+/**
+ * Verify a package file without loading it through S4TK.
+ *
+ * Structural problems (bad header, index or records outside the file, overlapping
+ * payloads, payloads that do not decompress to their recorded size) are errors.
+ * When a METG resource is present, resource counts, ranges and per-entry hashes are
+ * checked against it; when a manifest is found, its output size and counts are too.
+ * Deleted records, duplicate keys and shared payloads are warnings; duplicate keys
+ * are expected, and not reported, in a merge recorded with `shadow-original`.
+ */
+export async function verifyPackageFile(filePath: string, options: VerifyPackageOptions = {}): Promise<PackageVerifyReport> {
+  const report: PackageVerifyReport = {
+    path: filePath,
+    fileSize: 0,
+    resourceCount: 0,
+    deletedCount: 0,
+    hasMetadata: false,
+    types: [],
+    issues: [],
+  };
+  const error = (code: string, message: string, extra: Partial<VerifyIssue> = {}): void => {
+    report.issues.push({ severity: 'error', code, message, ...extra });
+  };
+  const warning = (code: string, message: string, extra: Partial<VerifyIssue> = {}): void => {
+    report.issues.push({ severity: 'warning', code, message, ...extra });
+  };
+
+  let handle: FileHandle;
+  try {
+    handle = await fs.open(filePath, 'r');
+  } catch (cause) {
+    error('read', `Cannot open file: ${describeError(cause)}`);
+    return report;
+  }
+
+  try {
+    report.fileSize = (await handle.stat()).size;
+    const live = await verifyStructure(handle, report, error, warning);
+    if (live === undefined) {
+      return report;
+    }
+
+    const metadataEntry = live.find(({ entry }) => isMergeMetadataKey(entry.key));
+    let metadata: MergeMetadata | undefined;
+    if (metadataEntry !== undefined) {
+      report.hasMetadata = true;
+      try {
+        const payload = decompressPayload(await readDbpfPayload(handle, metadataEntry.entry, filePath), metadataEntry.entry.compressionType);
+        metadata = decodeMergeMetadata(payload);
+      } catch (cause) {
+        error('metadata', `Merge metadata cannot be decoded: ${describeError(cause)}`, { entry: metadataEntry.index + 1 });
+      }
+    }
+
+    // A shadow-original merge keeps colliding keys on purpose; the metadata checks cover them
+    if (metadata === undefined || (metadata.mergeOptions.collisionPolicy ?? DEFAULT_COLLISION_POLICY) !== 'shadow-original') {
+      warnDuplicateKeys(live, warning);
+    }
+
+    const resources = live.filter(({ entry }) => !isMergeMetadataKey(entry.key));
+    const hashes = await verifyPayloads(handle, filePath, resources, options, error);
+    if (metadata !== undefined) {
+      verifyAgainstMetadata(metadata, resources, hashes, error);
+    }
+
+    const manifestPath = options.manifestPath ?? (await findDefaultManifest(filePath));
+    if (manifestPath !== undefined) {
+      report.manifestPath = manifestPath;
+      try {
+        verifyAgainstManifest(await readManifest(manifestPath), filePath, report, metadata, error);
+      } catch (cause) {
+        error('manifest', `Manifest cannot be read: ${describeError(cause)}`);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return report;
+}
+
+/**
+ * Verify several packages in order.
+ */
+export async function verifyPackages(paths: string[], options: VerifyPackageOptions = {}): Promise<VerifyReport> {
+  const packages: PackageVerifyReport[] = [];
+  for (const path of paths) {
+    packages.push(await verifyPackageFile(path, options));
+  }
+  return summarize(packages);
+}
+
+/**
+ * Re-open freshly written outputs (`basic --verify`), each with its own manifest.
+ */
+export async function verifyOutputs(
+  outputs: { path: string; manifestPath?: string }[],
+  options: Omit<VerifyPackageOptions, 'manifestPath'> = {},
+): Promise<VerifyReport> {
+  const packages: PackageVerifyReport[] = [];
+  for (const output of outputs) {
+    packages.push(await verifyPackageFile(output.path, { ...options, manifestPath: output.manifestPath }));
+  }
+  return summarize(packages);
+}
+
+/**
+ * Exit code for a report: errors beat warnings.
+ */
+export function verifyExitCode(report: VerifyReport): number {
+  if (report.errorCount > 0) {
+    return VERIFY_EXIT_ERRORS;
+  }
+  return report.warningCount > 0 ? VERIFY_EXIT_WARNINGS : VERIFY_EXIT_OK;
+}
+
+/**
+ * Render a verify report for the console.
+ */
+export function formatVerifyReport(report: VerifyReport): string {
+  const lines: string[] = [];
+  for (const pkg of report.packages) {
+    const errors = pkg.issues.filter((issue) => issue.severity === 'error').length;
+    const status = errors > 0 ? 'FAILED' : pkg.issues.length > 0 ? 'WARN' : 'OK';
+    const extras = [pkg.hasMetadata ? 'merge metadata' : undefined, pkg.manifestPath ? `manifest ${pkg.manifestPath}` : undefined]
+      .filter((extra) => extra !== undefined)
+      .join(', ');
+    lines.push(
+      `verify: ${pkg.path}: ${status} (${pkg.resourceCount} resources, ${pkg.fileSize} bytes${extras ? `; ${extras}` : ''})`,
+    );
+    if (pkg.types.length > 0) {
+      lines.push(`  types: ${formatTypeHistogram(pkg.types)}`);
+    }
+    for (const issue of pkg.issues) {
+      const where = issue.entry === undefined ? '' : ` entry #${issue.entry}${issue.key ? ` ${issue.key}` : ''}:`;
+      lines.push(`  ${issue.severity} [${issue.code}]${where} ${issue.message}`);
+    }
+  }
+  lines.push(`verify: ${report.packages.length} package(s), ${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+  return lines.join('\n');
+}
+
+/**
+ * One-line type histogram, most frequent first: `SimData 12, STBL 3, 0x12345678 1`.
+ */
+export function formatTypeHistogram(types: ResourceTypeInfo[]): string {
+  return [...types]
+    .sort((left, right) => right.count - left.count || stableCompare(left.name, right.name))
+    .map((type) => `${type.name} ${type.count}`)
+    .join(', ');
+}
+
+/**
+ * Standalone `verify` run: check every named package and print the report.
+ * Returns VERIFY_EXIT_ERRORS, VERIFY_EXIT_WARNINGS or VERIFY_EXIT_OK.
+ */
+export async function runVerify(paths: string[], options: VerifyCliOptions): Promise<number> {
+  const report = await verifyPackages(paths, { manifestPath: options.manifest, cache: openIndexCache(options) });
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    console.log(formatVerifyReport(report));
+  }
+  return verifyExitCode(report);
+}
+
+type Report = (code: string, message: string, extra?: Partial<VerifyIssue>) => void;
+
+/**
+ * Check the header, the index and every record's bounds. Returns the live entries,
+ * or undefined when the index itself cannot be read.
+ */
+async function verifyStructure(
+  handle: FileHandle,
+  report: PackageVerifyReport,
+  error: Report,
+  warning: Report,
+): Promise<LiveEntry[] | undefined> {
+  if (report.fileSize < DBPF_HEADER_SIZE) {
+    error('header', `File is ${report.fileSize} bytes, shorter than the ${DBPF_HEADER_SIZE}-byte DBPF header`);
+    return undefined;
+  }
+  const headerBytes = Buffer.alloc(DBPF_HEADER_SIZE);
+  await handle.read(headerBytes, 0, DBPF_HEADER_SIZE, 0);
+
+  let header;
+  try {
+    header = parseDbpfHeader(headerBytes);
+  } catch (cause) {
+    error('header', describeError(cause));
+    return undefined;
+  }
+  const positionLow = headerBytes.readUInt32LE(40);
+  const position64 = Number(headerBytes.readBigUInt64LE(64));
+  if (positionLow !== 0 && position64 !== 0 && positionLow !== position64) {
+    warning('header', `Header index positions disagree (${positionLow} vs ${position64}); using ${position64}`);
+  }
+
+  if (header.entryCount === 0) {
+    return [];
+  }
+  const indexEnd = header.indexPosition + header.indexSize;
+  if (header.indexPosition < DBPF_HEADER_SIZE || indexEnd > report.fileSize) {
+    error('index-bounds', `Index at ${header.indexPosition} (+${header.indexSize} bytes) lies outside the ${report.fileSize}-byte file`);
+    return undefined;
+  }
+
+  const index = Buffer.alloc(header.indexSize);
+  await handle.read(index, 0, header.indexSize, header.indexPosition);
+  let entries: DbpfIndexEntry[];
+  try {
+    entries = parseDbpfIndex(index, header.entryCount);
+  } catch (cause) {
+    error('index', describeError(cause));
+    return undefined;
+  }
+
+  const live: LiveEntry[] = [];
+  entries.forEach((entry, position) => {
+    const id = formatResourceKey(entry.key);
+    if (entry.compressionType === CompressionType.DeletedRecord) {
+      report.deletedCount += 1;
+      return;
+    }
+    const end = entry.position + entry.compressedSize;
+    if (entry.compressedSize > 0 && (entry.position < DBPF_HEADER_SIZE || end > report.fileSize)) {
+      error('record-bounds', `Payload ${entry.position}..${end} lies outside the file`, { entry: position + 1, key: id });
+      return;
+    }
+    if (entry.compressedSize > 0 && entry.position < indexEnd && end > header.indexPosition) {
+      error('overlap', 'Payload overlaps the index', { entry: position + 1, key: id });
+      return;
+    }
+    live.push({ index: position, entry, id });
+  });
+
+  if (report.deletedCount > 0) {
+    warning('deleted-records', `${report.deletedCount} deleted record(s) in the index`);
+  }
+  report.resourceCount = live.length;
+  report.types = countResourceTypes(live.map(({ entry }) => entry.key.type));
+
+  const byPosition = live
+    .filter(({ entry }) => entry.compressedSize > 0)
+    .sort((left, right) => left.entry.position - right.entry.position || left.index - right.index);
+  for (let position = 1; position < byPosition.length; position += 1) {
+    const previous = byPosition[position - 1];
+    const current = byPosition[position];
+    if (current.entry.position >= previous.entry.position + previous.entry.compressedSize) {
+      continue;
+    }
+    const extra = { entry: current.index + 1, key: current.id };
+    if (current.entry.position === previous.entry.position && current.entry.compressedSize === previous.entry.compressedSize) {
+      warning('shared-payload', `Shares its stored bytes with entry #${previous.index + 1}`, extra);
+    } else {
+      error('overlap', `Payload overlaps entry #${previous.index + 1}`, extra);
+    }
+  }
+
+  return live;
+}
+
+/**
+ * Warn about every key already stored at an earlier entry.
+ */
+function warnDuplicateKeys(live: LiveEntry[], warning: Report): void {
+  const seen = new Map<string, number>();
+  for (const { index, id } of live) {
+    const first = seen.get(id);
+    if (first !== undefined) {
+      warning('duplicate-key', `Key also stored at entry #${first}; the game sees only one of them`, { entry: index + 1, key: id });
+    } else {
+      seen.set(id, index + 1);
+    }
+  }
+}
+
+/**
+ * Decompress every payload, through `options.pool`, and compare its length with the
+ * index; payloads a content-hash-keyed `options.cache` already knows are not read
+ * again. Returns the sha256 of each decompressed payload, by entry position.
+ */
+async function verifyPayloads(
+  handle: FileHandle,
+  filePath: string,
+  resources: LiveEntry[],
+  options: VerifyPackageOptions,
+  error: Report,
+): Promise<Map<number, string>> {
+  const reusable = options.cache?.contentHash ? options.cache : undefined;
+  const cached = (await reusable?.payloadDigests(filePath)) ?? new Map<number, PayloadDigest>();
+  const fresh = new Map<number, PayloadDigest>();
+  async function* payloads(): AsyncGenerator<{ resource: LiveEntry; payload?: Buffer; cause?: unknown }> {
+    for (const resource of resources) {
+      if (cached.has(resource.entry.position)) {
+        continue;
+      }
+      try {
+        yield { resource, payload: await readDbpfPayload(handle, resource.entry, filePath) };
+      } catch (cause) {
+        yield { resource, cause };
+      }
+    }
+  }
+
+  const outcomes = (options.pool ?? IN_THREAD_POOL).runInOrder(payloads(), ({ resource, payload, cause }) => {
+    if (payload === undefined) {
+      throw cause;
+    }
+    return payloadDigestTask(payload, resource.entry.compressionType);
+  });
+  for await (const { item, result, error: cause } of outcomes) {
+    fresh.set(
+      item.resource.entry.position,
+      cause === undefined ? { length: result.length, sha256: result.hex } : { error: describeError(cause) },
+    );
+  }
+  await options.cache?.storePayloadDigests(filePath, fresh);
+
+  const hashes = new Map<number, string>();
+  for (const { index, entry, id } of resources) {
+    const digest = cached.get(entry.position) ?? (fresh.get(entry.position) as PayloadDigest);
+    const extra = { entry: index + 1, key: id };
+    if (digest.error !== undefined) {
+      error('decompress', `Payload does not decompress: ${digest.error}`, extra);
+      continue;
+    }
+    if (digest.length !== entry.uncompressedSize) {
+      error('size-mismatch', `Decompressed to ${digest.length} bytes, index records ${entry.uncompressedSize}`, extra);
+    }
+    hashes.set(index, digest.sha256);
+  }
+  return hashes;
+}
+
+/**
+ * Check counts, ranges and per-entry hashes against the METG resource. Ranges are
+ * indices into the package's entries without the METG resource itself.
+ */
+function verifyAgainstMetadata(
+  metadata: MergeMetadata,
+  resources: LiveEntry[],
+  hashes: Map<number, string>,
+  error: Report,
+): void {
+  const expected = metadata.originalPackages.reduce((sum, original) => sum + (original.keptCount ?? original.resourceCount), 0);
+  if (expected !== resources.length) {
+    error('metadata-count', `Metadata accounts for ${expected} resource(s), the package holds ${resources.length}`);
+  }
+
+  const owner = new Array<number | undefined>(resources.length);
+  metadata.originalPackages.forEach((original, position) => {
+    const name = original.relPath ?? original.basename;
+    const recorded = new Map<string, Set<string | undefined>>();
+    for (const entry of original.entries) {
+      const id = `${entry.type}:${entry.group}:${entry.instance}`;
+      const set = recorded.get(id) ?? new Set<string | undefined>();
+      set.add(entry.dataHash);
+      recorded.set(id, set);
+    }
+
+    for (const range of original.resourceRanges) {
+      if (range.endIndex >= resources.length) {
+        error('metadata-range', `Range ${range.startIndex}-${range.endIndex} of '${name}' exceeds ${resources.length} entries`);
+        continue;
+      }
+      for (let index = range.startIndex; index <= range.endIndex; index += 1) {
+        const { index: entryIndex, id } = resources[index];
+        const extra = { entry: entryIndex + 1, key: id };
+        if (owner[index] !== undefined) {
+          error('metadata-range', `Claimed by both '${describeOriginal(metadata, owner[index] as number)}' and '${name}'`, extra);
+          continue;
+        }
+        owner[index] = position;
+        const hashesForKey = recorded.get(id);
+        if (hashesForKey === undefined) {
+          error('metadata-entry', `Not recorded for '${name}'`, extra);
+        } else if (!hashesForKey.has(undefined) && hashes.has(entryIndex) && !hashesForKey.has(hashes.get(entryIndex))) {
+          error('hash-mismatch', `Payload hash differs from the one recorded for '${name}'`, extra);
+        }
+      }
+    }
+  });
+
+  const unowned = owner.reduce<number>((sum, value) => sum + (value === undefined ? 1 : 0), 0);
+  if (unowned > 0) {
+    error('metadata-range', `${unowned} resource(s) are not covered by any original's ranges`);
+  }
+}
+
+/**
+ * Check the output size and counts recorded in the manifest. Totals are only
+ * comparable for single-part outputs; inputs are matched per part.
+ */
+function verifyAgainstManifest(
+  manifest: Manifest,
+  filePath: string,
+  report: PackageVerifyReport,
+  metadata: MergeMetadata | undefined,
+  error: Report,
+): void {
+  if (manifest.output.parts === 1) {
+    if (manifest.output.bytes !== report.fileSize) {
+      error('manifest-bytes', `Manifest records ${manifest.output.bytes} bytes, the file has ${report.fileSize}`);
+    }
+    if (manifest.output.resources !== undefined && manifest.output.resources !== report.resourceCount) {
+      error('manifest-count', `Manifest records ${manifest.output.resources} resources, the package holds ${report.resourceCount}`);
+    }
+  }
+
+  if (metadata === undefined) {
+    return;
+  }
+  const part = partNumberOf(filePath);
+  const files = manifest.inputs.files.filter((file) => (file.part ?? 1) === part);
+  if (files.length !== metadata.originalPackages.length) {
+    error('manifest-inputs', `Manifest lists ${files.length} input(s) for part ${part}, metadata records ${metadata.originalPackages.length}`);
+    return;
+  }
+  files.forEach((file, position) => {
+    const original = metadata.originalPackages[position];
+    if (file.bytes !== original.size) {
+      error('manifest-inputs', `Input #${file.idx} '${file.path}' is ${file.bytes} bytes in the manifest, ${original.size} in metadata`);
+    }
+  });
+}
+
+/**
+ * `<name>.manifest.yaml` next to the package, with any `.partN` suffix removed, if it exists.
+ */
+async function findDefaultManifest(filePath: string): Promise<string | undefined> {
+  const stem = basename(filePath).replace(/\.package$/iu, '').replace(/\.part\d+$/u, '');
+  const candidate = join(dirname(filePath), `${stem}.manifest.yaml`);
+  try {
+    await fs.access(candidate);
+    return candidate;
+  } catch {
+    return undefined;
+  }
+}
+
+function partNumberOf(filePath: string): number {
+  const match = /\.part(\d+)\.package$/iu.exec(filePath);
+  return match === null ? 1 : Number(match[1]);
+}
+
+function describeOriginal(metadata: MergeMetadata, position: number): string {
+  const original = metadata.originalPackages[position];
+  return original.relPath ?? original.basename;
+}
+
+function describeError(cause: unknown): string {
+  return cause instanceof Error ? cause.message : String(cause);
+}
+
+function summarize(packages: PackageVerifyReport[]): VerifyReport {
+  const issues = packages.flatMap((pkg) => pkg.issues);
+  return {
+    packages,
+    errorCount: issues.filter((issue) => issue.severity === 'error').length,
+    warningCount: issues.filter((issue) => issue.severity === 'warning').length,
+  };
 }
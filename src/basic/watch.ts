@@ -0,0 +1,281 @@
+// Watch: Keep `basic` running and re-merge the outputs whose inputs changed.
+// Scan results are kept in memory between cycles as one fingerprint per output.
+import { watch as watchPath, promises as fs, type FSWatcher } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { normalizePath } from '../util/determinism.js';
+import { TEMP_PREFIX } from '../util/fsx.js';
+import { WorkerPool } from '../util/worker-pool.js';
+import { classifyPackages } from './classify.js';
+import { openIndexCache, type IndexCache } from './index-cache.js';
+import { JOURNAL_FILE_NAME } from './journal.js';
+import { formatCommandLine, writeManifests } from './manifest.js';
+import { mergeAll } from './merge.js';
+import { fingerprintOutput, planMerge, type GroupingStrategy, type OutputPlan, type Plan } from './plan.js';
+import { removeStagingDir, scanInputs, sourcePathOf } from './scanner.js';
+import { copyScripts, planScriptCopies, type ScriptCopy } from './scripts.js';
+import type { BasicCliOptions } from './types.js';
+
+/**
+ * Options for `watchBasic` that do not come from the command line
+ */
+export interface WatchOptions {
+  /** Stops watching; defaults to Ctrl+C (SIGINT) */
+  signal?: AbortSignal;
+  /** Called after every cycle, the initial one included */
+  onCycle?: (cycle: WatchCycle) => void;
+}
+
+/**
+ * What one scan-plan-merge cycle did
+ */
+export interface WatchCycle {
+  cycle: number;
+  /** Outputs that were merged again, in plan order */
+  merged: string[];
+  unchanged: string[];
+  /** Outputs of earlier cycles that are no longer planned; they are left on disk */
+  dropped: string[];
+  scriptsCopied: boolean;
+  errors: string[];
+}
+
+/**
+ * What the last cycle saw, keyed by normalized output path
+ */
+interface WatchState {
+  cycle: number;
+  outputs: Map<string, string>;
+  scripts?: string;
+}
+
+/**
+ * `basic --watch`: merge everything once, then watch the `--in` roots (and the
+ * `--files` list) and, `watchDebounce` ms after the last change, rescan, re-plan and
+ * merge only the outputs whose fingerprint changed. Outputs are written atomically,
+ * so an interrupted cycle never leaves a partial file. Changes while a cycle runs
+ * trigger one more cycle once it is done.
+ *
+ * @returns 0 once the signal aborts
+ */
+export async function watchBasic(
+  options: BasicCliOptions,
+  strategy: GroupingStrategy | undefined,
+  watchOptions: WatchOptions = {},
+): Promise<number> {
+  const controller = new AbortController();
+  const signal = watchOptions.signal ?? controller.signal;
+  const stop = (): void => controller.abort();
+  if (watchOptions.signal === undefined) {
+    process.once('SIGINT', stop);
+  }
+
+  const state: WatchState = { cycle: 0, outputs: new Map() };
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+  let dirty = false;
+  // One pool and cache for the whole session; workers idle between cycles.
+  const pool = new WorkerPool(options.jobs);
+  const cache = openIndexCache(options);
+
+  const runCycles = async (): Promise<void> => {
+    while (dirty && !signal.aborted) {
+      dirty = false;
+      const cycle = await runWatchCycle(options, strategy, state, pool, cache);
+      watchOptions.onCycle?.(cycle);
+    }
+  };
+  const trigger = (): void => {
+    dirty = true;
+    running ??= runCycles().finally(() => {
+      running = undefined;
+    });
+  };
+  const schedule = (root: string, filename: string | null): void => {
+    if (filename !== null && isOwnFile(join(root, filename), state)) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(trigger, options.watchDebounce);
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const root of options.in) {
+    watchers.push(watchPath(root, { recursive: true }, (_event, filename) => schedule(root, filename)));
+  }
+  if (options.files) {
+    const list = resolve(options.files);
+    watchers.push(watchPath(list, () => schedule(dirname(list), basename(list))));
+  }
+  for (const watcher of watchers) {
+    watcher.on('error', (error) => console.error(`basic: watch: ${error.message}`));
+  }
+
+  trigger();
+  await running;
+  if (!signal.aborted) {
+    console.log(`basic: watching ${[...options.in, ...(options.files ? [options.files] : [])].join(', ')} for changes (Ctrl+C to stop)`);
+    await new Promise<void>((resolveWait) => signal.addEventListener('abort', () => resolveWait(), { once: true }));
+  }
+
+  clearTimeout(timer);
+  for (const watcher of watchers) {
+    watcher.close();
+  }
+  await running;
+  await pool.close();
+  process.off('SIGINT', stop);
+  return 0;
+}
+
+/**
+ * One cycle: scan, plan, and merge the outputs whose fingerprint differs from the
+ * last cycle (or whose file is gone). Errors are reported in the cycle, not thrown,
+ * so the watch keeps running; the state only advances for outputs that were written.
+ */
+async function runWatchCycle(
+  options: BasicCliOptions,
+  strategy: GroupingStrategy | undefined,
+  state: WatchState,
+  pool: WorkerPool,
+  cache: IndexCache | undefined,
+): Promise<WatchCycle> {
+  state.cycle += 1;
+  const cycle: WatchCycle = { cycle: state.cycle, merged: [], unchanged: [], dropped: [], scriptsCopied: false, errors: [] };
+  try {
+    const scan = await scanInputs({
+      inDirs: options.in,
+      filesList: options.files,
+      sortBy: options.sort,
+      reverse: options.reverse,
+      skipDuplicates: options.skipDuplicates,
+      include: options.include,
+      exclude: options.exclude,
+      ignoreFiles: options.ignoreFiles,
+      cache,
+    });
+    try {
+      cycle.errors.push(...scan.errors);
+      const packages = options.groupBy === 'category' ? await classifyPackages(scan.packages, cycle.errors, cache) : scan.packages;
+      const plan = planMerge(packages, {
+        out: options.out,
+        byFolder: options.byFolder,
+        strategy,
+        outRoot: options.outRoot,
+        inDirs: options.in,
+      });
+
+      const changed: OutputPlan[] = [];
+      const fingerprints = new Map<string, string>();
+      for (const output of plan.outputs) {
+        const key = normalizePath(resolve(output.outputPath));
+        const fingerprint = fingerprintOutput(output);
+        fingerprints.set(key, fingerprint);
+        if (state.outputs.get(key) === fingerprint && (await exists(output.outputPath))) {
+          cycle.unchanged.push(output.outputPath);
+        } else {
+          changed.push(output);
+        }
+      }
+      for (const key of state.outputs.keys()) {
+        if (!fingerprints.has(key)) {
+          cycle.dropped.push(key);
+          state.outputs.delete(key);
+        }
+      }
+
+      const scripts = planScriptCopies(scan.scripts, options.outRoot ?? dirname(options.out as string));
+      const scriptsFingerprint = fingerprintScripts(scripts.copies);
+      if (scriptsFingerprint !== state.scripts) {
+        await copyScripts(scripts);
+        state.scripts = scriptsFingerprint;
+        cycle.scriptsCopied = scripts.copies.length > 0;
+      }
+
+      if (changed.length > 0) {
+        // Registered before merging, so the writes below never trigger a cycle of their own
+        const keys = changed.map((output) => normalizePath(resolve(output.outputPath)));
+        for (const key of keys) {
+          state.outputs.set(key, fingerprints.get(key) as string);
+        }
+        try {
+          await mergeChanged({ ...plan, outputs: changed }, options, scripts.copies, pool);
+        } catch (error) {
+          for (const key of keys) {
+            state.outputs.delete(key);
+          }
+          throw error;
+        }
+        cycle.merged.push(...changed.map((output) => output.outputPath));
+      }
+    } finally {
+      await removeStagingDir(scan);
+    }
+  } catch (error) {
+    cycle.errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  for (const error of cycle.errors) {
+    console.error(`basic: watch: ${error}`);
+  }
+  for (const output of cycle.merged) {
+    console.log(`basic: watch: merged ${output}`);
+  }
+  for (const output of cycle.dropped) {
+    console.log(`basic: watch: ${output} is no longer planned; left in place`);
+  }
+  console.log(`basic: watch: cycle ${cycle.cycle}: ${cycle.merged.length} merged, ${cycle.unchanged.length} unchanged`);
+  return cycle;
+}
+
+/**
+ * Merge the changed outputs and write their manifests.
+ */
+async function mergeChanged(plan: Plan, options: BasicCliOptions, scripts: ScriptCopy[], pool: WorkerPool): Promise<void> {
+  const results = await mergeAll(plan, {
+    maxSizeMb: options.maxSize,
+    progress: options.progress,
+    collisionPolicy: options.collisionPolicy,
+    dedupeIdentical: options.dedupeIdentical,
+    jobs: options.jobs,
+    memoryBudgetMb: options.memoryBudget,
+    pool,
+  });
+  await writeManifests(plan, results, {
+    manifestOut: options.manifestOut,
+    command: formatCommandLine(['s4merge', ...process.argv.slice(2)]),
+    order: { key: options.sort, reverse: options.reverse },
+    maxSizeMb: options.maxSize,
+    collisionPolicy: options.collisionPolicy,
+    scripts,
+    pool,
+  });
+}
+
+/**
+ * Files the watch writes itself (outputs and their parts, manifests, temp files) and
+ * the journal of a `basic` run do not trigger a cycle.
+ */
+function isOwnFile(path: string, state: WatchState): boolean {
+  const name = basename(path);
+  if (name.startsWith(TEMP_PREFIX) || name.endsWith('.manifest.yaml') || name === JOURNAL_FILE_NAME) {
+    return true;
+  }
+  // `Name.part2.package` is a part of `Name.package`
+  const unsplit = resolve(path).replace(/\.part\d+(\.package)?$/iu, '$1');
+  return state.outputs.has(normalizePath(resolve(path))) || state.outputs.has(normalizePath(unsplit));
+}
+
+function fingerprintScripts(copies: ScriptCopy[]): string {
+  return JSON.stringify(
+    copies.map((copy) => [sourcePathOf(copy.script), copy.script.size, copy.script.mtime.getTime(), copy.destination]),
+  );
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
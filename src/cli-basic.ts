@@ -1,5 +1,8 @@
 import { type Command, Option } from 'commander';
+import { expandProfile, explainProfileError } from './basic/config.js';
 import { runBasic } from './basic/main.js';
+import { DEFAULT_MEMORY_BUDGET_MB } from './util/concurrency.js';
+import { compileGlob } from './util/glob.js';
 import type { BasicCliOptions } from './basic/types.js';
 
 /**
@@ -9,29 +12,104 @@ import type { BasicCliOptions } from './basic/types.js';
  * @param options Parsed options from Commander.
  */
 export function validateBasicOptions(options: BasicCliOptions): void {
+  if (options.config && !options.profile) {
+    throw new Error("Input error: --config <path> can only be used with --profile <name>.");
+  }
+
   if (options.in.length === 0 && !options.files) {
     throw new Error("Input required: specify at least one --in <dir> or --files <path>.");
   }
 
-  if (options.outRoot && !options.byFolder) {
-    throw new Error("Input error: --out-root <dir> can only be used with --by-folder.");
+  if (options.byFolder && options.groupBy !== undefined && options.groupBy !== 'folder') {
+    throw new Error(`Output conflict: --by-folder and --group-by ${options.groupBy} are mutually exclusive.`);
+  }
+
+  const grouped = options.byFolder || options.groupBy !== undefined;
+  const groupFlag = options.groupBy !== undefined ? `--group-by ${options.groupBy}` : '--by-folder';
+
+  if (options.outRoot && !grouped) {
+    throw new Error("Input error: --out-root <dir> can only be used with --by-folder or --group-by.");
+  }
+
+  if (!options.out && !grouped) {
+    throw new Error("Output required: specify either --out <path>, --by-folder or --group-by.");
+  }
+
+  if (options.out && grouped) {
+    throw new Error(`Output conflict: --out <path> and ${groupFlag} are mutually exclusive.`);
+  }
+
+  if (grouped && !options.outRoot) {
+    throw new Error(`Output required: ${groupFlag} also requires --out-root <dir>.`);
   }
 
-  if (!options.out && !options.byFolder) {
-    throw new Error("Output required: specify either --out <path> or --by-folder.");
+  const groupArguments = [
+    ['depth', '--group-depth <n>', options.groupDepth],
+    ['regex', '--group-regex <pattern>', options.groupRegex],
+    ['mapping', '--group-map <path>', options.groupMap],
+  ] as const;
+  for (const [mode, flag, value] of groupArguments) {
+    if (options.groupBy === mode && value === undefined) {
+      throw new Error(`Input required: --group-by ${mode} requires ${flag}.`);
+    }
+    if (options.groupBy !== mode && value !== undefined) {
+      throw new Error(`Input error: ${flag} can only be used with --group-by ${mode}.`);
+    }
   }
 
-  if (options.out && options.byFolder) {
-    throw new Error("Output conflict: --out <path> and --by-folder are mutually exclusive.");
+  if (options.groupDepth !== undefined && (!Number.isInteger(options.groupDepth) || options.groupDepth < 1)) {
+    throw new Error("Validation error: --group-depth must be a positive integer.");
   }
 
-  if (options.byFolder && !options.outRoot) {
-    throw new Error("Output required: --by-folder also requires --out-root <dir>.");
+  if (options.groupRegex !== undefined) {
+    try {
+      new RegExp(options.groupRegex, 'u');
+    } catch (e) {
+      throw new Error(`Validation error: --group-regex is not a valid regular expression: ${(e as Error).message}`);
+    }
+  }
+
+  for (const [flag, patterns] of [['--include', options.include], ['--exclude', options.exclude]] as const) {
+    for (const pattern of patterns) {
+      try {
+        compileGlob(pattern);
+      } catch (e) {
+        throw new Error(`Validation error: ${flag}: ${(e as Error).message}.`);
+      }
+    }
   }
 
   if (options.maxSize !== undefined && (!Number.isFinite(options.maxSize) || options.maxSize <= 0)) {
     throw new Error("Validation error: --max-size must be a positive number.");
   }
+
+  if (options.conflictReport && !options.dryRun) {
+    throw new Error("Input error: --conflict-report <path> can only be used with --dry-run.");
+  }
+
+  if (options.watch && options.dryRun) {
+    throw new Error("Input error: --watch and --dry-run are mutually exclusive.");
+  }
+
+  if (!Number.isInteger(options.watchDebounce) || options.watchDebounce < 0) {
+    throw new Error("Validation error: --watch-debounce must be a non-negative integer.");
+  }
+
+  if (!Number.isInteger(options.jobs) || options.jobs < 1) {
+    throw new Error("Validation error: --jobs must be a positive integer.");
+  }
+
+  if (!Number.isFinite(options.memoryBudget) || options.memoryBudget <= 0) {
+    throw new Error("Validation error: --memory-budget must be a positive number.");
+  }
+
+  if (options.resume && (options.dryRun || options.watch)) {
+    throw new Error(`Input error: --resume cannot be combined with ${options.dryRun ? '--dry-run' : '--watch'}.`);
+  }
+
+  if (options.watch && (options.statsJson || options.verify)) {
+    throw new Error(`Input error: ${options.statsJson ? '--stats-json' : '--verify'} cannot be combined with --watch.`);
+  }
 }
 
 /**
@@ -44,35 +122,81 @@ export function registerBasicSubcommand(program: Command): void {
     .command('basic')
     .summary('Append-all package merger')
     .description(
-      'A tiny, deterministic, append-all aggregator: take an ordered list of .package files and produce one merged .package (or multiple with --by-folder). No policy, no dedupe, no conflict logic—just concatenate resources in a stable order.'
+      'A tiny, deterministic, append-all aggregator: take an ordered list of .package files and produce one merged .package (or multiple with --by-folder). No semantic conflict logic and no dedupe unless --dedupe-identical is given—just concatenate resources in a stable order; --collision-policy decides what happens to repeated resource keys. Packages inside .zip archives are merged like loose ones; .ts4script files are copied to the output folder, never merged.'
     )
     .option(
       '--in <dir>',
-      'Input directory to scan for .package files (repeatable).',
+      'Input directory to scan for .package and .ts4script files and .zip archives (repeatable).',
       (value, previous: string[] = []) => previous.concat(value),
       []
     )
     .option('--files <path>', 'Path to a text file listing input .package files (one per line).')
+    .option(
+      '--include <glob>',
+      'Only merge .package files matching this glob, relative to the --in folder or the --files list (repeatable).',
+      (value, previous: string[] = []) => previous.concat(value),
+      []
+    )
+    .option(
+      '--exclude <glob>',
+      'Leave out files and folders matching this glob, e.g. _disabled/ or WIP/** (repeatable).',
+      (value, previous: string[] = []) => previous.concat(value),
+      []
+    )
+    .option('--no-ignore-files', 'Do not read .s4mergeignore files (gitignore syntax) in the input folders.')
     .option('--out <path>', 'Path to the single merged output .package file.')
     .option('--by-folder', 'Group outputs by top-level folder; requires --out-root.', false)
-    .option('--out-root <dir>', 'Output directory for packages created with --by-folder.')
+    .addOption(
+      new Option('--group-by <key>', 'Group outputs by top-level folder, folder depth, regex on the relative path, a mapping file or content category (CAS, BuildBuy, Gameplay, Overrides, Mixed); requires --out-root.')
+        .choices(['folder', 'depth', 'regex', 'mapping', 'category'])
+    )
+    .option('--group-depth <n>', 'With --group-by depth, the number of folders below the --in root that name a group.', (val) => Number(val))
+    .option('--group-regex <pattern>', "With --group-by regex, a pattern whose named group 'group' (or first capture group) names the group.")
+    .option('--group-map <path>', 'With --group-by mapping, a JSON or YAML file mapping relative path prefixes to group names.')
+    .option('--out-root <dir>', 'Output directory for packages created with --by-folder or --group-by.')
     .addOption(
       new Option('--sort <method>', 'Sort method for input files.')
         .choices(['name', 'path', 'mtime'])
         .default('path')
     )
     .option('--reverse', 'Reverse the sort order.', false)
+    .addOption(
+      new Option('--collision-policy <policy>', 'How to resolve resources whose type/group/instance is already present.')
+        .choices(['keep-last', 'keep-first', 'shadow-original'])
+        .default('shadow-original')
+    )
+    .option('--dedupe-identical', 'Drop a resource when its type/group/instance and payload bytes match one already appended.', false)
+    .option('--skip-duplicates', 'Leave out input packages that are byte-identical copies of an earlier input.', false)
     .option('--max-size <MB>', 'Roll over to a new .partN.package file when this size is exceeded.', (val) => parseFloat(val))
     .option('--manifest-out <path>', 'Path to write the output manifest YAML file.')
     .option('--changelog', 'Write the run-level changelog file (use --no-changelog to disable).', true)
     .option('--stats-json <path>', 'Path to write a JSON file with final stats.')
     .option('--verify', 'Re-open and verify the merged package(s) after writing.', false)
     .option('--dry-run', 'Analyze inputs and plan outputs without writing any files.', false)
+    .option('--conflict-report <path>', 'With --dry-run, write the TGI conflict report to a .json or .yaml file.')
     .option('--progress', 'Display a progress bar.', false)
-    .action(async (options: BasicCliOptions) => {
+    .option('--watch', 'Keep running: re-merge the outputs whose inputs changed whenever files under --in change.', false)
+    .option('--watch-debounce <ms>', 'With --watch, wait this long after the last change before rescanning.', (val) => Number(val), 500)
+    .option('--jobs <n>', 'Read inputs, and merge --by-folder/--group-by outputs, N at a time, hashing on N worker threads; output bytes do not change.', (val) => Number(val), 1)
+    .option('--memory-budget <mb>', 'With --jobs, hold at most this many MB of loaded input data at once.', (val) => Number(val), DEFAULT_MEMORY_BUDGET_MB)
+    .option('--no-cache', 'Read every package again instead of reusing indexes and hashes cached by earlier runs.')
+    .option('--cache-dir <dir>', 'Folder for the package index cache instead of the per-user cache folder.')
+    .option('--cache-content-hash', 'Also key cache entries by a hash of each package, for tools that keep mtimes across edits; reads every package in full.', false)
+    .option('--resume', 'Skip outputs an interrupted run already finished with the same inputs and flags, and remove its leftover temp files.', false)
+    .option('--profile <name>', 'Take options from a named profile in s4merge.config.json/.yaml; flags given here override it.')
+    .option('--config <path>', 'Config file to read --profile from instead of s4merge.config.* in the working directory.')
+    .action(async (options: BasicCliOptions, command: Command) => {
       try {
-        validateBasicOptions(options);
-        const code = await runBasic(options);
+        const expansion = options.profile
+          ? await expandProfile(options, (key) => command.getOptionValueSource(key))
+          : undefined;
+        const resolved = expansion?.options ?? options;
+        try {
+          validateBasicOptions(resolved);
+        } catch (e) {
+          throw expansion !== undefined && e instanceof Error ? explainProfileError(e, expansion) : e;
+        }
+        const code = await runBasic(resolved);
         if (Number.isInteger(code)) {
           process.exitCode = code;
         }
@@ -0,0 +1,44 @@
+import { type Command, Option } from 'commander';
+import { runCachePrune } from './basic/index-cache.js';
+import type { CachePruneCliOptions } from './basic/types.js';
+
+/**
+ * Registers the 'cache' subcommand, with 'prune', on the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerCacheSubcommand(program: Command): void {
+  const cache = program
+    .command('cache')
+    .summary('Manage the package index cache')
+    .description(
+      'basic, conflicts and verify keep the indexes, type histograms and hashes of the packages they read in a cache folder, keyed by path, size and modification time, so unchanged packages are not read again. Use --no-cache on those commands to bypass it.'
+    );
+
+  cache
+    .command('prune')
+    .summary('Remove cache entries of packages that are gone or have changed')
+    .description(
+      'Remove the cache entries of packages that no longer exist or whose size or modification time changed, and entries that cannot be read. Exits with 1 when an entry could not be removed.'
+    )
+    .option('--cache-dir <dir>', 'Cache folder to prune instead of the per-user cache folder.')
+    .option('--all', 'Remove every entry.', false)
+    .option('--dry-run', 'Only list the entries that would be removed.', false)
+    .addOption(
+      new Option('--format <format>', 'Console output format.')
+        .choices(['text', 'json'])
+        .default('text')
+    )
+    .action(async (options: CachePruneCliOptions) => {
+      try {
+        const code = await runCachePrune(options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.message);
+        }
+      }
+    });
+}
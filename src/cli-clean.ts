@@ -0,0 +1,45 @@
+import { type Command, Option } from 'commander';
+import { DEFAULT_CLEAN_MIN_AGE_MINUTES, runClean } from './basic/clean.js';
+import type { CleanCliOptions } from './basic/types.js';
+
+/**
+ * Registers the 'clean' subcommand and its options with the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerCleanSubcommand(program: Command): void {
+  program
+    .command('clean')
+    .summary('Remove temp files left behind by interrupted or failed writes')
+    .description(
+      'Find the .tmp-<name>-<hex> files that atomic writes leave next to their target when a rename fails or a run is interrupted, and report their age and size. Files are only deleted with --yes; files modified within --min-age minutes or still held open by another process are skipped. Exits with 1 when a folder could not be read or a file could not be deleted.'
+    )
+    .argument('<roots...>', 'Folders to search, including subfolders.')
+    .option('--yes', 'Delete the temp files instead of only listing them.', false)
+    .option(
+      '--min-age <minutes>',
+      'Skip temp files modified less than this many minutes ago.',
+      (val) => Number(val),
+      DEFAULT_CLEAN_MIN_AGE_MINUTES
+    )
+    .addOption(
+      new Option('--format <format>', 'Console output format.')
+        .choices(['text', 'json'])
+        .default('text')
+    )
+    .action(async (roots: string[], options: CleanCliOptions) => {
+      try {
+        if (!Number.isFinite(options.minAge) || options.minAge < 0) {
+          throw new Error('Validation error: --min-age must be a non-negative number of minutes.');
+        }
+        const code = await runClean(roots, options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.message);
+        }
+      }
+    });
+}
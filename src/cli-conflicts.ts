@@ -0,0 +1,64 @@
+import { type Command, Option } from 'commander';
+import { runConflicts } from './basic/conflicts.js';
+import type { ConflictsCliOptions } from './basic/types.js';
+
+/**
+ * Validates parsed CLI options for the 'conflicts' subcommand.
+ * Throws an error if validation fails.
+ *
+ * @param options Parsed options from Commander.
+ */
+export function validateConflictsOptions(options: ConflictsCliOptions): void {
+  if (options.in.length === 0 && !options.files) {
+    throw new Error("Input required: specify at least one --in <dir> or --files <path>.");
+  }
+}
+
+/**
+ * Registers the 'conflicts' subcommand and its options with the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerConflictsSubcommand(program: Command): void {
+  program
+    .command('conflicts')
+    .summary('Report TGI collisions between input packages')
+    .description(
+      'Index every resource key across the ordered inputs and list each type/group/instance provided by more than one package, which package wins by position, and whether the payload bytes differ.'
+    )
+    .option(
+      '--in <dir>',
+      'Input directory to scan for .package files (repeatable).',
+      (value, previous: string[] = []) => previous.concat(value),
+      []
+    )
+    .option('--files <path>', 'Path to a text file listing input .package files (one per line).')
+    .addOption(
+      new Option('--sort <method>', 'Sort method for input files.')
+        .choices(['name', 'path', 'mtime'])
+        .default('path')
+    )
+    .option('--reverse', 'Reverse the sort order.', false)
+    .addOption(
+      new Option('--format <format>', 'Console output format.')
+        .choices(['text', 'json', 'yaml'])
+        .default('text')
+    )
+    .option('--out <path>', 'Also write the report to a .json or .yaml file.')
+    .option('--no-cache', 'Read every package again instead of reusing indexes and hashes cached by earlier runs.')
+    .option('--cache-dir <dir>', 'Folder for the package index cache instead of the per-user cache folder.')
+    .option('--cache-content-hash', 'Also key cache entries by a hash of each package, for tools that keep mtimes across edits; reads every package in full.', false)
+    .action(async (options: ConflictsCliOptions) => {
+      try {
+        validateConflictsOptions(options);
+        const code = await runConflicts(options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.message);
+        }
+      }
+    });
+}
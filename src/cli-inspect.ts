@@ -0,0 +1,56 @@
+import { type Command, Option } from 'commander';
+import { parseInstanceFilter, parseTypeFilter, runInspect } from './basic/inspect.js';
+import type { InspectCliOptions } from './basic/types.js';
+
+/**
+ * Validates parsed CLI options for the 'inspect' subcommand.
+ * Throws an error if validation fails.
+ *
+ * @param options Parsed options from Commander.
+ */
+export function validateInspectOptions(options: InspectCliOptions): void {
+  options.type.forEach(parseTypeFilter);
+  options.instance.forEach(parseInstanceFilter);
+  if (options.raw && !options.extract) {
+    throw new Error('--raw only applies together with --extract <dir>.');
+  }
+}
+
+/**
+ * Registers the 'inspect' subcommand and its options with the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerInspectSubcommand(program: Command): void {
+  const collect = (value: string, previous: string[] = []): string[] => previous.concat(value);
+
+  program
+    .command('inspect')
+    .summary('List and extract the resources of a package')
+    .description(
+      'List every entry of a .package in index order with its type, group and instance (canonical 0x hex), stored and uncompressed size and compression. Filters narrow the listing and the resources written by --extract.'
+    )
+    .argument('<package>', 'Package file to inspect.')
+    .option('--type <id>', 'Only entries of this resource type, 0x hex or decimal (repeatable).', collect, [])
+    .option('--instance <id>', 'Only entries with this instance, 0x hex or decimal (repeatable).', collect, [])
+    .addOption(
+      new Option('--format <format>', 'Output format.')
+        .choices(['table', 'json', 'csv'])
+        .default('table')
+    )
+    .option('--extract <dir>', 'Write each listed resource to <dir>/<type>_<group>_<instance>.bin.')
+    .option('--raw', 'With --extract, write the stored (still compressed) bytes instead of decompressing.', false)
+    .action(async (packagePath: string, options: InspectCliOptions) => {
+      try {
+        validateInspectOptions(options);
+        const code = await runInspect(packagePath, options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.message);
+        }
+      }
+    });
+}
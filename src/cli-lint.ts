@@ -0,0 +1,35 @@
+import { type Command, Option } from 'commander';
+import { runLint } from './basic/lint.js';
+import type { LintCliOptions } from './basic/types.js';
+
+/**
+ * Registers the 'lint' subcommand and its options with the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerLintSubcommand(program: Command): void {
+  program
+    .command('lint')
+    .summary('Check a Mods folder for files the game will not load')
+    .description(
+      'Check a Mods folder the way the game loads it: .package files at most 5 folders deep and .ts4script files at most 1 folder deep, no zero-byte or non-DBPF packages, no hidden or temporary copies the game would still load, no .zip archives, and PackedFile lines in Resource.cfg that cover every package. Exits with 0 when clean, 1 when only warnings were found and 2 on errors.'
+    )
+    .argument('<mods>', 'Mods folder to check.')
+    .addOption(
+      new Option('--format <format>', 'Console output format.')
+        .choices(['text', 'json'])
+        .default('text')
+    )
+    .action(async (mods: string, options: LintCliOptions) => {
+      try {
+        const code = await runLint(mods, options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.message);
+        }
+      }
+    });
+}
@@ -0,0 +1,33 @@
+import type { Command } from 'commander';
+import { runUnmerge } from './basic/unmerge.js';
+import type { UnmergeCliOptions } from './basic/types.js';
+
+/**
+ * Registers the 'unmerge' subcommand and its options with the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerUnmergeSubcommand(program: Command): void {
+  program
+    .command('unmerge')
+    .summary('Rebuild the original packages from a merged package')
+    .description(
+      'Read the merge metadata embedded in a merged .package, write each original package back using its recorded relative path (or base name), and check every result against its recorded resource count and payload hashes.'
+    )
+    .argument('<merged>', 'Merged .package file produced by s4merge.')
+    .requiredOption('--out-dir <dir>', 'Directory to write the rebuilt packages into.')
+    .option('--force', 'Overwrite files that already exist in the output directory.', false)
+    .option('--dry-run', 'Check the merged package and list the originals without writing files.', false)
+    .action(async (merged: string, options: UnmergeCliOptions) => {
+      try {
+        const code = await runUnmerge(merged, options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.cause instanceof Error ? `${e.message}: ${e.cause.message}` : e.message);
+        }
+      }
+    });
+}
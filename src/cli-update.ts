@@ -0,0 +1,52 @@
+import type { Command } from 'commander';
+import { runUpdate } from './basic/update.js';
+import type { UpdateCliOptions } from './basic/types.js';
+
+/**
+ * Validates parsed CLI options for the 'update' subcommand.
+ * Throws an error if validation fails.
+ *
+ * @param options Parsed options from Commander.
+ */
+export function validateUpdateOptions(options: UpdateCliOptions): void {
+  if (options.replace.length === 0 && options.add.length === 0 && options.remove.length === 0) {
+    throw new Error('Nothing to update: specify at least one --replace, --add or --remove.');
+  }
+}
+
+/**
+ * Registers the 'update' subcommand and its options with the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerUpdateSubcommand(program: Command): void {
+  const collect = (value: string, previous: string[] = []): string[] => previous.concat(value);
+
+  program
+    .command('update')
+    .summary('Replace, remove or add inputs of an existing merged package')
+    .description(
+      'Use the merge metadata embedded in a merged .package to splice original packages in and out without re-reading the other inputs. Remaining inputs keep their order and the recorded collision policy; replacements keep their slot and additions go last.'
+    )
+    .requiredOption('--merged <path>', 'Merged .package file produced by s4merge.')
+    .option('--replace <old=new>', 'Replace a recorded original (relative path or base name) with a new file (repeatable).', collect, [])
+    .option('--add <path>', 'Append a new .package file after the existing inputs (repeatable).', collect, [])
+    .option('--remove <name>', 'Remove a recorded original by relative path or base name (repeatable).', collect, [])
+    .option('--in <dir>', 'Input root used to record relative paths of new files (repeatable).', collect, [])
+    .option('--out <path>', 'Write the updated package here instead of replacing --merged.')
+    .option('--manifest-out <path>', 'Write the YAML manifest for the updated package here (default: next to the output).')
+    .option('--dry-run', 'Show the updated input list without writing files.', false)
+    .action(async (options: UpdateCliOptions) => {
+      try {
+        validateUpdateOptions(options);
+        const code = await runUpdate(options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.cause instanceof Error ? `${e.message}: ${e.cause.message}` : e.message);
+        }
+      }
+    });
+}
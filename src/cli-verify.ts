@@ -0,0 +1,39 @@
+import { type Command, Option } from 'commander';
+import { runVerify } from './basic/verify.js';
+import type { VerifyCliOptions } from './basic/types.js';
+
+/**
+ * Registers the 'verify' subcommand and its options with the main CLI program.
+ *
+ * @param program The Commander program instance.
+ */
+export function registerVerifySubcommand(program: Command): void {
+  program
+    .command('verify')
+    .summary('Check the integrity of package files')
+    .description(
+      'Check the DBPF header, index and record bounds, overlapping payloads and the decompressibility of every resource. Merged packages are also checked against their embedded merge metadata (resource counts, ranges and per-entry hashes) and against <name>.manifest.yaml when present. Exits with 0 when clean, 1 when only warnings were found and 2 on errors.'
+    )
+    .argument('<packages...>', 'Package files to verify.')
+    .option('--manifest <path>', 'Manifest to check against instead of <name>.manifest.yaml next to each package.')
+    .addOption(
+      new Option('--format <format>', 'Console output format.')
+        .choices(['text', 'json'])
+        .default('text')
+    )
+    .option('--no-cache', 'Do not record payload checks in the package index cache (they are only reused with --cache-content-hash).')
+    .option('--cache-dir <dir>', 'Folder for the package index cache instead of the per-user cache folder.')
+    .option('--cache-content-hash', 'Also key cache entries by a hash of each package, for tools that keep mtimes across edits; reads every package in full.', false)
+    .action(async (packages: string[], options: VerifyCliOptions) => {
+      try {
+        const code = await runVerify(packages, options);
+        if (Number.isInteger(code)) {
+          process.exitCode = code;
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          program.error(e.message);
+        }
+      }
+    });
+}
@@ -2,6 +2,15 @@
 import { Command } from 'commander';
 import pkg from '../package.json' with { type: 'json' };
 import { registerBasicSubcommand } from './cli-basic.js';
+import { registerCacheSubcommand } from './cli-cache.js';
+import { registerCleanSubcommand } from './cli-clean.js';
+import { registerConflictsSubcommand } from './cli-conflicts.js';
+import { registerInspectSubcommand } from './cli-inspect.js';
+import { registerLintSubcommand } from './cli-lint.js';
+import { registerUnmergeSubcommand } from './cli-unmerge.js';
+import { registerUpdateSubcommand } from './cli-update.js';
+import { registerVerifySubcommand } from './cli-verify.js';
+import { loadResourceTypesFile } from './core/resource-types.js';
 
 const CLI_VERSION = pkg.version;
 
@@ -11,10 +20,31 @@ export function buildCli(): Command {
   program
     .name('s4merge')
     .description('Sims 4 package merger tooling')
-    .version(CLI_VERSION);
+    .version(CLI_VERSION)
+    .option('--resource-types <path>', 'JSON file with extra resource type names and categories (keyed by 0x type ID).')
+    .hook('preAction', async () => {
+      const { resourceTypes } = program.opts<{ resourceTypes?: string }>();
+      if (resourceTypes) {
+        try {
+          await loadResourceTypesFile(resourceTypes);
+        } catch (e) {
+          if (e instanceof Error) {
+            program.error(e.message);
+          }
+        }
+      }
+    });
 
   // Register subcommands
   registerBasicSubcommand(program);
+  registerCacheSubcommand(program);
+  registerCleanSubcommand(program);
+  registerConflictsSubcommand(program);
+  registerInspectSubcommand(program);
+  registerLintSubcommand(program);
+  registerUnmergeSubcommand(program);
+  registerUpdateSubcommand(program);
+  registerVerifySubcommand(program);
 
   return program;
 }
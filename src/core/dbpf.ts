@@ -0,0 +1,267 @@
+// DBPF: Header and index codec for Sims 4 package files (DBPF 2.1), without touching payloads.
+import { promises as fs } from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
+import { inflateSync } from 'node:zlib';
+import { decompressRefPack } from './refpack.js';
+import type { DigestTask } from '../util/worker-pool.js';
+import type { ResourceKey } from './s4tk.js';
+
+/**
+ * Fixed parts of a DBPF 2.1 file as written by S4TK: the header, the index flags
+ * word, and one index record per resource
+ */
+export const DBPF_HEADER_SIZE = 96;
+export const DBPF_INDEX_FLAGS_SIZE = 4;
+export const DBPF_INDEX_ENTRY_SIZE = 32;
+
+/**
+ * Largest position an index record can hold; records store 32-bit offsets even
+ * though the header's index position is 64-bit
+ */
+export const DBPF_MAX_POSITION = 0xffffffff;
+
+/**
+ * Compression types stored in the index (`mnCompressionType`)
+ */
+export const CompressionType = {
+  Uncompressed: 0x0000,
+  ZLIB: 0x5a42,
+  DeletedRecord: 0xffe0,
+  StreamableCompression: 0xfffe,
+  InternalCompression: 0xffff,
+} as const;
+
+/**
+ * One index record: where a resource's stored bytes live and how to decode them
+ */
+export interface DbpfIndexEntry {
+  key: ResourceKey;
+  position: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  compressionType: number;
+}
+
+/**
+ * Header fields needed to locate the index
+ */
+export interface DbpfHeader {
+  majorVersion: number;
+  minorVersion: number;
+  entryCount: number;
+  indexPosition: number;
+  indexSize: number;
+}
+
+/**
+ * Raised when a file is not a readable DBPF 2.1 package
+ */
+export class DbpfFormatError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath ? `${message} (${filePath})` : message);
+    this.name = 'DbpfFormatError';
+  }
+}
+
+/**
+ * Header and index of one package file
+ */
+export interface DbpfIndex {
+  header: DbpfHeader;
+  fileSize: number;
+  entries: DbpfIndexEntry[];
+  deletedCount: number;
+}
+
+/**
+ * Read only the header and index of a package file; payloads are never touched.
+ *
+ * Deleted records are counted but left out of `entries`, as S4TK does when
+ * loading, so the entries line up with those of the loaded package.
+ *
+ * @throws DbpfFormatError when the header or index is malformed
+ */
+export async function readDbpfFileIndex(filePath: string): Promise<DbpfIndex> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    if (size < DBPF_HEADER_SIZE) {
+      throw new DbpfFormatError('Not a package file', filePath);
+    }
+    const header = parseDbpfHeader(await readExactly(handle, 0, DBPF_HEADER_SIZE, filePath), filePath);
+    const indexEnd = header.indexSize > 0 ? header.indexPosition + header.indexSize : size;
+    if (header.indexPosition < DBPF_HEADER_SIZE || indexEnd > size) {
+      throw new DbpfFormatError(`Index at ${header.indexPosition} lies outside the file`, filePath);
+    }
+    const index = await readExactly(handle, header.indexPosition, indexEnd - header.indexPosition, filePath);
+    const all = parseDbpfIndex(index, header.entryCount, filePath);
+    const entries = all.filter((entry) => entry.compressionType !== CompressionType.DeletedRecord);
+    return { header, fileSize: size, entries, deletedCount: all.length - entries.length };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read the live (non-deleted) index entries of a package file.
+ *
+ * @throws DbpfFormatError when the header or index is malformed
+ */
+export async function readDbpfIndex(filePath: string): Promise<DbpfIndexEntry[]> {
+  return (await readDbpfFileIndex(filePath)).entries;
+}
+
+/**
+ * Decode the 96-byte header.
+ *
+ * @throws DbpfFormatError on a bad magic or a version other than 2.1
+ */
+export function parseDbpfHeader(buffer: Buffer, filePath?: string): DbpfHeader {
+  if (buffer.length < DBPF_HEADER_SIZE || buffer.toString('latin1', 0, 4) !== 'DBPF') {
+    throw new DbpfFormatError('Not a package file', filePath);
+  }
+  const majorVersion = buffer.readUInt32LE(4);
+  const minorVersion = buffer.readUInt32LE(8);
+  if (majorVersion !== 2 || minorVersion !== 1) {
+    throw new DbpfFormatError(`Expected DBPF version 2.1, got ${majorVersion}.${minorVersion}`, filePath);
+  }
+  const positionLow = buffer.readUInt32LE(40);
+  const position = Number(buffer.readBigUInt64LE(64));
+  return {
+    majorVersion,
+    minorVersion,
+    entryCount: buffer.readUInt32LE(36),
+    indexPosition: position || positionLow,
+    indexSize: buffer.readUInt32LE(44),
+  };
+}
+
+/**
+ * Decode index records, honouring the constant type/group/instance-high flags.
+ *
+ * @throws DbpfFormatError when the index is shorter than its records
+ */
+export function parseDbpfIndex(buffer: Buffer, entryCount: number, filePath?: string): DbpfIndexEntry[] {
+  let offset = 0;
+  const read = (): number => {
+    if (offset + 4 > buffer.length) {
+      throw new DbpfFormatError(`Index is truncated after ${offset} bytes`, filePath);
+    }
+    const value = buffer.readUInt32LE(offset);
+    offset += 4;
+    return value;
+  };
+
+  const flags = read();
+  const constantType = flags & 0b001 ? read() : undefined;
+  const constantGroup = flags & 0b010 ? read() : undefined;
+  const constantInstanceHigh = flags & 0b100 ? read() : undefined;
+
+  const entries: DbpfIndexEntry[] = [];
+  for (let index = 0; index < entryCount; index += 1) {
+    const type = constantType ?? read();
+    const group = constantGroup ?? read();
+    const instanceHigh = constantInstanceHigh ?? read();
+    const instanceLow = read();
+    const position = read();
+    const sizeAndFlag = read();
+    const uncompressedSize = read();
+    // Compression type and the committed flag share the last word; without the
+    // extended flag only the committed half is meaningful.
+    const tail = read();
+    entries.push({
+      key: { type, group, instance: (BigInt(instanceHigh) << 32n) | BigInt(instanceLow) },
+      position,
+      compressedSize: sizeAndFlag & 0x7fffffff,
+      uncompressedSize,
+      compressionType: sizeAndFlag >>> 31 === 1 ? tail & 0xffff : CompressionType.Uncompressed,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Encode a header for an index of `entryCount` records written at `indexPosition`.
+ * User version and the created/modified timestamps are always zero.
+ */
+export function encodeDbpfHeader(entryCount: number, indexPosition: number, indexSize: number): Buffer {
+  const buffer = Buffer.alloc(DBPF_HEADER_SIZE);
+  buffer.write('DBPF', 0, 'latin1');
+  buffer.writeUInt32LE(2, 4);
+  buffer.writeUInt32LE(1, 8);
+  buffer.writeUInt32LE(entryCount, 36);
+  buffer.writeUInt32LE(indexSize, 44);
+  buffer.writeUInt32LE(3, 60);
+  buffer.writeBigUInt64LE(BigInt(indexPosition), 64);
+  return buffer;
+}
+
+/**
+ * Encode index records in the same layout S4TK writes: no constant fields, every
+ * record extended, committed flag set.
+ */
+export function encodeDbpfIndex(entries: DbpfIndexEntry[]): Buffer {
+  const buffer = Buffer.alloc(DBPF_INDEX_FLAGS_SIZE + entries.length * DBPF_INDEX_ENTRY_SIZE);
+  let offset = DBPF_INDEX_FLAGS_SIZE;
+  for (const entry of entries) {
+    buffer.writeUInt32LE(entry.key.type, offset);
+    buffer.writeUInt32LE(entry.key.group, offset + 4);
+    buffer.writeUInt32LE(Number(entry.key.instance >> 32n), offset + 8);
+    buffer.writeUInt32LE(Number(entry.key.instance & 0xffffffffn), offset + 12);
+    buffer.writeUInt32LE(entry.position, offset + 16);
+    buffer.writeUInt32LE((entry.compressedSize | 0x80000000) >>> 0, offset + 20);
+    buffer.writeUInt32LE(entry.uncompressedSize, offset + 24);
+    buffer.writeUInt16LE(entry.compressionType, offset + 28);
+    buffer.writeUInt16LE(1, offset + 30);
+    offset += DBPF_INDEX_ENTRY_SIZE;
+  }
+  return buffer;
+}
+
+/**
+ * Decode a stored payload into the resource bytes.
+ *
+ * @throws Error for unknown compression types or corrupt streams
+ */
+export function decompressPayload(payload: Buffer, compressionType: number): Buffer {
+  switch (compressionType) {
+    case CompressionType.Uncompressed:
+    case CompressionType.DeletedRecord:
+      return payload;
+    case CompressionType.ZLIB:
+      return inflateSync(payload);
+    case CompressionType.InternalCompression:
+    case CompressionType.StreamableCompression:
+      return decompressRefPack(payload);
+    default:
+      throw new Error(`Unsupported compression type 0x${compressionType.toString(16).padStart(4, '0')}`);
+  }
+}
+
+/**
+ * Worker pool task for the sha256 of a payload's resource bytes. zlib payloads are
+ * inflated by the pool; RefPack is decoded here, as the pool only knows zlib.
+ *
+ * @throws Error for unknown compression types or corrupt RefPack streams
+ */
+export function payloadDigestTask(payload: Buffer, compressionType: number): DigestTask {
+  return compressionType === CompressionType.ZLIB
+    ? { kind: 'digest', algorithm: 'sha256', data: payload, inflate: true }
+    : { kind: 'digest', algorithm: 'sha256', data: decompressPayload(payload, compressionType) };
+}
+
+/**
+ * Read the stored (still compressed) bytes of one index entry.
+ */
+export async function readDbpfPayload(handle: FileHandle, entry: DbpfIndexEntry, filePath?: string): Promise<Buffer> {
+  return readExactly(handle, entry.position, entry.compressedSize, filePath);
+}
+
+async function readExactly(handle: FileHandle, position: number, length: number, filePath?: string): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new DbpfFormatError(`Expected ${length} bytes at offset ${position}, got ${bytesRead}`, filePath);
+  }
+  return buffer;
+}
@@ -0,0 +1,235 @@
+// Merge metadata: schema, canonical encoding and validation for the Group 0 METG resource.
+// Encoding: UTF-8 JSON with recursively sorted keys and no insignificant whitespace.
+
+/**
+ * Resource type of the merge metadata resource ("METG")
+ */
+export const METADATA_TYPE = 0x4d455447;
+export const METADATA_GROUP = 0;
+export const METADATA_INSTANCE = 0n;
+export const METADATA_VERSION = '1.0';
+
+/**
+ * One resource contributed by an original package
+ */
+export interface MergeMetadataEntry {
+  type: string;
+  group: string;
+  instance: string;
+  dataHash?: string;
+}
+
+/**
+ * Range of merged-package entry indices (inclusive) belonging to one original package
+ */
+export interface ResourceRange {
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Everything recorded about one original package
+ */
+export interface OriginalPackageMetadata {
+  basename: string;
+  relPath?: string;
+  pathHash?: string;
+  inputRootHash?: string;
+  size: number;
+  /** Written by older versions only; input timestamps are not recorded so merges stay reproducible */
+  mtime?: number;
+  resourceCount: number;
+  keptCount?: number;
+  overwrittenCount?: number;
+  /** Resources dropped as exact copies of one already merged; only recorded when deduplication is on */
+  dedupedCount?: number;
+  resourceRanges: ResourceRange[];
+  entries: MergeMetadataEntry[];
+}
+
+/**
+ * Merge metadata stored inside every merged package
+ *
+ * No timestamps are stored, neither of the merge nor of the inputs, so identical
+ * inputs keep producing identical bytes.
+ */
+export interface MergeMetadata {
+  version: string;
+  toolVersion: string;
+  s4tkVersion: string;
+  originalPackages: OriginalPackageMetadata[];
+  mergeOptions: {
+    deduplication: boolean;
+    compression: boolean;
+    collisionPolicy?: 'keep-last' | 'keep-first' | 'shadow-original';
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Raised when a metadata resource is present but cannot be decoded or fails validation
+ */
+export class MergeMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MergeMetadataError';
+  }
+}
+
+const HEX_8 = /^0x[0-9a-f]{8}$/u;
+const HEX_16 = /^0x[0-9a-f]{16}$/u;
+const SHA256 = /^[0-9a-f]{64}$/u;
+const COLLISION_POLICIES = ['keep-last', 'keep-first', 'shadow-original'];
+
+/**
+ * Serialize a JSON-compatible value with recursively sorted object keys and no
+ * whitespace, so equal values always produce identical bytes.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort();
+    const members = keys.map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Encode metadata as the UTF-8 payload of the METG resource.
+ */
+export function encodeMergeMetadata(metadata: MergeMetadata): Buffer {
+  return Buffer.from(canonicalJson(metadata), 'utf8');
+}
+
+/**
+ * Decode and validate a METG payload.
+ *
+ * @throws MergeMetadataError when the payload is not valid JSON, uses an
+ * unsupported version, or does not match the schema.
+ */
+export function decodeMergeMetadata(payload: Buffer): MergeMetadata {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload.toString('utf8'));
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new MergeMetadataError(`Merge metadata is not valid JSON: ${detail}`);
+  }
+  validateMergeMetadata(parsed);
+  return parsed;
+}
+
+/**
+ * Assert that a decoded value matches the MergeMetadata schema.
+ */
+export function validateMergeMetadata(value: unknown): asserts value is MergeMetadata {
+  const root = expectObject(value, 'metadata');
+  const version = expectString(root.version, 'version');
+  if (version.split('.')[0] !== METADATA_VERSION.split('.')[0]) {
+    throw new MergeMetadataError(`Unsupported merge metadata version '${version}' (expected ${METADATA_VERSION})`);
+  }
+  expectString(root.toolVersion, 'toolVersion');
+  expectString(root.s4tkVersion, 's4tkVersion');
+
+  const options = expectObject(root.mergeOptions, 'mergeOptions');
+  expectBoolean(options.deduplication, 'mergeOptions.deduplication');
+  expectBoolean(options.compression, 'mergeOptions.compression');
+  if (options.collisionPolicy !== undefined && !COLLISION_POLICIES.includes(options.collisionPolicy as string)) {
+    throw new MergeMetadataError(`mergeOptions.collisionPolicy has unknown value '${String(options.collisionPolicy)}'`);
+  }
+
+  if (!Array.isArray(root.originalPackages)) {
+    throw new MergeMetadataError('originalPackages must be an array');
+  }
+  root.originalPackages.forEach((item, index) => validateOriginalPackage(item, `originalPackages[${index}]`));
+}
+
+function validateOriginalPackage(value: unknown, path: string): void {
+  const original = expectObject(value, path);
+  expectString(original.basename, `${path}.basename`);
+  for (const field of ['relPath', 'pathHash', 'inputRootHash']) {
+    if (original[field] !== undefined) {
+      expectString(original[field], `${path}.${field}`);
+    }
+  }
+  for (const field of ['pathHash', 'inputRootHash']) {
+    if (original[field] !== undefined && !SHA256.test(original[field] as string)) {
+      throw new MergeMetadataError(`${path}.${field} must be a lowercase sha256 hex digest`);
+    }
+  }
+  for (const field of ['size', 'resourceCount']) {
+    expectCount(original[field], `${path}.${field}`);
+  }
+  for (const field of ['mtime', 'keptCount', 'overwrittenCount', 'dedupedCount']) {
+    if (original[field] !== undefined) {
+      expectCount(original[field], `${path}.${field}`);
+    }
+  }
+
+  if (!Array.isArray(original.resourceRanges)) {
+    throw new MergeMetadataError(`${path}.resourceRanges must be an array`);
+  }
+  original.resourceRanges.forEach((item, index) => {
+    const range = expectObject(item, `${path}.resourceRanges[${index}]`);
+    const start = expectCount(range.startIndex, `${path}.resourceRanges[${index}].startIndex`);
+    const end = expectCount(range.endIndex, `${path}.resourceRanges[${index}].endIndex`);
+    if (end < start) {
+      throw new MergeMetadataError(`${path}.resourceRanges[${index}] ends before it starts`);
+    }
+  });
+
+  if (!Array.isArray(original.entries)) {
+    throw new MergeMetadataError(`${path}.entries must be an array`);
+  }
+  original.entries.forEach((item, index) => {
+    const entryPath = `${path}.entries[${index}]`;
+    const entry = expectObject(item, entryPath);
+    expectPattern(entry.type, HEX_8, `${entryPath}.type`);
+    expectPattern(entry.group, HEX_8, `${entryPath}.group`);
+    expectPattern(entry.instance, HEX_16, `${entryPath}.instance`);
+    if (entry.dataHash !== undefined) {
+      expectPattern(entry.dataHash, SHA256, `${entryPath}.dataHash`);
+    }
+  });
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new MergeMetadataError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new MergeMetadataError(`${path} must be a string`);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new MergeMetadataError(`${path} must be a boolean`);
+  }
+  return value;
+}
+
+function expectCount(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    throw new MergeMetadataError(`${path} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function expectPattern(value: unknown, pattern: RegExp, path: string): string {
+  const text = expectString(value, path);
+  if (!pattern.test(text)) {
+    throw new MergeMetadataError(`${path} has non-canonical value '${text}'`);
+  }
+  return text;
+}
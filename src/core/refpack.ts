@@ -0,0 +1,118 @@
+// RefPack: Decoder for the LZ77 variant EA calls "internal compression" (DBPF type 0xFFFF).
+
+/**
+ * Raised when a RefPack stream is truncated or refers outside its own output
+ */
+export class RefPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefPackError';
+  }
+}
+
+const REFPACK_MAGIC = 0xfb;
+
+/**
+ * Decompress a RefPack stream.
+ *
+ * The header is a flags byte, the 0xFB magic, an optional compressed size and the
+ * uncompressed size; sizes are 4 bytes when flag 0x80 is set and 3 bytes otherwise.
+ * The body is a sequence of control codes, each copying literal bytes and/or
+ * repeating earlier output, ending with a 0xFC-0xFF code.
+ *
+ * @throws RefPackError when the stream is malformed
+ */
+export function decompressRefPack(data: Buffer): Buffer {
+  if (data.length < 5 || data[1] !== REFPACK_MAGIC) {
+    throw new RefPackError('Missing RefPack header');
+  }
+
+  const flags = data[0];
+  const sizeBytes = flags & 0x80 ? 4 : 3;
+  let offset = 2;
+  if (flags & 0x01) {
+    offset += sizeBytes;
+  }
+  const outputSize = readSize(data, offset, sizeBytes);
+  offset += sizeBytes;
+
+  const output = Buffer.alloc(outputSize);
+  let written = 0;
+
+  for (;;) {
+    const control = byteAt(data, offset);
+    let literal: number;
+    let copyLength = 0;
+    let copyOffset = 0;
+
+    if (control <= 0x7f) {
+      const next = byteAt(data, offset + 1);
+      literal = control & 0x03;
+      copyLength = ((control & 0x1c) >> 2) + 3;
+      copyOffset = ((control & 0x60) << 3) + next + 1;
+      offset += 2;
+    } else if (control <= 0xbf) {
+      const b1 = byteAt(data, offset + 1);
+      const b2 = byteAt(data, offset + 2);
+      literal = b1 >> 6;
+      copyLength = (control & 0x3f) + 4;
+      copyOffset = ((b1 & 0x3f) << 8) + b2 + 1;
+      offset += 3;
+    } else if (control <= 0xdf) {
+      const b1 = byteAt(data, offset + 1);
+      const b2 = byteAt(data, offset + 2);
+      const b3 = byteAt(data, offset + 3);
+      literal = control & 0x03;
+      copyLength = ((control & 0x0c) << 6) + b3 + 5;
+      copyOffset = ((control & 0x10) << 12) + (b1 << 8) + b2 + 1;
+      offset += 4;
+    } else if (control <= 0xfb) {
+      literal = ((control & 0x1f) << 2) + 4;
+      offset += 1;
+    } else {
+      literal = control & 0x03;
+      offset += 1;
+    }
+
+    if (offset + literal > data.length || written + literal > outputSize) {
+      throw new RefPackError('RefPack literal run exceeds the stream');
+    }
+    data.copy(output, written, offset, offset + literal);
+    offset += literal;
+    written += literal;
+
+    if (copyLength > 0) {
+      if (copyOffset > written || written + copyLength > outputSize) {
+        throw new RefPackError('RefPack back-reference exceeds the output');
+      }
+      // Byte by byte: the source may overlap the bytes being written.
+      for (let index = 0; index < copyLength; index += 1) {
+        output[written + index] = output[written + index - copyOffset];
+      }
+      written += copyLength;
+    }
+
+    if (control >= 0xfc) {
+      break;
+    }
+  }
+
+  if (written !== outputSize) {
+    throw new RefPackError(`RefPack stream produced ${written} of ${outputSize} bytes`);
+  }
+  return output;
+}
+
+function readSize(data: Buffer, offset: number, sizeBytes: number): number {
+  if (offset + sizeBytes > data.length) {
+    throw new RefPackError('Truncated RefPack header');
+  }
+  return sizeBytes === 4 ? data.readUInt32BE(offset) : data.readUIntBE(offset, 3);
+}
+
+function byteAt(data: Buffer, offset: number): number {
+  if (offset >= data.length) {
+    throw new RefPackError('Truncated RefPack stream');
+  }
+  return data[offset];
+}
@@ -0,0 +1,306 @@
+// Resource types: Human-readable names and coarse categories for known Sims 4 resource type IDs.
+// The built-in table can be extended (or overridden) from a local JSON file.
+import { promises as fs } from 'node:fs';
+import { METADATA_TYPE } from './metadata.js';
+
+/**
+ * Coarse grouping of resource types; `unknown` is used for types not in the registry
+ */
+export type ResourceCategory =
+  | 'cas'
+  | 'build-buy'
+  | 'tuning'
+  | 'simdata'
+  | 'string-table'
+  | 'image'
+  | 'animation'
+  | 'metadata'
+  | 'other'
+  | 'unknown';
+
+export const RESOURCE_CATEGORIES: readonly ResourceCategory[] = [
+  'cas',
+  'build-buy',
+  'tuning',
+  'simdata',
+  'string-table',
+  'image',
+  'animation',
+  'metadata',
+  'other',
+  'unknown',
+];
+
+/**
+ * Name and category of one resource type
+ */
+export interface ResourceTypeDescriptor {
+  name: string;
+  category: ResourceCategory;
+}
+
+/**
+ * Invalid resource type extension file
+ */
+export class ResourceTypeRegistryError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath === undefined ? message : `${filePath}: ${message}`);
+    this.name = 'ResourceTypeRegistryError';
+  }
+}
+
+const BUILT_IN_TYPES: [number, string, ResourceCategory][] = [
+  // CAS
+  [0x034aeecb, 'CASP', 'cas'],
+  [0x015a1849, 'GEOM', 'cas'],
+  [0xb52f5055, 'BGEO', 'cas'],
+  [0x0355e0a6, 'BOND', 'cas'],
+  [0xdb43e069, 'DMAP', 'cas'],
+  [0xac16fbec, 'RMAP', 'cas'],
+  [0x0354796a, 'TONE', 'cas'],
+  [0x025ed6f4, 'SIMO', 'cas'],
+  // Build/Buy
+  [0xc0db5ae7, 'OBJD', 'build-buy'],
+  [0x319e4f1d, 'COBJ', 'build-buy'],
+  [0x01661233, 'MODL', 'build-buy'],
+  [0x01d10f34, 'MLOD', 'build-buy'],
+  [0xd382bf57, 'FTPT', 'build-buy'],
+  [0xd3044521, 'RSLT', 'build-buy'],
+  [0x03b4c61d, 'LITE', 'build-buy'],
+  [0xd5f0f921, 'CWAL', 'build-buy'],
+  [0x01d0e75d, 'MATD', 'build-buy'],
+  [0x02019972, 'MTST', 'build-buy'],
+  // Images
+  [0x00b2d882, 'DST', 'image'],
+  [0xb6c8b6a0, 'DDS', 'image'],
+  [0x3453cf95, 'RLE2', 'image'],
+  [0xba856c78, 'RLES', 'image'],
+  [0x2bc04edf, 'LRLE', 'image'],
+  [0x2f7d0004, 'PNG', 'image'],
+  [0x3c1af1f2, 'CAS Thumbnail', 'image'],
+  [0x3c2a8647, 'Build/Buy Thumbnail', 'image'],
+  [0x5b282d45, 'Body Part Thumbnail', 'image'],
+  // Data
+  [0x545ac67a, 'SimData', 'simdata'],
+  [0x220557da, 'STBL', 'string-table'],
+  [0x62e94d38, 'Combined Tuning', 'tuning'],
+  [0x6b20c4f3, 'CLIP', 'animation'],
+  [0xbc4a5044, 'Clip Header', 'animation'],
+  [0x0166038c, 'NameMap', 'other'],
+  [METADATA_TYPE, 'METG', 'metadata'],
+];
+
+// Tuning XML variants, named after their tuning class
+const TUNING_TYPES: [number, string][] = [
+  [0x78559e9e, 'Achievement'],
+  [0x2451c101, 'AchievementCategory'],
+  [0x04d2b465, 'AchievementCollection'],
+  [0x0c772e27, 'Action'],
+  [0xee17c6ad, 'Animation'],
+  [0x28b64675, 'Aspiration'],
+  [0xe350dbd8, 'AspirationCategory'],
+  [0xc020fcad, 'AspirationTrack'],
+  [0xafadac48, 'AwayAction'],
+  [0xec6a8fc6, 'Balloon'],
+  [0x341d3f25, 'Breed'],
+  [0xdebafb73, 'Broadcaster'],
+  [0xec3da10e, 'BucksPerk'],
+  [0x6017e896, 'Buff'],
+  [0x75d807f3, 'Business'],
+  [0xf537b2e0, 'CallToAction'],
+  [0x73996beb, 'Career'],
+  [0x94420322, 'CareerEvent'],
+  [0xccdb0edd, 'CareerGig'],
+  [0x2c70adf8, 'CareerLevel'],
+  [0x48c75ce3, 'CareerTrack'],
+  [0x935a83c2, 'CasMenu'],
+  [0x0cba50f4, 'CasMenuItem'],
+  [0xce04fc4b, 'CasPreferenceCategory'],
+  [0xec68fd22, 'CasPreferenceItem'],
+  [0x80f12d17, 'CasStoriesAnswer'],
+  [0x03246b9d, 'CasStoriesQuestion'],
+  [0x8dad1549, 'CasStoriesTraitChooser'],
+  [0xdebee6a5, 'Clan'],
+  [0x998ed0ab, 'ClanValue'],
+  [0xfa0ffa34, 'ClubInteractionGroup'],
+  [0x2f59b437, 'ClubSeed'],
+  [0x9183dc91, 'ConditionalLayer'],
+  [0x537449f6, 'DetectiveClue'],
+  [0x2553f435, 'DramaNode'],
+  [0xb9881120, 'Ensemble'],
+  [0xe1477e18, 'GameRuleset'],
+  [0xf401205d, 'Headline'],
+  [0x0e316f6d, 'HolidayDefinition'],
+  [0x3fcd2486, 'HolidayTradition'],
+  [0x3972e6f3, 'HouseholdMilestone'],
+  [0xe882d22f, 'Interaction'],
+  [0xfe2db1ab, 'LotDecoration'],
+  [0xde1ef8fb, 'LotDecorationPreset'],
+  [0xd8800d66, 'LotTuning'],
+  [0xba7b60b8, 'Mood'],
+  [0x3e753c39, 'Narrative'],
+  [0x9902fa76, 'NotebookEntry'],
+  [0xb61de6b4, 'Object'],
+  [0x7147a350, 'ObjectPart'],
+  [0x5b02819e, 'ObjectState'],
+  [0x0069453e, 'Objective'],
+  [0x4b6fdec4, 'OpenStreetDirector'],
+  [0x03e9d964, 'PieMenuCategory'],
+  [0xad6fdf1f, 'Posture'],
+  [0xb16ad2fa, 'RabbitHole'],
+  [0xeb97f823, 'Recipe'],
+  [0x51e7a18d, 'Region'],
+  [0x0904df10, 'RelationshipBit'],
+  [0xae34e673, 'RelationshipLock'],
+  [0x6fa49828, 'Reward'],
+  [0x0e4d15fb, 'RoleState'],
+  [0x37ef2ee7, 'Royalty'],
+  [0x51077643, 'Scommodity'],
+  [0xc98dd45e, 'Season'],
+  [0x9cc21262, 'ServiceNpc'],
+  [0xc3fbd8de, 'Sickness'],
+  [0x6e0dda9f, 'SimFilter'],
+  [0xe2581892, 'SimInfoFixup'],
+  [0x0ca4c78b, 'SimTemplate'],
+  [0xfbc3aeeb, 'Situation'],
+  [0x598f28e7, 'SituationGoal'],
+  [0x9df2f1f2, 'SituationGoalSet'],
+  [0x9c07855f, 'SituationJob'],
+  [0x69a5daa4, 'SlotType'],
+  [0x3f163505, 'SlotTypeSet'],
+  [0x7df2169c, 'Snippet'],
+  [0x2e47a104, 'SocialGroup'],
+  [0x1f3413d9, 'Spell'],
+  [0x339bc5bd, 'Statistic'],
+  [0x6224c9d6, 'Strategy'],
+  [0xf6e4cb00, 'Street'],
+  [0xb7ff8f95, 'Subroot'],
+  [0x49395302, 'TagSet'],
+  [0x48c2d5ed, 'TemplateChooser'],
+  [0x4f739cee, 'TestBasedScore'],
+  [0x738e6c56, 'Topic'],
+  [0xcb5fddc7, 'Trait'],
+  [0x03b33ddf, 'Tuning'],
+  [0xe04a24a3, 'Tutorial'],
+  [0x8fb3e0b1, 'TutorialTip'],
+  [0xd958d5b1, 'University'],
+  [0x291cafbe, 'UniversityCourseData'],
+  [0x2758b34b, 'UniversityMajor'],
+  [0xb8bf1a63, 'UserInterfaceInfo'],
+  [0xe6bbd7de, 'Venue'],
+  [0x3fd6243e, 'WalkBy'],
+  [0x5806f5ba, 'WeatherEvent'],
+  [0x497f3271, 'WeatherForecast'],
+  [0x749a0636, 'Whim'],
+  [0xf958a092, 'ZoneDirector'],
+  [0x3c1d8799, 'ZoneModifier'],
+];
+
+const builtIn = new Map<number, ResourceTypeDescriptor>([
+  ...BUILT_IN_TYPES.map(([type, name, category]): [number, ResourceTypeDescriptor] => [type, { name, category }]),
+  ...TUNING_TYPES.map(([type, name]): [number, ResourceTypeDescriptor] => [
+    type,
+    { name: name === 'Tuning' ? 'Tuning' : `${name} Tuning`, category: 'tuning' },
+  ]),
+]);
+
+let registry = new Map(builtIn);
+
+/**
+ * Name and category of a resource type, or undefined when it is not registered
+ */
+export function lookupResourceType(type: number): ResourceTypeDescriptor | undefined {
+  return registry.get(type >>> 0);
+}
+
+/**
+ * Name and category of a resource type; unregistered types are named by their hex ID
+ */
+export function describeResourceType(type: number): ResourceTypeDescriptor {
+  return lookupResourceType(type) ?? { name: `0x${(type >>> 0).toString(16).padStart(8, '0')}`, category: 'unknown' };
+}
+
+/**
+ * Add or replace registry entries. Later registrations win over earlier ones and the built-ins.
+ */
+export function registerResourceTypes(entries: Iterable<[number, ResourceTypeDescriptor]>): void {
+  for (const [type, descriptor] of entries) {
+    registry.set(type >>> 0, { ...descriptor });
+  }
+}
+
+/**
+ * Drop every registration made since startup and go back to the built-in table.
+ */
+export function resetResourceTypes(): void {
+  registry = new Map(builtIn);
+}
+
+/**
+ * Parse the content of a resource type extension file.
+ *
+ * The file is a JSON object keyed by `0x`-prefixed hex type ID; each value is either a
+ * name or `{ "name": ..., "category": ... }` (category defaults to `other`).
+ *
+ * @throws ResourceTypeRegistryError when the content is not a valid extension file
+ */
+export function parseResourceTypesJson(text: string, filePath?: string): [number, ResourceTypeDescriptor][] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (cause) {
+    throw new ResourceTypeRegistryError(`Invalid JSON: ${(cause as Error).message}`, filePath);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ResourceTypeRegistryError('Expected a JSON object keyed by resource type ID', filePath);
+  }
+
+  const entries: [number, ResourceTypeDescriptor][] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (!/^0x[0-9a-f]{1,8}$/iu.test(key)) {
+      throw new ResourceTypeRegistryError(`Invalid resource type ID '${key}': expected 0x-prefixed 32-bit hex`, filePath);
+    }
+    const type = Number.parseInt(key.slice(2), 16);
+    if (typeof value === 'string') {
+      entries.push([type, { name: requireName(value, key, filePath), category: 'other' }]);
+      continue;
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ResourceTypeRegistryError(`${key} must be a name or an object with a name and category`, filePath);
+    }
+    const { name, category = 'other' } = value as { name?: unknown; category?: unknown };
+    if (typeof category !== 'string' || !RESOURCE_CATEGORIES.includes(category as ResourceCategory)) {
+      throw new ResourceTypeRegistryError(
+        `${key}.category must be one of ${RESOURCE_CATEGORIES.join(', ')}`,
+        filePath,
+      );
+    }
+    entries.push([type, { name: requireName(name, `${key}.name`, filePath), category: category as ResourceCategory }]);
+  }
+  return entries;
+}
+
+/**
+ * Read a resource type extension file and register its entries.
+ *
+ * @returns The number of registered types
+ * @throws ResourceTypeRegistryError when the file cannot be read or is invalid
+ */
+export async function loadResourceTypesFile(filePath: string): Promise<number> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch (cause) {
+    throw new ResourceTypeRegistryError(`Cannot read resource types file: ${(cause as Error).message}`, filePath);
+  }
+  const entries = parseResourceTypesJson(text, filePath);
+  registerResourceTypes(entries);
+  return entries.length;
+}
+
+function requireName(value: unknown, field: string, filePath: string | undefined): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ResourceTypeRegistryError(`${field} must be a non-empty string`, filePath);
+  }
+  return value.trim();
+}
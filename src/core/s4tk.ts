@@ -1,6 +1,36 @@
 // S4TK Adapter: Clean interface for S4TK package operations
-import { Package as S4TKPackage } from '@s4tk/models';
+import { Package as S4TKPackage, RawResource } from '@s4tk/models';
+import { createHash } from 'node:crypto';
 import { promises as fs } from 'node:fs';
+import { createRequire } from 'node:module';
+import { basename } from 'node:path';
+import toolPackageJson from '../../package.json' with { type: 'json' };
+import { loadInOrder, type LoadLimiter } from '../util/concurrency.js';
+import { normalizePath } from '../util/determinism.js';
+import type { WorkerPool } from '../util/worker-pool.js';
+import {
+  DBPF_HEADER_SIZE,
+  DBPF_INDEX_ENTRY_SIZE,
+  DBPF_INDEX_FLAGS_SIZE,
+  DbpfFormatError,
+  readDbpfFileIndex,
+  type DbpfIndex,
+} from './dbpf.js';
+import {
+  decodeMergeMetadata,
+  encodeMergeMetadata,
+  METADATA_GROUP,
+  METADATA_INSTANCE,
+  METADATA_TYPE,
+  METADATA_VERSION,
+  MergeMetadataError,
+  type MergeMetadata,
+  type OriginalPackageMetadata,
+  type ResourceRange,
+} from './metadata.js';
+import { describeResourceType, type ResourceCategory } from './resource-types.js';
+
+export { DBPF_HEADER_SIZE, DBPF_INDEX_ENTRY_SIZE, DBPF_INDEX_FLAGS_SIZE } from './dbpf.js';
 
 /**
  * Opaque wrapper around S4TK Package instance
@@ -17,6 +47,26 @@ export interface S4Package {
 export interface ResourceTypeInfo {
   typeId: string;
   count: number;
+  /** Registry name, or the hex ID for unregistered types */
+  name: string;
+  category: ResourceCategory;
+}
+
+/**
+ * Type/group/instance key identifying a resource
+ */
+export interface ResourceKey {
+  type: number;
+  group: number;
+  instance: bigint;
+}
+
+/**
+ * A single resource entry as seen by callers that do not need the payload
+ */
+export interface ResourceEntryInfo {
+  key: ResourceKey;
+  dataHash?: string;
 }
 
 /**
@@ -62,7 +112,7 @@ export function createEmptyPackage(): S4Package {
     return {
       _internal: pkg,
       resourceCount: 0,
-      estimatedSize: 0,
+      estimatedSize: DBPF_HEADER_SIZE + DBPF_INDEX_FLAGS_SIZE,
     };
   } catch (error) {
     throw new S4TKError('Failed to create empty package', undefined, error as Error);
@@ -99,10 +149,46 @@ export async function loadPackage(filePath: string): Promise<S4Package> {
   }
 }
 
+/**
+ * How resources whose key is already present in the target are handled
+ *
+ * - `shadow-original`: append anyway; the earlier entry stays in the package but is shadowed (append-all)
+ * - `keep-last`: remove the earlier entry and append the incoming one
+ * - `keep-first`: keep the earlier entry and skip the incoming one
+ */
+export type CollisionPolicy = 'keep-last' | 'keep-first' | 'shadow-original';
+
+export const DEFAULT_COLLISION_POLICY: CollisionPolicy = 'shadow-original';
+
+/**
+ * Options for appending resources
+ */
+export interface AppendOptions {
+  collisionPolicy?: CollisionPolicy;
+  /** Drop an incoming resource whose key and payload match one already in the target */
+  dedupeIdentical?: boolean;
+}
+
+/**
+ * Outcome of appending one source package into a target
+ */
+export interface AppendResult {
+  appendedCount: number;
+  collidingKeys: ResourceKey[];
+  dedupedCount: number;
+}
+
 /**
  * Append all resources from source package to target package
+ *
+ * Collisions are detected against the keys the target held before this call, so
+ * duplicate keys inside a single source package are appended as-is. With
+ * `dedupeIdentical`, a resource that survives the collision policy is still dropped
+ * when the target already holds the same key with byte-identical (uncompressed) data.
  */
-export function appendAllResources(target: S4Package, source: S4Package): void {
+export function appendAllResources(target: S4Package, source: S4Package, options: AppendOptions = {}): AppendResult {
+  const policy = options.collisionPolicy ?? DEFAULT_COLLISION_POLICY;
+
   try {
     // Clone the source package to avoid modifying the original
     const sourceClone = source._internal.clone();
@@ -110,10 +196,38 @@ export function appendAllResources(target: S4Package, source: S4Package): void {
     // Get all entries from source and add to target using the public API
     const entries = sourceClone.entries || [];
     const errors: string[] = [];
+    const collidingKeys: ResourceKey[] = [];
+    const handledKeys = new Set<string>();
+    const existingKeys = new Set(listResourceEntries(target).map((entry) => formatResourceKey(entry.key)));
     let successCount = 0;
+    let dedupedCount = 0;
     
     for (const entry of entries) {
       try {
+        const key = toResourceKey(entry.key);
+        const id = formatResourceKey(key);
+
+        if (existingKeys.has(id)) {
+          if (!handledKeys.has(id)) {
+            handledKeys.add(id);
+            collidingKeys.push(key);
+            if (policy === 'keep-last') {
+              // Only earlier inputs hold this key at this point, so every matching entry goes.
+              for (const existingId of target._internal.getIdsForKey(entry.key)) {
+                target._internal.delete(existingId);
+              }
+            }
+          }
+          if (policy === 'keep-first') {
+            continue;
+          }
+        }
+
+        if (options.dedupeIdentical && holdsIdentical(target, entry.key, entry.value.getBuffer())) {
+          dedupedCount++;
+          continue;
+        }
+
         // Use the public API to add each resource to the target package
         target._internal.add(entry.key, entry.value);
         successCount++;
@@ -135,7 +249,8 @@ export function appendAllResources(target: S4Package, source: S4Package): void {
       const errorSummary = `Failed to append ${errors.length}/${entries.length} resources. Success: ${successCount}, Errors: ${errors.join('; ')}`;
       throw new S4TKError(errorSummary, undefined, new Error('Resource append failures'));
     }
-    
+
+    return { appendedCount: successCount, collidingKeys, dedupedCount };
   } catch (error) {
     if (error instanceof S4TKError) {
       throw error; // Re-throw our custom errors
@@ -144,6 +259,23 @@ export function appendAllResources(target: S4Package, source: S4Package): void {
   }
 }
 
+/**
+ * Whether the target already holds `key` with exactly this uncompressed payload
+ */
+function holdsIdentical(target: S4Package, key: S4TKPackage['entries'][number]['key'], data: Buffer): boolean {
+  const hash = hashBuffer(data);
+  return target._internal
+    .getIdsForKey(key)
+    .some((id) => hashBuffer(target._internal.get(id).value.getBuffer()) === hash);
+}
+
+/**
+ * Copy an S4TK key into our own key shape (instances are always bigint)
+ */
+function toResourceKey(key: { type: number; group: number; instance: bigint | number }): ResourceKey {
+  return { type: key.type, group: key.group, instance: BigInt(key.instance) };
+}
+
 /**
  * Helper function to extract and format resource type ID
  */
@@ -164,6 +296,86 @@ function getResourceTypeId(entry: any): string | undefined {
   return undefined;
 }
 
+/**
+ * Format a resource type ID as lowercase hex with 0x prefix and 8 digits
+ */
+export function formatTypeId(type: number): string {
+  return `0x${(type >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Format a resource group as lowercase hex with 0x prefix and 8 digits
+ */
+export function formatGroupId(group: number): string {
+  return `0x${(group >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Format a resource instance as lowercase hex with 0x prefix and 16 digits
+ */
+export function formatInstanceId(instance: bigint): string {
+  return `0x${BigInt.asUintN(64, instance).toString(16).padStart(16, '0')}`;
+}
+
+/**
+ * Format a full resource key as `type:group:instance` using the canonical hex widths
+ */
+export function formatResourceKey(key: ResourceKey): string {
+  return `${formatTypeId(key.type)}:${formatGroupId(key.group)}:${formatInstanceId(key.instance)}`;
+}
+
+/**
+ * List the resource keys of a package in entry order, optionally hashing payloads.
+ *
+ * `hashData` may be a predicate so callers can restrict the (comparatively
+ * expensive) sha256 of the uncompressed payload to the keys they care about.
+ */
+export function listResourceEntries(
+  pkg: S4Package,
+  options: { hashData?: boolean | ((key: ResourceKey) => boolean) } = {},
+): ResourceEntryInfo[] {
+  try {
+    const entries = pkg._internal.entries || [];
+    const result: ResourceEntryInfo[] = [];
+
+    for (const entry of entries) {
+      const key = toResourceKey(entry.key);
+      const shouldHash = typeof options.hashData === 'function' ? options.hashData(key) : options.hashData === true;
+      result.push(shouldHash ? { key, dataHash: hashBuffer(entry.value.getBuffer()) } : { key });
+    }
+
+    return result;
+  } catch (error) {
+    throw new S4TKError('Failed to list resource entries', undefined, error as Error);
+  }
+}
+
+/**
+ * `listResourceEntries` with every payload hashed, on the pool's worker threads,
+ * in entry order.
+ *
+ * @throws S4TKError when a payload cannot be hashed
+ */
+export async function hashResourceEntries(pkg: S4Package, pool: WorkerPool): Promise<ResourceEntryInfo[]> {
+  const result: ResourceEntryInfo[] = [];
+  const entries = pkg._internal.entries || [];
+  const outcomes = pool.runInOrder(entries, (entry) => ({ kind: 'digest', algorithm: 'sha256', data: entry.value.getBuffer() }) as const);
+  for await (const { item, result: digest, error } of outcomes) {
+    if (error !== undefined) {
+      throw new S4TKError('Failed to hash resource entries', undefined, error);
+    }
+    result.push({ key: toResourceKey(item.key), dataHash: digest.hex });
+  }
+  return result;
+}
+
+/**
+ * sha256 (lowercase hex) of a resource payload
+ */
+function hashBuffer(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
 /**
  * Get total resource count in package
  */
@@ -196,19 +408,10 @@ export function getResourceTypes(pkg: S4Package): Set<string> {
 
 /**
  * Serialize package to buffer
- * 
- * Note: Uses internal S4TK API (_serialize) as no public serialization method is available.
- * This may break if @s4tk/models changes its internal API in future versions.
  */
 export function serializePackage(pkg: S4Package): Buffer {
   try {
-    // Use the public .serialize() method if available, otherwise throw
-    if (typeof (pkg as any).serialize === "function") {
-      return (pkg as any).serialize();
-    }
-    throw new S4TKError(
-      'No public serialize() method available on S4Package; cannot serialize package safely.'
-    );
+    return pkg._internal.getBuffer();
   } catch (error) {
     throw new S4TKError('Failed to serialize package', undefined, error as Error);
   }
@@ -227,12 +430,20 @@ export async function writePackage(pkg: S4Package, filePath: string): Promise<vo
 }
 
 /**
- * Estimate serialized size of package
+ * Serialized size of package in bytes (header + index + compressed payloads)
  */
 export function estimateSerializedSize(pkg: S4Package): number {
   return pkg.estimatedSize;
 }
 
+/**
+ * Size of the payload as the DBPF writer will store it. The compressed buffer is
+ * cached on the resource so serialization does not compress it a second time.
+ */
+function compressedPayloadSize(value: S4TKPackage['entries'][number]['value']): number {
+  return value.getCompressedBuffer(undefined, true).buffer.byteLength;
+}
+
 /**
  * Calculate package statistics
  */
@@ -250,12 +461,12 @@ function calculatePackageStats(pkg: S4TKPackage): PackageStats {
       }
     }
     
-    const uniqueTypes: ResourceTypeInfo[] = Array.from(typeMap.entries()).map(
-      ([typeId, count]) => ({ typeId, count })
-    );
+    const uniqueTypes = toResourceTypeInfo(typeMap);
     
-    // Calculate estimated size (S4TK entry.value is complex, so use reasonable estimate)
-    const estimatedSize = entries.length * 1024; // Reasonable estimate per resource
+    const estimatedSize = entries.reduce(
+      (sum, entry) => sum + DBPF_INDEX_ENTRY_SIZE + compressedPayloadSize(entry.value),
+      DBPF_HEADER_SIZE + DBPF_INDEX_FLAGS_SIZE,
+    );
     
     return {
       resourceCount,
@@ -272,6 +483,26 @@ function calculatePackageStats(pkg: S4TKPackage): PackageStats {
   }
 }
 
+/**
+ * Histogram of resource types with registry names, in first-seen order
+ */
+export function countResourceTypes(types: Iterable<number>): ResourceTypeInfo[] {
+  const typeMap = new Map<string, number>();
+  for (const type of types) {
+    const typeId = formatTypeId(type);
+    typeMap.set(typeId, (typeMap.get(typeId) ?? 0) + 1);
+  }
+  return toResourceTypeInfo(typeMap);
+}
+
+function toResourceTypeInfo(typeMap: Map<string, number>): ResourceTypeInfo[] {
+  return Array.from(typeMap.entries()).map(([typeId, count]) => ({
+    typeId,
+    count,
+    ...describeResourceType(Number.parseInt(typeId, 16)),
+  }));
+}
+
 /**
  * Get detailed package statistics
  */
@@ -279,6 +510,49 @@ export function getPackageStats(pkg: S4Package): PackageStats {
   return calculatePackageStats(pkg._internal);
 }
 
+/**
+ * Read a package file's header and index without loading any resource.
+ *
+ * Use this instead of `loadPackage` when only keys, sizes or counts are needed.
+ */
+export async function readPackageIndex(filePath: string): Promise<DbpfIndex> {
+  try {
+    return await readDbpfFileIndex(filePath);
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err instanceof DbpfFormatError) {
+      throw new PackageCorruptionError(filePath, err);
+    } else if (err.code === 'ENOENT') {
+      throw new PackageLoadError(filePath, new Error('File not found'));
+    }
+    throw new PackageLoadError(filePath, err);
+  }
+}
+
+/**
+ * Resource types present in a package file, read from its index
+ */
+export async function getPackageFileTypes(filePath: string): Promise<Set<string>> {
+  const { entries } = await readPackageIndex(filePath);
+  return new Set(entries.map((entry) => formatTypeId(entry.key.type)));
+}
+
+/**
+ * Statistics for a package file, read from its index. `estimatedSize` is the size
+ * the live entries take when written out again (deleted records dropped).
+ */
+export async function getPackageFileStats(filePath: string): Promise<PackageStats> {
+  const { entries } = await readPackageIndex(filePath);
+  return {
+    resourceCount: entries.length,
+    uniqueTypes: countResourceTypes(entries.map((entry) => entry.key.type)),
+    estimatedSize: entries.reduce(
+      (sum, entry) => sum + DBPF_INDEX_ENTRY_SIZE + entry.compressedSize,
+      DBPF_HEADER_SIZE + DBPF_INDEX_FLAGS_SIZE,
+    ),
+  };
+}
+
 /**
  * Validate package integrity
  */
@@ -292,33 +566,491 @@ export function validatePackageIntegrity(pkg: S4Package): boolean {
   }
 }
 
+/**
+ * Where an input came from, used to record relative paths in merge metadata
+ */
+export interface MergeSourceInfo {
+  relPath?: string;
+  inputRoot?: string;
+}
+
+/**
+ * Options for merging packages
+ */
+export interface MergeOptions {
+  collisionPolicy?: CollisionPolicy;
+  sources?: MergeSourceInfo[];
+  /** Drop resources whose key and payload match one already appended (`--dedupe-identical`) */
+  dedupeIdentical?: boolean;
+  /** Load inputs in parallel through this limiter (`--jobs`); they are still appended in order */
+  limiter?: LoadLimiter;
+  /** Hash (and inflate) payloads on these worker threads instead of the calling thread */
+  pool?: WorkerPool;
+}
+
+/**
+ * Per-input outcome of a merge
+ *
+ * `keptCount` is the number of this input's resources written to the merged package;
+ * `overwrittenCount` the number that lost a key collision to another input. Under
+ * keep-first/keep-last the losers are dropped, so they are not part of `keptCount`;
+ * under shadow-original they are still written but shadowed, so they are counted in
+ * both and `keptCount - overwrittenCount` resources stay visible.
+ * `dedupedCount` is the number dropped as exact copies of a resource already appended.
+ */
+export interface InputMergeStats {
+  path: string;
+  resourceCount: number;
+  keptCount: number;
+  overwrittenCount: number;
+  dedupedCount: number;
+}
+
+/**
+ * Merged package together with per-input statistics and the embedded metadata
+ */
+export interface MergeResult {
+  package: S4Package;
+  inputs: InputMergeStats[];
+  collisionPolicy: CollisionPolicy;
+  metadata: MergeMetadata;
+}
+
+/**
+ * One original package rebuilt from a merged package
+ */
+export interface UnmergedPackage {
+  package: S4Package;
+  originalPath: string;
+  original: OriginalPackageMetadata;
+}
+
 /**
  * Merge multiple packages into one
  */
-export async function mergePackages(filePaths: string[]): Promise<S4Package> {
+export async function mergePackages(filePaths: string[], options: MergeOptions = {}): Promise<S4Package> {
+  if (filePaths.length === 0) {
+    return createEmptyPackage();
+  }
+  const result = await mergePackagesDetailed(filePaths, options);
+  return result.package;
+}
+
+/**
+ * Merge multiple packages into one, enforcing the collision policy and
+ * tracking which input owns each key so that losses can be attributed.
+ *
+ * The merged package always ends with a Group 0 METG resource recording package
+ * boundaries, per-entry keys and payload hashes. METG resources found in the
+ * inputs (from earlier merges) are dropped in favour of the new one.
+ */
+export async function mergePackagesDetailed(filePaths: string[], options: MergeOptions = {}): Promise<MergeResult> {
   try {
-    if (filePaths.length === 0) {
-      return createEmptyPackage();
+    return await mergeSources(
+      loadMergeSources(filePaths, options.sources, options.limiter, options.pool),
+      options.collisionPolicy,
+      options.dedupeIdentical,
+    );
+  } catch (error) {
+    throw new S4TKError('Failed to merge packages', undefined, error as Error);
+  }
+}
+
+/**
+ * Changes to splice into an existing merged package
+ *
+ * `target` and `remove` name an original package by its recorded relative path or,
+ * when that is unambiguous, its base name.
+ */
+export interface MergeUpdate {
+  replace?: Array<{ target: string; path: string; source?: MergeSourceInfo }>;
+  add?: Array<{ path: string; source?: MergeSourceInfo }>;
+  remove?: string[];
+}
+
+/**
+ * One input of an updated merged package: a recorded original carried over from the
+ * merged package (`index` into its originals), or a new file
+ */
+export type MergeUpdateStep =
+  | { kind: 'carried'; index: number; original: OriginalPackageMetadata }
+  | { kind: 'file'; path: string; source?: MergeSourceInfo };
+
+/**
+ * Resolve a merge update against the recorded originals, in the order of the updated
+ * package: remaining originals in their recorded order with replacements in their
+ * slot, then additions.
+ *
+ * @throws S4TKError when a name matches no original, is ambiguous or is named twice
+ */
+export function planMergeUpdate(metadata: MergeMetadata, update: MergeUpdate): MergeUpdateStep[] {
+  const originals = metadata.originalPackages;
+  const touched = new Set<number>();
+  const claim = (name: string): number => {
+    const index = findOriginalIndex(originals, name);
+    if (touched.has(index)) {
+      throw new S4TKError(`Original package '${name}' is named by more than one change`);
     }
-    
-    // Load packages sequentially to avoid memory pressure with large files
-    const packages: S4TKPackage[] = [];
-    for (const filePath of filePaths) {
-      const fileBuffer = await fs.readFile(filePath);
-      packages.push(S4TKPackage.from(fileBuffer));
+    touched.add(index);
+    return index;
+  };
+
+  const replacements = new Map<number, { path: string; source?: MergeSourceInfo }>();
+  for (const change of update.replace ?? []) {
+    const index = claim(change.target);
+    const previous = originals[index].relPath;
+    const derived = previous === undefined ? undefined : { relPath: joinRelPath(previous, basename(change.path)) };
+    replacements.set(index, { path: change.path, source: change.source ?? derived });
+  }
+  const removals = new Set((update.remove ?? []).map(claim));
+
+  const steps: MergeUpdateStep[] = [];
+  originals.forEach((original, index) => {
+    if (removals.has(index)) {
+      return;
     }
-    
-    // Use S4TK's built-in merge functionality with Package objects
-    const mergedPkg = S4TKPackage.merge(packages);
-    
-    const stats = calculatePackageStats(mergedPkg);
-    
-    return {
-      _internal: mergedPkg,
-      resourceCount: stats.resourceCount,
-      estimatedSize: stats.estimatedSize,
-    };
+    const replacement = replacements.get(index);
+    steps.push(replacement === undefined ? { kind: 'carried', index, original } : { kind: 'file', ...replacement });
+  });
+  for (const addition of update.add ?? []) {
+    steps.push({ kind: 'file', path: addition.path, source: addition.source });
+  }
+  return steps;
+}
+
+/**
+ * An input ready to be appended: its resources plus the metadata recorded for it
+ */
+interface PreparedSource {
+  path: string;
+  package: S4Package;
+  original: OriginalPackageMetadata;
+}
+
+/**
+ * Load inputs one at a time so only one source package is held besides the target;
+ * with a limiter, up to `jobs` ahead, weighed by file size against its memory budget.
+ */
+async function* loadMergeSources(
+  filePaths: string[],
+  sources?: MergeSourceInfo[],
+  limiter?: LoadLimiter,
+  pool?: WorkerPool,
+): AsyncGenerator<PreparedSource> {
+  if (limiter === undefined) {
+    for (const [position, filePath] of filePaths.entries()) {
+      yield await loadMergeSource(filePath, sources?.[position], pool);
+    }
+    return;
+  }
+  // A missing file weighs nothing here; its load reports the error in its turn.
+  const sizes = await Promise.all(filePaths.map(async (filePath) => (await fs.stat(filePath).catch(() => undefined))?.size ?? 0));
+  yield* loadInOrder(
+    filePaths.map((_, position) => position),
+    limiter,
+    (position) => sizes[position],
+    (position) => loadMergeSource(filePaths[position], sources?.[position], pool),
+  );
+}
+
+async function loadMergeSource(filePath: string, source?: MergeSourceInfo, pool?: WorkerPool): Promise<PreparedSource> {
+  const pkg = await loadPackage(filePath);
+  removeMergeMetadata(pkg);
+  const fileStats = await fs.stat(filePath);
+  const entries = pool === undefined ? listResourceEntries(pkg, { hashData: true }) : await hashResourceEntries(pkg, pool);
+  return { path: filePath, package: pkg, original: describeOriginal(filePath, fileStats, entries, source) };
+}
+
+/**
+ * Append prepared sources in order under a collision policy and embed the METG metadata
+ */
+async function mergeSources(
+  sources: AsyncIterable<PreparedSource>,
+  policy?: CollisionPolicy,
+  dedupeIdentical = false,
+): Promise<MergeResult> {
+  const collisionPolicy = policy ?? DEFAULT_COLLISION_POLICY;
+  const target = createEmptyPackage();
+  const inputs: InputMergeStats[] = [];
+  const originals: OriginalPackageMetadata[] = [];
+  // Key id -> index of the input whose resource currently wins for that key
+  const owners = new Map<string, number>();
+  // Merged entry -> index of the input it came from
+  const entryOwners = new Map<object, number>();
+
+  for await (const { path, package: source, original } of sources) {
+    const position = inputs.length;
+    inputs.push({
+      path,
+      resourceCount: source.resourceCount,
+      keptCount: source.resourceCount,
+      overwrittenCount: 0,
+      dedupedCount: 0,
+    });
+
+    const { appendedCount, collidingKeys, dedupedCount } = appendAllResources(target, source, { collisionPolicy, dedupeIdentical });
+    const targetEntries = target._internal.entries;
+    for (const entry of targetEntries.slice(targetEntries.length - appendedCount)) {
+      entryOwners.set(entry, position);
+    }
+
+    const sourceKeyCounts = new Map<string, number>();
+    for (const entry of listResourceEntries(source)) {
+      const id = formatResourceKey(entry.key);
+      sourceKeyCounts.set(id, (sourceKeyCounts.get(id) ?? 0) + 1);
+    }
+    accountCollisions(inputs, owners, position, new Set(collidingKeys.map(formatResourceKey)), sourceKeyCounts, collisionPolicy);
+    inputs[position].keptCount -= dedupedCount;
+    inputs[position].dedupedCount = dedupedCount;
+
+    originals.push(original);
+  }
+
+  const ownerByIndex = target._internal.entries.map((entry) => entryOwners.get(entry));
+  const metadata = createMergeMetadata(originals, inputs, ownerByIndex, collisionPolicy, dedupeIdentical);
+  target._internal.add(METADATA_KEY, RawResource.from(encodeMergeMetadata(metadata)));
+  const stats = calculatePackageStats(target._internal);
+  target.resourceCount = stats.resourceCount;
+  target.estimatedSize = stats.estimatedSize;
+
+  return { package: target, inputs, collisionPolicy, metadata };
+}
+
+/**
+ * Update kept/overwritten counts after one input was appended.
+ *
+ * `owners` maps each key id to the input whose resource currently wins for it and is
+ * updated in place. Shared by the in-memory merge and the streaming writer.
+ */
+export function accountCollisions(
+  inputs: InputMergeStats[],
+  owners: Map<string, number>,
+  position: number,
+  colliding: Set<string>,
+  sourceKeyCounts: Map<string, number>,
+  collisionPolicy: CollisionPolicy,
+): void {
+  for (const id of colliding) {
+    const previousOwner = owners.get(id);
+    if (collisionPolicy === 'keep-first') {
+      const lost = sourceKeyCounts.get(id) ?? 0;
+      inputs[position].overwrittenCount += lost;
+      inputs[position].keptCount -= lost;
+    } else if (previousOwner !== undefined) {
+      inputs[previousOwner].overwrittenCount += 1;
+      if (collisionPolicy === 'keep-last') {
+        inputs[previousOwner].keptCount -= 1;
+      }
+    }
+  }
+
+  for (const id of sourceKeyCounts.keys()) {
+    if (!(collisionPolicy === 'keep-first' && colliding.has(id))) {
+      owners.set(id, position);
+    }
+  }
+}
+
+/**
+ * Finish the per-original records (counts and ranges) and wrap them in merge metadata.
+ *
+ * @param ownerByIndex - Input index for every merged entry except the metadata itself
+ * @param dedupeIdentical - Whether identical resources were dropped; only then is `dedupedCount` recorded
+ */
+export function createMergeMetadata(
+  originals: OriginalPackageMetadata[],
+  inputs: InputMergeStats[],
+  ownerByIndex: (number | undefined)[],
+  collisionPolicy: CollisionPolicy,
+  dedupeIdentical = false,
+): MergeMetadata {
+  originals.forEach((original, position) => {
+    original.keptCount = inputs[position].keptCount;
+    original.overwrittenCount = inputs[position].overwrittenCount;
+    original.dedupedCount = dedupeIdentical ? inputs[position].dedupedCount : undefined;
+    original.resourceRanges = collectRanges(ownerByIndex, position);
+  });
+
+  return {
+    version: METADATA_VERSION,
+    toolVersion: toolPackageJson.version,
+    s4tkVersion: resolveS4TKVersion(),
+    originalPackages: originals,
+    mergeOptions: {
+      deduplication: dedupeIdentical,
+      compression: true,
+      collisionPolicy,
+    },
+  };
+}
+
+/**
+ * Resolve a user-supplied name to the index of a recorded original package.
+ * An exact relative-path match wins; otherwise the base name must be unique.
+ */
+function findOriginalIndex(originals: OriginalPackageMetadata[], name: string): number {
+  const wanted = normalizePath(name);
+  const byRelPath = originals.findIndex((original) => original.relPath !== undefined && normalizePath(original.relPath) === wanted);
+  if (byRelPath !== -1) {
+    return byRelPath;
+  }
+
+  const wantedBase = basename(wanted).toLowerCase();
+  const matches = originals
+    .map((original, index) => ({ original, index }))
+    .filter(({ original }) => original.basename.toLowerCase() === wantedBase);
+  if (matches.length === 0) {
+    throw new S4TKError(`No original package named '${name}' in merge metadata`);
+  }
+  if (matches.length > 1) {
+    const candidates = matches.map(({ original }) => original.relPath ?? original.basename).join(', ');
+    throw new S4TKError(`Original package name '${name}' is ambiguous; use the relative path (${candidates})`);
+  }
+  return matches[0].index;
+}
+
+function joinRelPath(previous: string, fileName: string): string {
+  const slash = previous.lastIndexOf('/');
+  return slash === -1 ? fileName : `${previous.slice(0, slash + 1)}${fileName}`;
+}
+
+/**
+ * Check whether a package carries a merge metadata resource
+ */
+export function hasMergeMetadata(pkg: S4Package): boolean {
+  return pkg._internal.hasKey(METADATA_KEY);
+}
+
+/**
+ * Read the merge metadata of a package
+ *
+ * @returns The decoded metadata, or null when the package was not produced by a merge.
+ * @throws S4TKError when the metadata resource exists but is corrupted.
+ */
+export function getMergeMetadata(pkg: S4Package): MergeMetadata | null {
+  if (!hasMergeMetadata(pkg)) {
+    return null;
+  }
+  try {
+    return decodeMergeMetadata(pkg._internal.getByKey(METADATA_KEY).value.getBuffer());
   } catch (error) {
-    throw new S4TKError('Failed to merge packages', undefined, error as Error);
+    throw new S4TKError('Merge metadata is corrupted', undefined, error as Error);
   }
 }
+
+/**
+ * Rebuild the original packages of a merged package from its metadata
+ *
+ * Resources are taken from the recorded `resourceRanges`; resources that were
+ * dropped by a collision policy cannot be recovered and are simply absent.
+ */
+export async function unmergePackage(mergedPackage: S4Package): Promise<UnmergedPackage[]> {
+  const metadata = getMergeMetadata(mergedPackage);
+  if (metadata === null) {
+    throw new S4TKError('Package has no merge metadata; it cannot be unmerged');
+  }
+
+  try {
+    const entries = mergedPackage._internal.entries.filter((entry) => !isMergeMetadataKey(entry.key));
+
+    return metadata.originalPackages.map((original) => {
+      const rebuilt = createEmptyPackage();
+      for (const range of original.resourceRanges) {
+        if (range.endIndex >= entries.length) {
+          throw new MergeMetadataError(
+            `Resource range ${range.startIndex}-${range.endIndex} of '${original.basename}' exceeds ${entries.length} merged entries`,
+          );
+        }
+        for (let index = range.startIndex; index <= range.endIndex; index += 1) {
+          rebuilt._internal.add(entries[index].key, entries[index].value.clone());
+        }
+      }
+
+      const stats = calculatePackageStats(rebuilt._internal);
+      rebuilt.resourceCount = stats.resourceCount;
+      rebuilt.estimatedSize = stats.estimatedSize;
+      return { package: rebuilt, originalPath: original.relPath ?? original.basename, original };
+    });
+  } catch (error) {
+    throw new S4TKError('Failed to unmerge package', undefined, error as Error);
+  }
+}
+
+/**
+ * Installed @s4tk/models version, falling back to the declared dependency range
+ * when the package manifest cannot be resolved (e.g. from a bundled CJS build).
+ */
+function resolveS4TKVersion(): string {
+  try {
+    const require = createRequire(import.meta.url);
+    return (require('@s4tk/models/package.json') as { version: string }).version;
+  } catch {
+    return toolPackageJson.dependencies['@s4tk/models'];
+  }
+}
+
+const METADATA_KEY = { type: METADATA_TYPE, group: METADATA_GROUP, instance: METADATA_INSTANCE };
+
+/**
+ * Whether a key is the METG merge metadata key
+ */
+export function isMergeMetadataKey(key: { type: number; group: number; instance: bigint | number }): boolean {
+  return key.type === METADATA_TYPE && key.group === METADATA_GROUP && BigInt(key.instance) === METADATA_INSTANCE;
+}
+
+/**
+ * Drop METG resources carried over from an earlier merge
+ */
+function removeMergeMetadata(pkg: S4Package): void {
+  for (const id of pkg._internal.getIdsForKey(METADATA_KEY)) {
+    pkg._internal.delete(id);
+  }
+  pkg.resourceCount = pkg._internal.entries.length;
+}
+
+/**
+ * Build the metadata record for one input. Only relative paths are hashed; absolute
+ * paths are never persisted.
+ */
+export function describeOriginal(
+  filePath: string,
+  fileStats: { size: number },
+  entries: ResourceEntryInfo[],
+  source: MergeSourceInfo | undefined,
+): OriginalPackageMetadata {
+  const relPath = source?.relPath === undefined ? undefined : source.relPath.replace(/\\/g, '/');
+  return {
+    basename: basename(filePath),
+    relPath,
+    pathHash: relPath === undefined ? undefined : hashBuffer(Buffer.from(relPath, 'utf8')),
+    inputRootHash: source?.inputRoot === undefined ? undefined : hashBuffer(Buffer.from(source.inputRoot, 'utf8')),
+    size: fileStats.size,
+    resourceCount: entries.length,
+    resourceRanges: [],
+    entries: entries.map((entry) => ({
+      type: formatTypeId(entry.key.type),
+      group: formatGroupId(entry.key.group),
+      instance: formatInstanceId(entry.key.instance),
+      dataHash: entry.dataHash,
+    })),
+  };
+}
+
+/**
+ * Collapse the merged-entry indices owned by one input into inclusive ranges
+ */
+function collectRanges(ownerByIndex: (number | undefined)[], owner: number): ResourceRange[] {
+  const ranges: ResourceRange[] = [];
+  ownerByIndex.forEach((entryOwner, index) => {
+    if (entryOwner !== owner) {
+      return;
+    }
+    const last = ranges[ranges.length - 1];
+    if (last !== undefined && last.endIndex === index - 1) {
+      last.endIndex = index;
+    } else {
+      ranges.push({ startIndex: index, endIndex: index });
+    }
+  });
+  return ranges;
+}
@@ -0,0 +1,504 @@
+// Streaming merge: Build a merged package from input indexes, copying stored payloads
+// straight through to a temp file so memory depends on entry count, not total bytes.
+import { promises as fs } from 'node:fs';
+import { basename } from 'node:path';
+import { LoadLimiter, loadInOrder } from '../util/concurrency.js';
+import { writeStreamAtomic } from '../util/fsx.js';
+import { IN_THREAD_POOL, type WorkerPool } from '../util/worker-pool.js';
+import {
+  CompressionType,
+  DBPF_HEADER_SIZE,
+  DBPF_MAX_POSITION,
+  decompressPayload,
+  encodeDbpfHeader,
+  encodeDbpfIndex,
+  payloadDigestTask,
+  readDbpfIndex,
+  readDbpfPayload,
+  type DbpfIndexEntry,
+} from './dbpf.js';
+import {
+  decodeMergeMetadata,
+  encodeMergeMetadata,
+  METADATA_GROUP,
+  METADATA_INSTANCE,
+  METADATA_TYPE,
+  type MergeMetadata,
+  type OriginalPackageMetadata,
+} from './metadata.js';
+import {
+  accountCollisions,
+  createMergeMetadata,
+  DEFAULT_COLLISION_POLICY,
+  describeOriginal,
+  formatResourceKey,
+  isMergeMetadataKey,
+  planMergeUpdate,
+  S4TKError,
+  type CollisionPolicy,
+  type InputMergeStats,
+  type MergeOptions,
+  type MergeSourceInfo,
+  type MergeUpdate,
+  type ResourceEntryInfo,
+} from './s4tk.js';
+
+/**
+ * Result of streaming one merged package to disk
+ */
+export interface StreamMergeResult {
+  outputPath: string;
+  resourceCount: number;
+  bytes: number;
+  inputs: InputMergeStats[];
+  collisionPolicy: CollisionPolicy;
+  metadata: MergeMetadata;
+}
+
+/**
+ * One input of the streaming writer: a package file, or the stored entries of an
+ * original carried over from a merged package
+ */
+export interface StreamMergeSource {
+  /** File the stored payloads are read from */
+  path: string;
+  /** Relative path and input root recorded for a package file */
+  source?: MergeSourceInfo;
+  /** Entries to copy, in order; the file's own index without METG when omitted */
+  entries?: DbpfIndexEntry[];
+  /** Metadata recorded for a carried-over original; it names the input and is written back */
+  original?: OriginalPackageMetadata;
+}
+
+/**
+ * What one input contributes to a merged package once the collision policy is applied
+ */
+export interface ResolvedInput {
+  path: string;
+  /** Every entry of the input, as the metadata records it */
+  entries: DbpfIndexEntry[];
+  /** The entries that survive the collision policy, in index order */
+  survivors: DbpfIndexEntry[];
+}
+
+interface IndexedInput {
+  source: StreamMergeSource;
+  size: number;
+  entries: DbpfIndexEntry[];
+  survives: boolean[];
+}
+
+/**
+ * One stored payload read from an input, with the sha256 of its decompressed data
+ * when it was needed
+ */
+interface LoadedEntry {
+  entry: DbpfIndexEntry;
+  payload: Buffer;
+  dataHash: string;
+}
+
+/**
+ * Merge packages into `outputPath` without loading them through S4TK.
+ *
+ * Pass one reads every input's index and applies the collision policy to decide
+ * which entries survive. Pass two copies the stored bytes of the survivors, in
+ * input order, into a temp file created next to the output, then appends the METG
+ * metadata and the index and fills in the header before the atomic rename.
+ * Payloads are never recompressed; each one is decompressed once, on its own,
+ * only to compute the data hash recorded in the metadata, by `options.pool` when
+ * given (in input and index order either way). With `dedupeIdentical`,
+ * that hash also drops a survivor whose key and data match an entry already written.
+ * The hash is of the decompressed bytes, not the stored ones, because it must match
+ * what the in-memory merge records and what unmerge, update and verify compare
+ * against, and because the same resource may be stored with different compression
+ * in different inputs. Originals carried over by an update already have their
+ * hashes recorded, so their payloads are only decompressed to deduplicate.
+ *
+ * The layout is canonical, so identical inputs and options give identical bytes
+ * regardless of cwd, file times, locale or time zone: the header carries no
+ * timestamps, payloads and index records follow merge order (input order, then
+ * each input's own index order), and the METG resource comes last, stored
+ * uncompressed so its bytes do not depend on the zlib build. Index records hold
+ * 32-bit positions, so an output whose payloads would pass 4 GiB is rejected
+ * before anything is written.
+ *
+ * With `options.limiter` (`--jobs`), indexes are read and whole inputs are loaded
+ * and hashed ahead of the writer, in parallel and within the limiter's memory
+ * budget; the writer still appends them in input order, so the bytes are the same
+ * as without it. Without a limiter only one payload is held at a time.
+ *
+ * The result matches `mergePackagesDetailed` entry for entry: same order, same
+ * counts, same metadata.
+ */
+export async function streamMergePackages(
+  filePaths: string[],
+  outputPath: string,
+  options: MergeOptions = {},
+): Promise<StreamMergeResult> {
+  const sources = filePaths.map((path, position) => ({ path, source: options.sources?.[position] }));
+  const [result] = await streamMergeSources(sources, () => outputPath, allInOnePart, options);
+  return result;
+}
+
+/**
+ * Replace, remove or add inputs of a merged package and write the result with the
+ * streaming writer, so it has the bytes a fresh merge of the same inputs would have.
+ *
+ * Remaining originals are copied from `mergedPath` using their recorded ranges and
+ * keep their recorded metadata; new files are read whole. The recorded collision
+ * policy and deduplication apply. `outputPath` may be `mergedPath` itself.
+ */
+export async function streamUpdatePackage(
+  mergedPath: string,
+  update: MergeUpdate,
+  outputPath: string,
+  options: Pick<MergeOptions, 'limiter' | 'pool'> = {},
+): Promise<StreamMergeResult> {
+  const { sources, metadata } = await updateSources(mergedPath, update);
+  const [result] = await streamMergeSources(sources, () => outputPath, allInOnePart, {
+    ...options,
+    collisionPolicy: metadata.mergeOptions.collisionPolicy,
+    dedupeIdentical: metadata.mergeOptions.deduplication,
+  });
+  return result;
+}
+
+/**
+ * Plan `streamUpdatePackage` without writing anything: the inputs of the updated
+ * package, in order and named as its metadata would name them, with what each keeps
+ * under the recorded collision policy. Only the merged package's index and metadata
+ * and the new files' indexes are read, so deduplication drops are not counted.
+ */
+export async function planStreamUpdate(
+  mergedPath: string,
+  update: MergeUpdate,
+): Promise<{ inputs: InputMergeStats[]; collisionPolicy: CollisionPolicy }> {
+  const { sources, metadata } = await updateSources(mergedPath, update);
+  const collisionPolicy = metadata.mergeOptions.collisionPolicy ?? DEFAULT_COLLISION_POLICY;
+  const { inputs } = await resolveSurvivors(sources, collisionPolicy);
+  sources.forEach(({ path, source, original }, position) => {
+    if (original === undefined) {
+      inputs[position].path = source?.relPath?.replace(/\\/g, '/') ?? basename(path);
+    }
+  });
+  return { inputs, collisionPolicy };
+}
+
+/**
+ * The streaming writer's inputs for an update of `mergedPath`: remaining originals as
+ * their recorded ranges of the merged package, new files whole.
+ */
+async function updateSources(
+  mergedPath: string,
+  update: MergeUpdate,
+): Promise<{ sources: StreamMergeSource[]; metadata: MergeMetadata }> {
+  const { entries, metadata } = await readMergedPackage(mergedPath);
+  if (metadata === undefined) {
+    throw new S4TKError('Package has no merge metadata; it cannot be updated in place', mergedPath);
+  }
+
+  const sources = planMergeUpdate(metadata, update).map((step): StreamMergeSource => {
+    if (step.kind === 'file') {
+      return { path: step.path, source: step.source };
+    }
+    const carried: DbpfIndexEntry[] = [];
+    for (const range of step.original.resourceRanges) {
+      if (range.endIndex >= entries.length) {
+        throw new S4TKError(
+          `Resource range ${range.startIndex}-${range.endIndex} of '${step.original.basename}' exceeds ${entries.length} merged entries`,
+          mergedPath,
+        );
+      }
+      carried.push(...entries.slice(range.startIndex, range.endIndex + 1));
+    }
+    return { path: mergedPath, entries: carried, original: step.original };
+  });
+  return { sources, metadata };
+}
+
+/**
+ * Merge packages like `streamMergePackages`, split into several output files.
+ *
+ * The collision policy is resolved over all inputs before anything is written, and
+ * deduplication compares against every part written so far, so the parts together
+ * hold exactly the resources of the unsplit merge. `splitParts` then groups the
+ * inputs (by position, consecutive, never splitting one) from what each still
+ * contributes; part n is written to `outputPathFor(n)` with metadata for its own inputs.
+ *
+ * @returns One result per part, in part order
+ */
+export async function streamMergePackagesInParts(
+  filePaths: string[],
+  outputPathFor: (part: number) => string,
+  splitParts: (inputs: ResolvedInput[]) => number[][],
+  options: MergeOptions = {},
+): Promise<StreamMergeResult[]> {
+  const sources = filePaths.map((path, position) => ({ path, source: options.sources?.[position] }));
+  return streamMergeSources(sources, outputPathFor, splitParts, options);
+}
+
+/**
+ * Write the merged package of `sources`, in parts; see `streamMergePackagesInParts`.
+ */
+async function streamMergeSources(
+  sources: StreamMergeSource[],
+  outputPathFor: (part: number) => string,
+  splitParts: (inputs: ResolvedInput[]) => number[][],
+  options: Omit<MergeOptions, 'sources'>,
+): Promise<StreamMergeResult[]> {
+  const collisionPolicy = options.collisionPolicy ?? DEFAULT_COLLISION_POLICY;
+  let outputPath = outputPathFor(1);
+
+  try {
+    const { indexed, inputs } = await resolveSurvivors(sources, collisionPolicy, options.limiter);
+    const parts = splitParts(
+      indexed.map((input, position) => ({
+        path: inputs[position].path,
+        entries: input.entries,
+        survivors: input.entries.filter((_, index) => input.survives[index]),
+      })),
+    );
+    for (const [part, positions] of parts.entries()) {
+      const payloadBytes = positions.reduce((sum, position) => sum + survivorBytes(indexed[position]), 0);
+      // The METG resource starts right after the payloads, so its position must fit too
+      if (DBPF_HEADER_SIZE + payloadBytes > DBPF_MAX_POSITION) {
+        outputPath = outputPathFor(part + 1);
+        throw new Error(
+          `Resources take ${payloadBytes} bytes, more than the 4 GiB a package index can address; split the output into parts`,
+        );
+      }
+    }
+    // Carried-over originals keep their recorded hashes; theirs are only needed to dedupe
+    const read = (input: IndexedInput): AsyncGenerator<LoadedEntry> =>
+      readEntries(input, options.pool ?? IN_THREAD_POOL, input.source.original === undefined || options.dedupeIdentical === true);
+    const loaded: AsyncIterable<LoadedEntry[]> | Array<AsyncIterable<LoadedEntry>> =
+      options.limiter === undefined
+        ? indexed.map(read)
+        : loadInOrder(
+            indexed,
+            options.limiter,
+            (input) => input.entries.reduce((sum, entry) => sum + entry.compressedSize, 0),
+            async (input) => {
+              const entries: LoadedEntry[] = [];
+              for await (const entry of read(input)) {
+                entries.push(entry);
+              }
+              return entries;
+            },
+          );
+    // Shared by all parts, which take their inputs from it in turn
+    const pending = (async function* () {
+      yield* loaded;
+    })();
+    // Key id -> data hashes already written to any part, for --dedupe-identical
+    const written = new Map<string, Set<string>>();
+    const results: StreamMergeResult[] = [];
+
+    try {
+      for (const [part, positions] of parts.entries()) {
+        outputPath = outputPathFor(part + 1);
+        const partInputs = positions.map((position) => inputs[position]);
+        let resourceCount = 0;
+        let bytes = 0;
+        let metadata: MergeMetadata | undefined;
+
+        await writeStreamAtomic(outputPath, async (out) => {
+          let offset = DBPF_HEADER_SIZE;
+          await out.write(Buffer.alloc(DBPF_HEADER_SIZE), 0, DBPF_HEADER_SIZE, 0);
+
+          const merged: DbpfIndexEntry[] = [];
+          const ownerByIndex: number[] = [];
+          const originals: OriginalPackageMetadata[] = [];
+
+          for (const [local, position] of positions.entries()) {
+            const next = await pending.next();
+            if (next.done === true) {
+              throw new Error(`Input ${position + 1} was not loaded`);
+            }
+            const input = indexed[position];
+            const described: ResourceEntryInfo[] = [];
+            let index = 0;
+            for await (const { entry, payload, dataHash } of next.value) {
+              described.push({ key: entry.key, dataHash });
+              if (!input.survives[index++]) {
+                continue;
+              }
+              if (options.dedupeIdentical) {
+                const id = formatResourceKey(entry.key);
+                const hashes = written.get(id) ?? new Set<string>();
+                if (hashes.has(dataHash)) {
+                  inputs[position].keptCount -= 1;
+                  inputs[position].dedupedCount += 1;
+                  continue;
+                }
+                hashes.add(dataHash);
+                written.set(id, hashes);
+              }
+              await out.write(payload, 0, payload.length, offset);
+              merged.push({ ...entry, position: offset });
+              ownerByIndex.push(local);
+              offset += payload.length;
+            }
+            const { path, source, original } = input.source;
+            originals.push(
+              original === undefined ? describeOriginal(path, input, described, source) : { ...original, resourceRanges: [] },
+            );
+          }
+
+          metadata = createMergeMetadata(originals, partInputs, ownerByIndex, collisionPolicy, options.dedupeIdentical);
+          const encoded = encodeMergeMetadata(metadata);
+          await out.write(encoded, 0, encoded.length, offset);
+          merged.push({
+            key: { type: METADATA_TYPE, group: METADATA_GROUP, instance: METADATA_INSTANCE },
+            position: offset,
+            compressedSize: encoded.length,
+            uncompressedSize: encoded.length,
+            compressionType: CompressionType.Uncompressed,
+          });
+          offset += encoded.length;
+
+          const index = encodeDbpfIndex(merged);
+          await out.write(index, 0, index.length, offset);
+          await out.write(encodeDbpfHeader(merged.length, offset, index.length), 0, DBPF_HEADER_SIZE, 0);
+
+          resourceCount = merged.length;
+          bytes = offset + index.length;
+        });
+
+        results.push({ outputPath, resourceCount, bytes, inputs: partInputs, collisionPolicy, metadata: metadata as MergeMetadata });
+      }
+    } finally {
+      // Releases what the loader still holds for the last input
+      await pending.return(undefined);
+    }
+    return results;
+  } catch (error) {
+    throw new S4TKError('Failed to merge packages', outputPath, error as Error);
+  }
+}
+
+function allInOnePart(inputs: ResolvedInput[]): number[][] {
+  return [inputs.map((_, position) => position)];
+}
+
+/**
+ * Pass one: read every index and replay the collision policy over the keys.
+ * METG entries from earlier merges are dropped, as the in-memory merge does.
+ */
+async function resolveSurvivors(
+  sources: StreamMergeSource[],
+  collisionPolicy: CollisionPolicy,
+  limiter: LoadLimiter = new LoadLimiter(1, 0),
+): Promise<{ indexed: IndexedInput[]; inputs: InputMergeStats[] }> {
+  const indexed: IndexedInput[] = [];
+  const inputs: InputMergeStats[] = [];
+  const owners = new Map<string, number>();
+  // Key id -> merged slots currently holding that key, as [input, entry] pairs
+  const live = new Map<string, [number, number][]>();
+
+  const readIndex = async (source: StreamMergeSource): Promise<{ entries: DbpfIndexEntry[]; size: number }> =>
+    source.entries === undefined
+      ? {
+          entries: (await readDbpfIndex(source.path)).filter((entry) => !isMergeMetadataKey(entry.key)),
+          size: (await fs.stat(source.path)).size,
+        }
+      : { entries: source.entries, size: source.original?.size ?? 0 };
+
+  let position = 0;
+  // Indexes are small next to payloads, so they do not count against the memory budget.
+  for await (const { entries, size } of loadInOrder(sources, limiter, () => 0, readIndex)) {
+    const source = sources[position];
+    // Carried-over originals are named as unmerging names them
+    const name = source.original === undefined ? source.path : (source.original.relPath ?? source.original.basename);
+    const ids = entries.map((entry) => formatResourceKey(entry.key));
+    const survives = entries.map(() => true);
+
+    const colliding = new Set(ids.filter((id) => live.has(id)));
+    if (collisionPolicy === 'keep-last') {
+      for (const id of colliding) {
+        for (const [input, entry] of live.get(id) ?? []) {
+          indexed[input].survives[entry] = false;
+        }
+        live.delete(id);
+      }
+    }
+
+    const sourceKeyCounts = new Map<string, number>();
+    ids.forEach((id, index) => {
+      sourceKeyCounts.set(id, (sourceKeyCounts.get(id) ?? 0) + 1);
+      if (collisionPolicy === 'keep-first' && colliding.has(id)) {
+        survives[index] = false;
+        return;
+      }
+      const slots = live.get(id) ?? [];
+      slots.push([position, index]);
+      live.set(id, slots);
+    });
+
+    inputs.push({ path: name, resourceCount: entries.length, keptCount: entries.length, overwrittenCount: 0, dedupedCount: 0 });
+    accountCollisions(inputs, owners, position, colliding, sourceKeyCounts, collisionPolicy);
+    indexed.push({ source, size, entries, survives });
+    position += 1;
+  }
+
+  return { indexed, inputs };
+}
+
+/**
+ * Stored bytes of the entries that survive the collision policy
+ */
+function survivorBytes(input: IndexedInput): number {
+  return input.entries.reduce((sum, entry, index) => sum + (input.survives[index] ? entry.compressedSize : 0), 0);
+}
+
+/**
+ * Read an input's stored payloads in index order and, with `hashed`, hash each one, a
+ * few entries ahead through the pool. Without `hashed` nothing is decompressed and
+ * `dataHash` is empty.
+ */
+async function* readEntries(input: IndexedInput, pool: WorkerPool, hashed: boolean): AsyncGenerator<LoadedEntry> {
+  const { path } = input.source;
+  const handle = await fs.open(path, 'r');
+  async function* payloads(): AsyncGenerator<{ entry: DbpfIndexEntry; payload: Buffer }> {
+    for (const entry of input.entries) {
+      yield { entry, payload: await readDbpfPayload(handle, entry, path) };
+    }
+  }
+  try {
+    if (!hashed) {
+      for await (const { entry, payload } of payloads()) {
+        yield { entry, payload, dataHash: '' };
+      }
+      return;
+    }
+    const outcomes = pool.runInOrder(payloads(), ({ entry, payload }) => payloadDigestTask(payload, entry.compressionType));
+    for await (const { item, result, error } of outcomes) {
+      if (error !== undefined) {
+        throw new S4TKError(`Failed to decompress resource ${formatResourceKey(item.entry.key)}`, path, error);
+      }
+      yield { entry: item.entry, payload: item.payload, dataHash: result.hex };
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read a merged package's entries without METG, in index order, and its decoded metadata.
+ */
+async function readMergedPackage(filePath: string): Promise<{ entries: DbpfIndexEntry[]; metadata?: MergeMetadata }> {
+  const all = await readDbpfIndex(filePath);
+  const metadataEntry = all.find((entry) => isMergeMetadataKey(entry.key));
+  const entries = all.filter((entry) => !isMergeMetadataKey(entry.key));
+  if (metadataEntry === undefined) {
+    return { entries };
+  }
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const payload = await readDbpfPayload(handle, metadataEntry, filePath);
+    return { entries, metadata: decodeMergeMetadata(decompressPayload(payload, metadataEntry.compressionType)) };
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Concurrency helpers for loading inputs in parallel while consuming them in order.
+ *
+ * A `LoadLimiter` caps how many loads run at once (`--jobs`) and how many bytes of
+ * loaded but not yet consumed data are held (`--memory-budget`). Both queues are
+ * first-come first-served, so a load that needs more memory than is free is not
+ * overtaken by smaller ones, and `loadInOrder` streams sharing one limiter cannot
+ * deadlock: every stream asks for its earliest unconsumed item first.
+ */
+
+/**
+ * Default `--memory-budget`, in MB
+ */
+export const DEFAULT_MEMORY_BUDGET_MB = 256;
+
+/**
+ * Memory held for one loaded item until it has been consumed
+ */
+export interface Reservation {
+  /** Resolves once the bytes are granted; rejects when released before that */
+  readonly granted: Promise<void>;
+  /** Give the bytes back, or leave the queue when not yet granted; safe to call twice */
+  release(): void;
+}
+
+interface MemoryWaiter {
+  bytes: number;
+  grant: () => void;
+}
+
+export class LoadLimiter {
+  private used = 0;
+  private running = 0;
+  private readonly memoryQueue: MemoryWaiter[] = [];
+  private readonly jobQueue: Array<() => void> = [];
+
+  /**
+   * @param jobs Loads that may run at the same time (at least 1)
+   * @param memoryBytes Bytes of loaded data that may be held at once. One item larger
+   *   than this is still loaded, but only while nothing else is held.
+   */
+  constructor(
+    readonly jobs: number,
+    readonly memoryBytes: number,
+  ) {
+    if (!Number.isInteger(jobs) || jobs < 1) {
+      throw new RangeError(`jobs must be a positive integer, got ${jobs}`);
+    }
+  }
+
+  /**
+   * Queue a request for `bytes` of the memory budget.
+   */
+  reserve(bytes: number): Reservation {
+    let state: 'waiting' | 'granted' | 'released' = 'waiting';
+    let waiter: MemoryWaiter | undefined;
+    let cancel: (() => void) | undefined;
+    const granted = new Promise<void>((resolve, reject) => {
+      cancel = () => reject(new Error('Memory reservation released before it was granted'));
+      waiter = {
+        bytes,
+        grant: () => {
+          state = 'granted';
+          resolve();
+        },
+      };
+    });
+    granted.catch(() => undefined);
+    this.memoryQueue.push(waiter as MemoryWaiter);
+    this.grantMemory();
+
+    return {
+      granted,
+      release: () => {
+        if (state === 'granted') {
+          this.used -= bytes;
+        } else if (state === 'waiting') {
+          this.memoryQueue.splice(this.memoryQueue.indexOf(waiter as MemoryWaiter), 1);
+          cancel?.();
+        }
+        state = 'released';
+        this.grantMemory();
+      },
+    };
+  }
+
+  /**
+   * Run `task` once fewer than `jobs` tasks are running.
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= this.jobs) {
+      await new Promise<void>((resolve) => this.jobQueue.push(resolve));
+    }
+    this.running += 1;
+    try {
+      return await task();
+    } finally {
+      this.running -= 1;
+      this.jobQueue.shift()?.();
+    }
+  }
+
+  private grantMemory(): void {
+    while (this.memoryQueue.length > 0) {
+      const head = this.memoryQueue[0];
+      if (this.used > 0 && this.used + head.bytes > this.memoryBytes) {
+        return;
+      }
+      this.memoryQueue.shift();
+      this.used += head.bytes;
+      head.grant();
+    }
+  }
+}
+
+/**
+ * Load `items` through `limiter`, up to `limiter.jobs` ahead of the consumer, and
+ * yield the results in item order. Each result's memory (`weigh(item)` bytes) is
+ * held until the consumer asks for the next one. A failed load is thrown when its
+ * turn comes; loads already started are awaited before the generator finishes.
+ */
+export async function* loadInOrder<T, R>(
+  items: readonly T[],
+  limiter: LoadLimiter,
+  weigh: (item: T) => number,
+  load: (item: T) => Promise<R>,
+): AsyncGenerator<R> {
+  const pending: Array<{ reservation: Reservation; result: Promise<R> }> = [];
+  let next = 0;
+  const fill = (): void => {
+    while (next < items.length && pending.length < limiter.jobs) {
+      const item = items[next++];
+      const reservation = limiter.reserve(weigh(item));
+      const result = reservation.granted.then(() => limiter.run(() => load(item)));
+      result.catch(() => undefined);
+      pending.push({ reservation, result });
+    }
+  };
+
+  try {
+    fill();
+    while (pending.length > 0) {
+      const head = pending[0];
+      const value = await head.result;
+      try {
+        yield value;
+      } finally {
+        pending.shift();
+        head.reservation.release();
+      }
+      fill();
+    }
+  } finally {
+    // Latest first, so freed memory is not granted to a request that is withdrawn next.
+    const rest = pending.splice(0).reverse();
+    for (const { reservation } of rest) {
+      reservation.release();
+    }
+    await Promise.all(rest.map(({ result }) => result.catch(() => undefined)));
+  }
+}
+
+/**
+ * Map `items` with at most `jobs` calls of `fn` running at once; results are in item
+ * order. The first failure is thrown once every started call has settled.
+ */
+export async function mapInOrder<T, R>(items: readonly T[], jobs: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+  const worker = async (): Promise<void> => {
+    while (next < items.length && failure === undefined) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(jobs, items.length)) }, worker));
+  if (failure !== undefined) {
+    throw failure.error;
+  }
+  return results;
+}
@@ -3,25 +3,45 @@ import { constants, promises as fs } from 'node:fs';
 import type { FileHandle } from 'node:fs/promises';
 import { basename, dirname, join } from 'node:path';
 
-const TEMP_PREFIX = '.tmp-';
+/**
+ * Name prefix of the temporary files `createTempFile` reserves next to their target
+ */
+export const TEMP_PREFIX = '.tmp-';
 const MAX_TEMP_ATTEMPTS = 20;
 
 /**
  * Atomically write content to a file using an adjacent temporary file.
  *
- * Writes `content` to a newly created exclusive temp file next to `targetPath`, fsyncs the temp file, atomically renames the temp over the target, and then fsyncs the containing directory. If writing or syncing the temp fails the temp file is removed; if the atomic rename fails the temp file is intentionally left in place for diagnostics.
+ * Writes `content` to a newly created exclusive temp file next to `targetPath`, fsyncs the temp file, atomically renames the temp over the target, and then fsyncs the containing directory. If writing or syncing the temp fails the temp file is removed; if the atomic rename fails the temp file is intentionally left in place for diagnostics; `s4merge clean` removes such leftovers.
  *
  * @param targetPath - Destination path that will be replaced atomically.
  * @param content - Buffer or string data to write to the file.
  */
 export async function writeFileAtomic(targetPath: string, content: Buffer | string): Promise<void> {
+  await writeStreamAtomic(targetPath, async (handle) => {
+    await handle.writeFile(content);
+  });
+}
+
+/**
+ * Atomically produce a file by writing through a handle to an adjacent temporary file.
+ *
+ * Same guarantees as `writeFileAtomic`, for content that is too large to build in
+ * memory: `write` receives a handle to the empty temp file from `createTempFile`
+ * and may append or write at explicit positions. If `write` throws, the temp file
+ * is removed and the target is left untouched.
+ *
+ * @param targetPath - Destination path that will be replaced atomically.
+ * @param write - Callback that fills the temp file.
+ */
+export async function writeStreamAtomic(targetPath: string, write: (handle: FileHandle) => Promise<void>): Promise<void> {
   const directory = dirname(targetPath) || '.';
   const tempPath = await createTempFile(targetPath);
 
   let handle: FileHandle | null = null;
   try {
-    handle = await fs.open(tempPath, 'w');
-    await handle.writeFile(content);
+    handle = await fs.open(tempPath, 'r+');
+    await write(handle);
     await handle.sync();
   } catch (error) {
     await closeQuietly(handle);
@@ -84,6 +104,17 @@ export async function createTempFile(baseName: string): Promise<string> {
   throw new Error(`Unable to allocate a unique temp file for ${baseName} after ${MAX_TEMP_ATTEMPTS} attempts.`);
 }
 
+/**
+ * The sanitized base name a `createTempFile` name was reserved for, or undefined when
+ * `name` is not such a temp file: `.tmp-All.package-<24 hex digits>` gives `All.package`.
+ */
+export function tempFileTarget(name: string): string | undefined {
+  if (!name.startsWith(TEMP_PREFIX)) {
+    return undefined;
+  }
+  return /^(.+)-[0-9a-f]{24}$/u.exec(name.slice(TEMP_PREFIX.length))?.[1];
+}
+
 /**
  * Ensure a file's data is flushed to stable storage using fsync.
  *
@@ -187,7 +218,7 @@ async function safeUnlink(path: string): Promise<void> {
  * @param name - Original base name to sanitize
  * @returns A sanitized base name containing only alphanumerics, dot, underscore, or dash
  */
-function sanitizeBaseName(name: string): string {
+export function sanitizeBaseName(name: string): string {
   if (name === '' || name === '.' || name === '..') {
     return 's4merge';
   }
@@ -0,0 +1,146 @@
+// Glob: gitignore-style patterns for --include/--exclude and .s4mergeignore files.
+// Matching is case-insensitive, as Mods folders live on case-insensitive file systems.
+
+/**
+ * One compiled pattern
+ */
+export interface GlobPattern {
+  /** Pattern as written, without the leading `!` */
+  source: string;
+  /** `!pattern`: re-include what an earlier pattern excluded */
+  negated: boolean;
+  /** `pattern/`: only matches directories */
+  directoryOnly: boolean;
+  /** 1-based line in the ignore file, when read from one */
+  line?: number;
+  regex: RegExp;
+}
+
+/**
+ * Pattern that cannot be compiled
+ */
+export class GlobSyntaxError extends Error {
+  constructor(message: string, public readonly pattern: string) {
+    super(`Invalid pattern '${pattern}': ${message}`);
+    this.name = 'GlobSyntaxError';
+  }
+}
+
+/**
+ * Compile a gitignore-style pattern.
+ *
+ * - `*` matches within one path component, `?` one character, `[a-z]` / `[!a-z]` a class.
+ * - `**` matches across components: `**\/x`, `x/**` and `a/**\/b` as in gitignore.
+ * - A pattern with a slash (other than a trailing one) is anchored to the base folder;
+ *   without one it matches the name at any depth.
+ * - A trailing `/` only matches directories; a leading `!` negates; `\` escapes.
+ *
+ * @throws GlobSyntaxError for empty patterns and unterminated classes
+ */
+export function compileGlob(pattern: string, line?: number): GlobPattern {
+  let body = pattern;
+  const negated = body.startsWith('!');
+  if (negated) {
+    body = body.slice(1);
+  }
+  const directoryOnly = body.endsWith('/') && !body.endsWith('\\/');
+  if (directoryOnly) {
+    body = body.replace(/\/+$/u, '');
+  }
+  const anchored = body.includes('/');
+  body = body.replace(/^\//u, '');
+  if (body === '') {
+    throw new GlobSyntaxError('pattern is empty', pattern);
+  }
+
+  let regex = '';
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+    if (char === '\\' && index + 1 < body.length) {
+      index += 1;
+      regex += escapeRegex(body[index]);
+    } else if (char === '*' && body[index + 1] === '*') {
+      const atStart = index === 0 || body[index - 1] === '/';
+      const atEnd = index + 2 === body.length || body[index + 2] === '/';
+      if (atStart && atEnd) {
+        if (index + 2 === body.length) {
+          // Trailing `/**`: everything inside.
+          regex += '.*';
+        } else {
+          // `**/`: zero or more folders.
+          regex += '(?:.*/)?';
+          index += 1;
+        }
+        index += 1;
+      } else {
+        // `**` inside a component behaves like `*`.
+        regex += '[^/]*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = body.indexOf(']', index + 2);
+      if (end === -1) {
+        throw new GlobSyntaxError('unterminated character class', pattern);
+      }
+      let members = body.slice(index + 1, end);
+      const negatedClass = members.startsWith('!') || members.startsWith('^');
+      if (negatedClass) {
+        members = members.slice(1);
+      }
+      regex += `[${negatedClass ? '^/' : ''}${members.replace(/[\\\]^]/gu, (match) => `\\${match}`)}]`;
+      index = end;
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  return { source: negated ? pattern.slice(1) : pattern, negated, directoryOnly, line, regex: new RegExp(`${prefix}${regex}$`, 'iu') };
+}
+
+/**
+ * Whether a pattern matches a path relative to the pattern's base folder (forward slashes).
+ * Negation is not applied; see `lastMatchingPattern`.
+ */
+export function matchesGlob(pattern: GlobPattern, relPath: string, isDirectory: boolean): boolean {
+  return (!pattern.directoryOnly || isDirectory) && pattern.regex.test(relPath);
+}
+
+/**
+ * The last pattern that matches, as in gitignore; the path is excluded when it
+ * is not negated.
+ */
+export function lastMatchingPattern(patterns: GlobPattern[], relPath: string, isDirectory: boolean): GlobPattern | undefined {
+  for (let index = patterns.length - 1; index >= 0; index -= 1) {
+    if (matchesGlob(patterns[index], relPath, isDirectory)) {
+      return patterns[index];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse an ignore file: one pattern per line; blank lines and `#` comments are skipped,
+ * unescaped trailing spaces are dropped, `\#` and `\!` start literal patterns.
+ *
+ * @throws GlobSyntaxError naming the pattern that cannot be compiled
+ */
+export function parseIgnoreFile(text: string): GlobPattern[] {
+  const patterns: GlobPattern[] = [];
+  text.split(/\r?\n/u).forEach((raw, index) => {
+    const line = raw.replace(/(?<!\\)\s+$/u, '');
+    if (line === '' || line.startsWith('#')) {
+      return;
+    }
+    patterns.push(compileGlob(line, index + 1));
+  });
+  return patterns;
+}
+
+function escapeRegex(char: string): string {
+  return /[.*+?^${}()|[\]\\/]/u.test(char) ? `\\${char}` : char;
+}
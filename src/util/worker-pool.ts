@@ -0,0 +1,268 @@
+/**
+ * Worker-thread pool for CPU-bound buffer work: hashing and zlib (de)compression.
+ *
+ * The worker source below is inline and only uses node built-ins, so the pool works
+ * the same from the sources, the test runner and the bundled CLI (which is a single
+ * file). A pool of size 1 (`--jobs 1`) starts no worker and runs every task in the
+ * calling thread, with the same results.
+ */
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { Worker } from 'node:worker_threads';
+import { deflateSync, inflateSync } from 'node:zlib';
+
+export type HashAlgorithm = 'sha1' | 'sha256';
+
+/**
+ * Work a pool can run
+ *
+ * - `digest`: hash `data`, after inflating it with `inflate`; `length` is that of the
+ *   hashed bytes, so callers can check a decompressed size without getting the bytes back
+ * - `digest-file`: hash a whole file, streamed through the hash by the worker itself
+ * - `inflate` / `deflate`: zlib streams, as DBPF stores them
+ */
+export type PoolTask =
+  | { kind: 'digest'; algorithm: HashAlgorithm; data: Buffer; inflate?: boolean }
+  | { kind: 'digest-file'; algorithm: HashAlgorithm; path: string }
+  | { kind: 'inflate'; data: Buffer }
+  | { kind: 'deflate'; data: Buffer; level?: number };
+
+export type DigestTask = Extract<PoolTask, { kind: 'digest' }>;
+
+export interface Digest {
+  hex: string;
+  length: number;
+}
+
+export type PoolResult<T extends PoolTask> = T extends { kind: 'inflate' | 'deflate' } ? Buffer : Digest;
+
+/**
+ * A task that failed, in a worker or in-thread; `message` is the original error message
+ */
+export class PoolTaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoolTaskError';
+  }
+}
+
+/**
+ * One item of `runInOrder` with its result, or with the error its task failed with
+ */
+export type PoolOutcome<I, R> = { item: I; result: R; error?: undefined } | { item: I; result?: undefined; error: PoolTaskError };
+
+interface QueuedTask {
+  task: PoolTask;
+  resolve: (result: Buffer | Digest) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current?: QueuedTask;
+}
+
+// Runs as CommonJS (`eval: true`). Keep in step with `runInThread`.
+const WORKER_SOURCE = `
+const { parentPort } = require('node:worker_threads');
+const { createHash } = require('node:crypto');
+const { createReadStream } = require('node:fs');
+const { deflateSync, inflateSync } = require('node:zlib');
+const asBuffer = (data) => Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+const run = async (task) => {
+  if (task.kind === 'digest') {
+    const data = task.inflate ? inflateSync(asBuffer(task.data)) : asBuffer(task.data);
+    return { hex: createHash(task.algorithm).update(data).digest('hex'), length: data.length };
+  } else if (task.kind === 'digest-file') {
+    const hash = createHash(task.algorithm);
+    let length = 0;
+    for await (const chunk of createReadStream(task.path)) {
+      hash.update(chunk);
+      length += chunk.length;
+    }
+    return { hex: hash.digest('hex'), length };
+  } else if (task.kind === 'inflate') {
+    return inflateSync(asBuffer(task.data));
+  } else if (task.kind === 'deflate') {
+    return deflateSync(asBuffer(task.data), task.level === undefined ? {} : { level: task.level });
+  }
+  throw new Error('Unknown task kind ' + task.kind);
+};
+parentPort.on('message', (task) => {
+  run(task).then(
+    (result) => parentPort.postMessage({ result }),
+    (error) => parentPort.postMessage({ error: error instanceof Error ? error.message : String(error) }),
+  );
+});
+`;
+
+/**
+ * Fixed-size pool of worker threads. Tasks wait in one first-in first-out queue;
+ * `runInOrder` adds backpressure and returns results in submission order.
+ */
+export class WorkerPool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: QueuedTask[] = [];
+  private closed = false;
+
+  /**
+   * @param size Worker threads to start; 1 (or less) runs every task in-thread
+   */
+  constructor(readonly size: number) {
+    for (let index = 0; size > 1 && index < size; index += 1) {
+      this.workers.push(this.startWorker());
+    }
+  }
+
+  /**
+   * Tasks allowed in flight per `runInOrder` call before it stops pulling new items
+   */
+  get highWaterMark(): number {
+    return Math.max(1, this.workers.length * 2);
+  }
+
+  /**
+   * Run one task.
+   *
+   * @throws PoolTaskError when the task fails
+   */
+  async run<T extends PoolTask>(task: T): Promise<PoolResult<T>> {
+    if (this.closed) {
+      throw new Error('Worker pool is closed');
+    }
+    if (this.workers.length === 0) {
+      try {
+        return (await runInThread(task)) as PoolResult<T>;
+      } catch (error) {
+        throw asTaskError(error);
+      }
+    }
+    return new Promise<PoolResult<T>>((resolve, reject) => {
+      this.queue.push({ task, resolve: resolve as (result: Buffer | Digest) => void, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Run a task per item, pulling items only while fewer than `highWaterMark` are in
+   * flight, and yield every item with its outcome in item order. A task that fails,
+   * or that `toTask` cannot build, is yielded with its error; the rest go on.
+   */
+  async *runInOrder<I, T extends PoolTask>(
+    items: Iterable<I> | AsyncIterable<I>,
+    toTask: (item: I) => T,
+  ): AsyncGenerator<PoolOutcome<I, PoolResult<T>>> {
+    const pending: Array<Promise<PoolOutcome<I, PoolResult<T>>>> = [];
+    const submit = (item: I): Promise<PoolOutcome<I, PoolResult<T>>> => {
+      let task: T;
+      try {
+        task = toTask(item);
+      } catch (error) {
+        return Promise.resolve({ item, error: asTaskError(error) });
+      }
+      return this.run(task).then(
+        (result) => ({ item, result }),
+        (error: unknown) => ({ item, error: asTaskError(error) }),
+      );
+    };
+    try {
+      for await (const item of items) {
+        pending.push(submit(item));
+        if (pending.length >= this.highWaterMark) {
+          yield await (pending.shift() as Promise<PoolOutcome<I, PoolResult<T>>>);
+        }
+      }
+      while (pending.length > 0) {
+        yield await (pending.shift() as Promise<PoolOutcome<I, PoolResult<T>>>);
+      }
+    } finally {
+      await Promise.all(pending.splice(0));
+    }
+  }
+
+  /**
+   * Stop every worker. Queued and running tasks are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const unfinished = [...this.queue.splice(0), ...this.workers.map((slot) => slot.current)];
+    for (const queued of unfinished) {
+      queued?.reject(new Error('Worker pool is closed'));
+    }
+    await Promise.all(this.workers.splice(0).map(({ worker }) => worker.terminate()));
+  }
+
+  private startWorker(): PoolWorker {
+    const slot: PoolWorker = { worker: new Worker(WORKER_SOURCE, { eval: true }) };
+    slot.worker.on('message', (message: { result?: Uint8Array | Digest; error?: string }) => {
+      const current = slot.current;
+      slot.current = undefined;
+      if (message.error !== undefined) {
+        current?.reject(new PoolTaskError(message.error));
+      } else if (message.result instanceof Uint8Array) {
+        current?.resolve(Buffer.from(message.result.buffer, message.result.byteOffset, message.result.byteLength));
+      } else {
+        current?.resolve(message.result as Digest);
+      }
+      this.dispatch();
+    });
+    slot.worker.on('error', (error) => {
+      // A crashed worker fails its task and is replaced.
+      slot.current?.reject(new PoolTaskError(error.message));
+      slot.current = undefined;
+      const index = this.workers.indexOf(slot);
+      if (index !== -1 && !this.closed) {
+        this.workers[index] = this.startWorker();
+        this.dispatch();
+      }
+    });
+    return slot;
+  }
+
+  private dispatch(): void {
+    for (const slot of this.workers) {
+      if (this.queue.length === 0) {
+        return;
+      }
+      if (slot.current === undefined) {
+        slot.current = this.queue.shift() as QueuedTask;
+        slot.worker.postMessage(slot.current.task);
+      }
+    }
+  }
+}
+
+/**
+ * A task in the calling thread; same results as the worker source above. Files are
+ * streamed rather than read whole, in both, so memory does not grow with file size.
+ */
+async function runInThread(task: PoolTask): Promise<Buffer | Digest> {
+  switch (task.kind) {
+    case 'digest': {
+      const data = task.inflate ? inflateSync(task.data) : task.data;
+      return { hex: createHash(task.algorithm).update(data).digest('hex'), length: data.length };
+    }
+    case 'digest-file': {
+      const hash = createHash(task.algorithm);
+      let length = 0;
+      for await (const chunk of createReadStream(task.path)) {
+        hash.update(chunk as Buffer);
+        length += (chunk as Buffer).length;
+      }
+      return { hex: hash.digest('hex'), length };
+    }
+    case 'inflate':
+      return inflateSync(task.data);
+    case 'deflate':
+      return deflateSync(task.data, task.level === undefined ? {} : { level: task.level });
+  }
+}
+
+function asTaskError(error: unknown): PoolTaskError {
+  return error instanceof PoolTaskError ? error : new PoolTaskError(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Shared pool without workers, for callers that were not given one; never close it.
+ */
+export const IN_THREAD_POOL = new WorkerPool(1);
@@ -0,0 +1,491 @@
+import { stableCompare } from './determinism.js';
+
+/**
+ * Values the YAML emitter knows how to render.
+ */
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+/**
+ * Options for `toYaml`
+ */
+export interface YamlEmitOptions {
+  /** Emit mapping keys in `stableCompare` order instead of insertion order */
+  sortKeys?: boolean;
+}
+
+/**
+ * Raised by `parseYaml` for text outside the supported subset, with the 1-based line
+ */
+export class YamlParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlParseError';
+  }
+}
+
+const INDENT = '  ';
+const PLAIN_KEY = /^[A-Za-z_][A-Za-z0-9_-]*$/u;
+const INTEGER = /^[-+]?[0-9]+$/u;
+const FLOAT = /^[-+]?(?:[0-9]+\.[0-9]*|\.[0-9]+|[0-9]+)(?:[eE][-+]?[0-9]+)?$/u;
+
+/**
+ * Serialize a plain JSON-like value to a deterministic block-style YAML document.
+ *
+ * Object keys are emitted in insertion order, strings are always double-quoted
+ * (JSON string escapes are valid YAML), `undefined` properties are omitted, and
+ * empty collections are written in flow style (`[]` / `{}`) so the output never
+ * depends on YAML's implicit typing rules. The result always ends with a newline.
+ *
+ * @param value - The value to serialize.
+ * @param options - `sortKeys` orders mapping keys with `stableCompare` for reproducible documents.
+ * @returns The YAML document text.
+ */
+export function toYaml(value: YamlValue, options: YamlEmitOptions = {}): string {
+  const lines = emitValue(options.sortKeys ? sortMappingKeys(value) : value, 0);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Parse the block-style YAML subset that `toYaml` emits back into plain values.
+ *
+ * Supported: block mappings and sequences (including compact `- key: value` items,
+ * and sequences at the indentation of their key), double-quoted strings with JSON
+ * escapes, single-quoted strings (`''` for a quote), plain scalars, integers, floats,
+ * `true`/`false`, `null`/`~`, flow collections of scalars, blank lines and `#`
+ * comments. Anchors, tags, multi-line scalars and multiple documents are rejected.
+ *
+ * @throws YamlParseError with the offending line number
+ */
+export function parseYaml(text: string): YamlValue {
+  const lines: SourceLine[] = [];
+  text.split(/\r?\n/u).forEach((raw, index) => {
+    if (/^\s*(#.*)?$/u.test(raw)) {
+      return;
+    }
+    if (raw.includes('\t') && /^\s*\t/u.test(raw)) {
+      throw new YamlParseError('Tabs are not allowed for indentation', index + 1);
+    }
+    const content = raw.trimStart();
+    if (content === '---' || content === '...') {
+      if (lines.length > 0) {
+        throw new YamlParseError('Multiple documents are not supported', index + 1);
+      }
+      return;
+    }
+    lines.push({ indent: raw.length - content.length, content: content.trimEnd(), line: index + 1 });
+  });
+
+  if (lines.length === 0) {
+    return null;
+  }
+  const cursor = { index: 0 };
+  const value = parseBlock(lines, cursor, lines[0].indent);
+  if (cursor.index < lines.length) {
+    throw new YamlParseError('Unexpected indentation', lines[cursor.index].line);
+  }
+  return value;
+}
+
+/**
+ * Render a value as YAML lines at the given indentation depth.
+ *
+ * Scalars and empty collections render as a single line; non-empty mappings and
+ * sequences render as block collections.
+ */
+function emitValue(value: YamlValue, depth: number): string[] {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? ['[]'] : emitSequence(value, depth);
+  }
+  if (isMapping(value)) {
+    return definedEntries(value).length === 0 ? ['{}'] : emitMapping(value, depth);
+  }
+  return [formatScalar(value)];
+}
+
+/**
+ * Emit a block mapping. Nested collections start on the following line, scalars stay inline.
+ */
+function emitMapping(value: { [key: string]: YamlValue }, depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  const lines: string[] = [];
+
+  for (const [key, child] of definedEntries(value)) {
+    const renderedKey = formatKey(key);
+    if (isBlockCollection(child)) {
+      lines.push(`${pad}${renderedKey}:`);
+      lines.push(...emitValue(child, depth + 1));
+    } else {
+      lines.push(`${pad}${renderedKey}: ${emitValue(child, depth)[0]}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Emit a block sequence. Mapping items are written compactly (`- key: value`).
+ */
+function emitSequence(value: YamlValue[], depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  const lines: string[] = [];
+
+  for (const item of value) {
+    if (isBlockCollection(item)) {
+      const nested = emitValue(item, depth + 1);
+      lines.push(`${pad}- ${nested[0].slice(pad.length + INDENT.length)}`);
+      lines.push(...nested.slice(1));
+    } else {
+      lines.push(`${pad}- ${emitValue(item, depth)[0]}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Format a scalar value. Non-finite numbers have no JSON form and become `null`.
+ */
+function formatScalar(value: YamlValue): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'null';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Keys are left plain when they are simple identifiers and quoted otherwise.
+ */
+function formatKey(key: string): string {
+  return PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+}
+
+function sortMappingKeys(value: YamlValue): YamlValue {
+  if (Array.isArray(value)) {
+    return value.map(sortMappingKeys);
+  }
+  if (isMapping(value)) {
+    const sorted: { [key: string]: YamlValue } = {};
+    for (const key of Object.keys(value).sort(stableCompare)) {
+      sorted[key] = sortMappingKeys(value[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+interface SourceLine {
+  indent: number;
+  content: string;
+  line: number;
+}
+
+/**
+ * Parse the mapping or sequence whose lines start at `indent`.
+ */
+function parseBlock(lines: SourceLine[], cursor: { index: number }, indent: number): YamlValue {
+  return isSequenceItem(lines[cursor.index].content)
+    ? parseSequence(lines, cursor, indent)
+    : parseMapping(lines, cursor, indent);
+}
+
+function parseMapping(lines: SourceLine[], cursor: { index: number }, indent: number): YamlValue {
+  const mapping: { [key: string]: YamlValue } = {};
+
+  while (cursor.index < lines.length && lines[cursor.index].indent === indent) {
+    const current = lines[cursor.index];
+    if (isSequenceItem(current.content)) {
+      throw new YamlParseError('Sequence item where a mapping key was expected', current.line);
+    }
+    const { key, rest } = splitKey(current);
+    if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+      throw new YamlParseError(`Duplicate key '${key}'`, current.line);
+    }
+    cursor.index += 1;
+    mapping[key] = rest === '' ? parseNested(lines, cursor, indent) : parseScalar(rest, current.line);
+  }
+
+  if (cursor.index < lines.length && lines[cursor.index].indent > indent) {
+    throw new YamlParseError('Unexpected indentation', lines[cursor.index].line);
+  }
+  return mapping;
+}
+
+/**
+ * With `atKeyIndent`, the sequence shares the indentation of its parent key and ends
+ * at the first line that is not an item, which is then the parent's next key.
+ */
+function parseSequence(lines: SourceLine[], cursor: { index: number }, indent: number, atKeyIndent = false): YamlValue {
+  const sequence: YamlValue[] = [];
+
+  while (cursor.index < lines.length && lines[cursor.index].indent === indent) {
+    const current = lines[cursor.index];
+    if (!isSequenceItem(current.content)) {
+      if (atKeyIndent) {
+        break;
+      }
+      throw new YamlParseError('Mapping key where a sequence item was expected', current.line);
+    }
+    const rest = current.content.slice(1).trimStart();
+    if (rest === '') {
+      cursor.index += 1;
+      sequence.push(parseNested(lines, cursor, indent));
+    } else if (startsMappingEntry(rest) || isSequenceItem(rest)) {
+      // Compact form: the item's first key (or nested dash) shares the dash line.
+      const itemIndent = indent + (current.content.length - rest.length);
+      lines[cursor.index] = { indent: itemIndent, content: rest, line: current.line };
+      sequence.push(parseBlock(lines, cursor, itemIndent));
+    } else {
+      cursor.index += 1;
+      sequence.push(parseScalar(rest, current.line));
+    }
+  }
+
+  return sequence;
+}
+
+/**
+ * Value of a key or dash with nothing after it: a deeper block, or null if none follows.
+ * A sequence may sit at the same indentation as its parent key.
+ */
+function parseNested(lines: SourceLine[], cursor: { index: number }, parentIndent: number): YamlValue {
+  const next = lines[cursor.index];
+  if (next === undefined) {
+    return null;
+  }
+  if (next.indent > parentIndent) {
+    return parseBlock(lines, cursor, next.indent);
+  }
+  if (next.indent === parentIndent && isSequenceItem(next.content) && !isSequenceItem(lines[cursor.index - 1].content)) {
+    return parseSequence(lines, cursor, parentIndent, true);
+  }
+  return null;
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+function startsMappingEntry(content: string): boolean {
+  if (content.startsWith('"')) {
+    const end = endOfQuoted(content);
+    return end !== -1 && content[end + 1] === ':';
+  }
+  return /^[^\s"'[\]{}#,][^:#]*:(?:\s|$)/u.test(content);
+}
+
+function splitKey(current: SourceLine): { key: string; rest: string } {
+  const { content, line } = current;
+  if (content.startsWith('"')) {
+    const end = endOfQuoted(content);
+    if (end === -1 || content[end + 1] !== ':') {
+      throw new YamlParseError('Malformed quoted key', line);
+    }
+    return { key: JSON.parse(content.slice(0, end + 1)) as string, rest: content.slice(end + 2).trim() };
+  }
+  const match = /^([^:#]+?)\s*:(?:\s+(.*))?$/u.exec(content);
+  if (match === null) {
+    throw new YamlParseError(`Expected 'key: value', got '${content}'`, line);
+  }
+  return { key: match[1], rest: (match[2] ?? '').trim() };
+}
+
+/**
+ * Index of the closing quote of a single-quoted string starting at 0, or -1.
+ * A doubled quote (`''`) stands for one quote and does not close the string.
+ */
+function endOfSingleQuoted(text: string): number {
+  for (let index = 1; index < text.length; index += 1) {
+    if (text[index] === "'") {
+      if (text[index + 1] !== "'") {
+        return index;
+      }
+      index += 1;
+    }
+  }
+  return -1;
+}
+
+function unquoteSingle(quoted: string): string {
+  return quoted.slice(1, -1).replace(/''/gu, "'");
+}
+
+/**
+ * Index of the closing quote of a double-quoted string starting at 0, or -1.
+ */
+function endOfQuoted(text: string): number {
+  for (let index = 1; index < text.length; index += 1) {
+    if (text[index] === '\\') {
+      index += 1;
+    } else if (text[index] === '"') {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function parseScalar(text: string, line: number): YamlValue {
+  if (text.startsWith('"')) {
+    const end = endOfQuoted(text);
+    if (end === -1) {
+      throw new YamlParseError('Unterminated string', line);
+    }
+    const trailing = text.slice(end + 1).trim();
+    if (trailing !== '' && !trailing.startsWith('#')) {
+      throw new YamlParseError(`Unexpected text after string: '${trailing}'`, line);
+    }
+    try {
+      return JSON.parse(text.slice(0, end + 1)) as string;
+    } catch {
+      throw new YamlParseError('Invalid escape in string', line);
+    }
+  }
+  if (text.startsWith("'")) {
+    const end = endOfSingleQuoted(text);
+    if (end === -1) {
+      throw new YamlParseError('Unterminated string', line);
+    }
+    const trailing = text.slice(end + 1).trim();
+    if (trailing !== '' && !trailing.startsWith('#')) {
+      throw new YamlParseError(`Unexpected text after string: '${trailing}'`, line);
+    }
+    return unquoteSingle(text.slice(0, end + 1));
+  }
+
+  const plain = text.replace(/\s+#.*$/u, '').trim();
+  if (plain.startsWith('[') || plain.startsWith('{')) {
+    return parseFlow(plain, line);
+  }
+  if (/^[&*!|>%@`]/u.test(plain)) {
+    throw new YamlParseError(`Unsupported YAML syntax '${plain}'`, line);
+  }
+  return plainScalar(plain);
+}
+
+function plainScalar(plain: string): YamlValue {
+  if (plain === '' || plain === 'null' || plain === '~') {
+    return null;
+  }
+  if (plain === 'true' || plain === 'false') {
+    return plain === 'true';
+  }
+  if (INTEGER.test(plain)) {
+    return Number.parseInt(plain, 10);
+  }
+  if (FLOAT.test(plain)) {
+    return Number.parseFloat(plain);
+  }
+  return plain;
+}
+
+/**
+ * Parse a single-line flow collection such as `{ key: "path", reverse: false }`.
+ */
+function parseFlow(text: string, line: number): YamlValue {
+  let position = 0;
+
+  const skipSpace = (): void => {
+    while (position < text.length && text[position] === ' ') {
+      position += 1;
+    }
+  };
+
+  const readToken = (): YamlValue => {
+    skipSpace();
+    if (text[position] === '[' || text[position] === '{') {
+      return readCollection();
+    }
+    if (text[position] === '"') {
+      const end = endOfQuoted(text.slice(position));
+      if (end === -1) {
+        throw new YamlParseError('Unterminated string', line);
+      }
+      const value = JSON.parse(text.slice(position, position + end + 1)) as string;
+      position += end + 1;
+      return value;
+    }
+    if (text[position] === "'") {
+      const end = endOfSingleQuoted(text.slice(position));
+      if (end === -1) {
+        throw new YamlParseError('Unterminated string', line);
+      }
+      const value = unquoteSingle(text.slice(position, position + end + 1));
+      position += end + 1;
+      return value;
+    }
+    const start = position;
+    while (position < text.length && !',]}'.includes(text[position]) && !(text[position] === ':' && text[position + 1] === ' ')) {
+      position += 1;
+    }
+    return plainScalar(text.slice(start, position).trim());
+  };
+
+  const readCollection = (): YamlValue => {
+    const open = text[position];
+    const close = open === '[' ? ']' : '}';
+    position += 1;
+    const items: YamlValue[] = [];
+    const mapping: { [key: string]: YamlValue } = {};
+
+    skipSpace();
+    while (text[position] !== close) {
+      if (position >= text.length) {
+        throw new YamlParseError(`Unterminated flow collection, expected '${close}'`, line);
+      }
+      const item = readToken();
+      skipSpace();
+      if (open === '{') {
+        if (text[position] !== ':') {
+          throw new YamlParseError('Expected ":" in flow mapping', line);
+        }
+        position += 1;
+        mapping[String(item)] = readToken();
+        skipSpace();
+      } else {
+        items.push(item);
+      }
+      if (text[position] === ',') {
+        position += 1;
+        skipSpace();
+      } else if (text[position] !== close) {
+        throw new YamlParseError(`Expected ',' or '${close}' in flow collection`, line);
+      }
+    }
+    position += 1;
+    return open === '[' ? items : mapping;
+  };
+
+  const value = readCollection();
+  skipSpace();
+  if (position !== text.length) {
+    throw new YamlParseError('Unexpected text after flow collection', line);
+  }
+  return value;
+}
+
+function isMapping(value: YamlValue): value is { [key: string]: YamlValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBlockCollection(value: YamlValue): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return isMapping(value) && definedEntries(value).length > 0;
+}
+
+function definedEntries(value: { [key: string]: YamlValue }): [string, YamlValue][] {
+  return Object.entries(value).filter(([, child]) => child !== undefined);
+}
@@ -0,0 +1,203 @@
+// Zip: Minimal reader for the .zip archives mods are shipped in (stored and deflated entries).
+import { promises as fs } from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
+import { inflateRawSync } from 'node:zlib';
+
+/**
+ * One file entry from the central directory
+ */
+export interface ZipEntry {
+  /** Path inside the archive, forward slashes */
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  crc32: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Compression methods this reader can extract
+ */
+export const ZipMethod = {
+  Stored: 0,
+  Deflate: 8,
+} as const;
+
+/**
+ * Raised when an archive is malformed or uses features this reader does not support
+ * (zip64, encryption, compression methods other than stored and deflate)
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath === undefined ? message : `${filePath}: ${message}`);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_SIZE = 22;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+const MAX_COMMENT_SIZE = 0xffff;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+/**
+ * List the file entries of an archive in central directory order. Folder entries
+ * (names ending in `/`) are left out.
+ *
+ * @throws ZipFormatError when the archive cannot be read
+ */
+export async function readZipEntries(filePath: string): Promise<ZipEntry[]> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    return await readEntries(handle, filePath);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Extract the bytes of one entry and check them against the recorded CRC-32.
+ *
+ * @throws ZipFormatError for encrypted entries, unsupported methods and corrupt data
+ */
+export async function readZipEntry(filePath: string, entry: ZipEntry): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    return await readEntry(handle, entry, filePath);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * CRC-32 (IEEE 802.3) as used by zip.
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+async function readEntries(handle: FileHandle, filePath: string): Promise<ZipEntry[]> {
+  const { size } = await handle.stat();
+  if (size < EOCD_SIZE) {
+    throw new ZipFormatError('File is too small to be a zip archive', filePath);
+  }
+
+  // The end of central directory record sits at the end, after an optional comment.
+  const tailSize = Math.min(size, EOCD_SIZE + MAX_COMMENT_SIZE);
+  const tail = await readAt(handle, size - tailSize, tailSize);
+  let eocd = -1;
+  for (let offset = tail.length - EOCD_SIZE; offset >= 0; offset -= 1) {
+    if (tail.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new ZipFormatError('End of central directory not found; not a zip archive', filePath);
+  }
+
+  const entryCount = tail.readUInt16LE(eocd + 10);
+  const directorySize = tail.readUInt32LE(eocd + 12);
+  const directoryOffset = tail.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    throw new ZipFormatError('Zip64 archives are not supported', filePath);
+  }
+  if (directoryOffset + directorySize > size) {
+    throw new ZipFormatError('Central directory lies outside the file', filePath);
+  }
+
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + CENTRAL_HEADER_SIZE > directory.length || directory.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new ZipFormatError(`Central directory entry ${index + 1} is corrupt`, filePath);
+    }
+    const flags = directory.readUInt16LE(offset + 8);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const rawName = directory.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength);
+    // Without the UTF-8 flag names are CP437; latin1 keeps ASCII names intact.
+    const name = rawName.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1').replace(/\\/gu, '/');
+    const entry: ZipEntry = {
+      name,
+      method: directory.readUInt16LE(offset + 10),
+      crc32: directory.readUInt32LE(offset + 16),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      uncompressedSize: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42),
+    };
+    if (flags & FLAG_ENCRYPTED) {
+      throw new ZipFormatError(`Entry '${name}' is encrypted`, filePath);
+    }
+    if (entry.compressedSize === 0xffffffff || entry.uncompressedSize === 0xffffffff || entry.localHeaderOffset === 0xffffffff) {
+      throw new ZipFormatError('Zip64 archives are not supported', filePath);
+    }
+    if (!name.endsWith('/')) {
+      entries.push(entry);
+    }
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readEntry(handle: FileHandle, entry: ZipEntry, filePath: string): Promise<Buffer> {
+  const header = await readAt(handle, entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+  if (header.length < LOCAL_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_SIGNATURE) {
+    throw new ZipFormatError(`Local header of '${entry.name}' is corrupt`, filePath);
+  }
+  const dataOffset = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const stored = await readAt(handle, dataOffset, entry.compressedSize);
+  if (stored.length < entry.compressedSize) {
+    throw new ZipFormatError(`Data of '${entry.name}' is truncated`, filePath);
+  }
+
+  let data: Buffer;
+  switch (entry.method) {
+    case ZipMethod.Stored:
+      data = stored;
+      break;
+    case ZipMethod.Deflate:
+      try {
+        data = inflateRawSync(stored);
+      } catch (error) {
+        throw new ZipFormatError(`Cannot inflate '${entry.name}': ${(error as Error).message}`, filePath);
+      }
+      break;
+    default:
+      throw new ZipFormatError(`Entry '${entry.name}' uses unsupported compression method ${entry.method}`, filePath);
+  }
+
+  if (data.length !== entry.uncompressedSize || crc32(data) !== entry.crc32) {
+    throw new ZipFormatError(`Entry '${entry.name}' is corrupt (size or CRC-32 mismatch)`, filePath);
+  }
+  return data;
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
@@ -0,0 +1,55 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { classifyPackages, classifyTypes } from '../src/basic/classify.js';
+import type { PackageInfo } from '../src/basic/scanner.js';
+import { countResourceTypes } from '../src/core/s4tk.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+const CASP = 0x034aeecb;
+const GEOM = 0x015a1849;
+const RLE2 = 0x3453cf95;
+const OBJD = 0xc0db5ae7;
+const COBJ = 0x319e4f1d;
+const OBJECT_TUNING = 0xb61de6b4;
+const BUFF_TUNING = 0x6017e896;
+const SIMDATA = 0x545ac67a;
+const STBL = 0x220557da;
+const DST = 0x00b2d882;
+const METG = 0x4d455447;
+
+function info(path: string): PackageInfo {
+  return { path, normalizedPath: path, name: path.split(/[/\\]/).pop() ?? path, size: 0, mtime: new Date(0) };
+}
+
+describe('Classify Module', () => {
+  it('tags packages by their defining resources', () => {
+    expect(classifyTypes(countResourceTypes([CASP, GEOM, RLE2, STBL]))).toBe('cas');
+    expect(classifyTypes(countResourceTypes([OBJD, COBJ, OBJECT_TUNING, SIMDATA, DST]))).toBe('build-buy');
+    expect(classifyTypes(countResourceTypes([BUFF_TUNING, SIMDATA, STBL]))).toBe('gameplay');
+    expect(classifyTypes(countResourceTypes([CASP, OBJD]))).toBe('mixed');
+    expect(classifyTypes(countResourceTypes([CASP, BUFF_TUNING]))).toBe('mixed');
+  });
+
+  it('treats asset-only packages as overrides and ignores merge metadata', () => {
+    expect(classifyTypes(countResourceTypes([RLE2, DST]))).toBe('override');
+    expect(classifyTypes(countResourceTypes([METG, CASP]))).toBe('cas');
+    expect(classifyTypes(countResourceTypes([METG]))).toBe('unknown');
+    expect(classifyTypes(countResourceTypes([0x12345678]))).toBe('unknown');
+    expect(classifyTypes([])).toBe('unknown');
+  });
+
+  it('classifies package files from their index and reports unreadable ones', async () => {
+    const errors: string[] = [];
+    const inputs = [info(join(testPackagesDir, 'test-file-1.package')), info(join(testPackagesDir, 'missing.package'))];
+
+    const classified = await classifyPackages(inputs, errors);
+
+    expect(classified.map((pkg) => pkg.category)).toEqual(['build-buy', 'unknown']);
+    expect(inputs[0].category).toBeUndefined();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('missing.package');
+  });
+});
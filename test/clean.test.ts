@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { cleanTempFiles, findTempFiles, formatAge, formatCleanReport } from '../src/basic/clean.js';
+
+const SUFFIX = '0123456789abcdef01234567';
+const HOUR = 3_600_000;
+
+describe('clean', () => {
+  let root: string;
+  const now = new Date('2026-06-01T12:00:00Z');
+
+  async function writeAged(path: string, content: string, ageMs: number): Promise<void> {
+    await fs.writeFile(path, content);
+    const time = new Date(now.getTime() - ageMs);
+    await fs.utimes(path, time, time);
+  }
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 's4merge-clean-'));
+    await fs.mkdir(join(root, 'out', '.hidden'), { recursive: true });
+    await writeAged(join(root, 'out', `.tmp-All.package-${SUFFIX}`), 'x'.repeat(2048), 3 * 24 * HOUR);
+    await writeAged(join(root, 'out', '.hidden', `.tmp-All.manifest.yaml-${SUFFIX}`), 'abc', 2 * HOUR);
+    await writeAged(join(root, `.tmp-Busy.package-${SUFFIX}`), 'abcd', 60_000);
+    await writeAged(join(root, 'out', 'All.package'), 'keep', 3 * 24 * HOUR);
+    await writeAged(join(root, 'out', '.tmp-notes.txt'), 'keep', 3 * 24 * HOUR);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('finds only createTempFile names, in hidden folders too', async () => {
+    const errors: string[] = [];
+
+    const found = await findTempFiles([root], errors);
+
+    expect(found).toEqual([
+      join(root, `.tmp-Busy.package-${SUFFIX}`),
+      join(root, 'out', '.hidden', `.tmp-All.manifest.yaml-${SUFFIX}`),
+      join(root, 'out', `.tmp-All.package-${SUFFIX}`),
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('only reports without --yes', async () => {
+    const report = await cleanTempFiles([root], { yes: false, minAgeMs: HOUR, now });
+
+    expect(report.files.map((file) => [file.target, file.status])).toEqual([
+      ['Busy.package', 'recent'],
+      ['All.manifest.yaml', 'would-delete'],
+      ['All.package', 'would-delete'],
+    ]);
+    expect(report.reclaimedBytes).toBe(2051);
+    expect(report.skippedCount).toBe(1);
+    expect(await findTempFiles([root], [])).toHaveLength(3);
+    expect(formatCleanReport(report, false)).toContain('would delete 2 (2.0 KiB), skipped 1');
+  });
+
+  it('deletes old temp files with --yes and keeps recent ones', async () => {
+    const report = await cleanTempFiles([root], { yes: true, minAgeMs: HOUR, now });
+
+    expect(report.files.filter((file) => file.status === 'deleted')).toHaveLength(2);
+    expect(report.errors).toEqual([]);
+    expect(await findTempFiles([root], [])).toEqual([join(root, `.tmp-Busy.package-${SUFFIX}`)]);
+    expect((await fs.readdir(join(root, 'out'))).sort()).toEqual(['.hidden', '.tmp-notes.txt', 'All.package']);
+  });
+
+  it('formats ages with their two largest units', () => {
+    expect(formatAge(0)).toBe('0s');
+    expect(formatAge(45_000)).toBe('45s');
+    expect(formatAge(12 * 60_000 + 5_000)).toBe('12m');
+    expect(formatAge(3 * HOUR + 5 * 60_000)).toBe('3h 5m');
+    expect(formatAge(2 * 24 * HOUR + 4 * HOUR)).toBe('2d 4h');
+  });
+});
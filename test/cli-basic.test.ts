@@ -1,7 +1,14 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promises as fs } from 'node:fs';
 import { describe, it, expect, vi } from 'vitest';
+import { runBasic } from '../src/basic/main.js';
 import { buildCli } from '../src/cli.js';
 import type { BasicCliOptions } from '../src/basic/types.js';
 
+// Parsing tests only exercise the CLI surface; keep the orchestrator from touching the filesystem.
+vi.mock('../src/basic/main.js', () => ({ runBasic: vi.fn(async () => 0) }));
+
 // Helper to parse argv and capture output/errors
 async function parse(argv: string[]) {
   const cli = buildCli();
@@ -95,6 +102,18 @@ describe('CLI: basic subcommand', () => {
     expect(output!.dryRun).toBe(false);
     expect(output!.progress).toBe(false);
     expect(output!.in).toEqual([]);
+    expect(output!.collisionPolicy).toBe('shadow-original');
+  });
+
+  it('should parse --collision-policy', async () => {
+    const { output, error } = await parse([
+      'basic',
+      '--in', 'dir',
+      '--out', 'out.package',
+      '--collision-policy', 'keep-first'
+    ]);
+    expect(error).toBeUndefined();
+    expect(output!.collisionPolicy).toBe('keep-first');
   });
 
   describe('Flag Validation Errors', () => {
@@ -127,6 +146,54 @@ describe('CLI: basic subcommand', () => {
       expect(errorMessage).toContain('--by-folder also requires --out-root');
     });
 
+    it('should fail if --by-folder and --group-by category are combined', async () => {
+      const { errorMessage, exitCode } = await parse([
+        'basic',
+        '--in', 'dir',
+        '--by-folder',
+        '--group-by', 'category',
+        '--out-root', 'out'
+      ]);
+      expect(exitCode).toBe(1);
+      expect(errorMessage).toContain('--by-folder and --group-by category are mutually exclusive');
+    });
+
+    it('should fail if --group-by is used without --out-root', async () => {
+      const { errorMessage, exitCode } = await parse(['basic', '--in', 'dir', '--group-by', 'category']);
+      expect(exitCode).toBe(1);
+      expect(errorMessage).toContain('--group-by category also requires --out-root');
+    });
+
+    it('should require the argument that goes with each --group-by strategy', async () => {
+      const missing = await parse(['basic', '--in', 'dir', '--group-by', 'depth', '--out-root', 'out']);
+      expect(missing.exitCode).toBe(1);
+      expect(missing.errorMessage).toContain('--group-by depth requires --group-depth <n>');
+
+      const stray = await parse(['basic', '--in', 'dir', '--by-folder', '--out-root', 'out', '--group-map', 'map.yaml']);
+      expect(stray.exitCode).toBe(1);
+      expect(stray.errorMessage).toContain('--group-map <path> can only be used with --group-by mapping');
+
+      const regex = await parse(['basic', '--in', 'dir', '--group-by', 'regex', '--group-regex', '(', '--out-root', 'out']);
+      expect(regex.exitCode).toBe(1);
+      expect(regex.errorMessage).toContain('--group-regex is not a valid regular expression');
+
+      const depth = await parse(['basic', '--in', 'dir', '--group-by', 'depth', '--group-depth', '2', '--out-root', 'out']);
+      expect(depth.error).toBeUndefined();
+      expect(depth.output!.groupDepth).toBe(2);
+    });
+
+    it('should collect repeatable --include/--exclude globs and reject invalid ones', async () => {
+      const ok = await parse(['basic', '--in', 'dir', '--out', 'o.package', '--exclude', '_disabled/', '--exclude', 'WIP/**', '--no-ignore-files']);
+      expect(ok.error).toBeUndefined();
+      expect(ok.output!.exclude).toEqual(['_disabled/', 'WIP/**']);
+      expect(ok.output!.include).toEqual([]);
+      expect(ok.output!.ignoreFiles).toBe(false);
+
+      const bad = await parse(['basic', '--in', 'dir', '--out', 'o.package', '--include', 'v[0-9']);
+      expect(bad.exitCode).toBe(1);
+      expect(bad.errorMessage).toContain("--include: Invalid pattern 'v[0-9': unterminated character class");
+    });
+
     it('should fail if --out-root is used without --by-folder', async () => {
       const { errorMessage, exitCode } = await parse(['basic', '--in', 'dir', '--out-root', 'out']);
       expect(exitCode).toBe(1);
@@ -154,6 +221,86 @@ describe('CLI: basic subcommand', () => {
       expect(exitCode).toBe(1);
       expect(errorMessage).toContain('--max-size must be a positive number');
     });
+
+    it('should reject --watch with --dry-run and a negative --watch-debounce', async () => {
+      const dryRun = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--watch', '--dry-run']);
+      expect(dryRun.exitCode).toBe(1);
+      expect(dryRun.errorMessage).toContain('--watch and --dry-run are mutually exclusive');
+
+      const debounce = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--watch', '--watch-debounce', '-5']);
+      expect(debounce.exitCode).toBe(1);
+      expect(debounce.errorMessage).toContain('--watch-debounce must be a non-negative integer');
+
+      const valid = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--watch']);
+      expect(valid.output).toMatchObject({ watch: true, watchDebounce: 500 });
+    });
+
+    it('should reject a non-positive --jobs or --memory-budget', async () => {
+      const jobs = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--jobs', '0']);
+      expect(jobs.exitCode).toBe(1);
+      expect(jobs.errorMessage).toContain('--jobs must be a positive integer');
+
+      const budget = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--memory-budget', '-1']);
+      expect(budget.exitCode).toBe(1);
+      expect(budget.errorMessage).toContain('--memory-budget must be a positive number');
+
+      const valid = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--jobs', '4']);
+      expect(valid.output).toMatchObject({ jobs: 4, memoryBudget: 256 });
+    });
+
+    it('should use the cache unless --no-cache is given', async () => {
+      const cached = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--cache-dir', 'cache']);
+      expect(cached.output).toMatchObject({ cache: true, cacheDir: 'cache', cacheContentHash: false });
+
+      const hashed = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--cache-content-hash']);
+      expect(hashed.output).toMatchObject({ cache: true, cacheContentHash: true });
+
+      const uncached = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--no-cache']);
+      expect(uncached.output).toMatchObject({ cache: false });
+    });
+
+    it('should reject --conflict-report without --dry-run', async () => {
+      const result = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--conflict-report', 'conflicts.json']);
+      expect(result.exitCode).toBe(1);
+      expect(result.errorMessage).toContain('--conflict-report <path> can only be used with --dry-run');
+
+      const valid = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--dry-run', '--conflict-report', 'conflicts.json']);
+      expect(valid.output).toMatchObject({ conflictReport: 'conflicts.json' });
+    });
+
+    it('should reject --resume with --dry-run or --watch', async () => {
+      const dryRun = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--resume', '--dry-run']);
+      expect(dryRun.exitCode).toBe(1);
+      expect(dryRun.errorMessage).toContain('--resume cannot be combined with --dry-run');
+
+      const watch = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--resume', '--watch']);
+      expect(watch.exitCode).toBe(1);
+      expect(watch.errorMessage).toContain('--resume cannot be combined with --watch');
+
+      const valid = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--resume']);
+      expect(valid.output).toMatchObject({ resume: true });
+    });
+
+    it('should reject --stats-json or --verify with --watch', async () => {
+      const stats = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--watch', '--stats-json', 'stats.json']);
+      expect(stats.exitCode).toBe(1);
+      expect(stats.errorMessage).toContain('--stats-json cannot be combined with --watch');
+
+      const verify = await parse(['basic', '--in', 'dir', '--out', 'out.package', '--watch', '--verify']);
+      expect(verify.exitCode).toBe(1);
+      expect(verify.errorMessage).toContain('--verify cannot be combined with --watch');
+    });
+  });
+
+  it('should fail with an invalid --collision-policy value', async () => {
+    const { errorMessage, exitCode } = await parse([
+      'basic',
+      '--in', 'dir',
+      '--out', 'out.package',
+      '--collision-policy', 'newest'
+    ]);
+    expect(exitCode).toBe(1);
+    expect(errorMessage).toContain('Allowed choices are keep-last, keep-first, shadow-original.');
   });
 
   it('should generate correct help text', async () => {
@@ -171,4 +318,36 @@ describe('CLI: basic subcommand', () => {
     expect(help).toContain('--max-size <MB>');
     expect(help).toContain('--dry-run');
   });
+
+  describe('Profiles', () => {
+    it('expands a profile, lets flags override it and validates the result', async () => {
+      const dir = await fs.mkdtemp(join(tmpdir(), 's4merge-profile-'));
+      const config = join(dir, 'team.yaml');
+      await fs.writeFile(
+        config,
+        'profiles:\n  weekly:\n    in: Mods\n    out: All.package\n    sort: mtime\n  broken:\n    in: Mods\n    out: All.package\n    maxSize: -1\n',
+      );
+      try {
+        let resolved: BasicCliOptions | undefined;
+        vi.mocked(runBasic).mockImplementationOnce(async (options) => {
+          resolved = options;
+          return 0;
+        });
+        const { error } = await parse(['basic', '--profile', 'weekly', '--config', config, '--sort', 'name']);
+        expect(error).toBeUndefined();
+        expect(resolved).toMatchObject({
+          in: [join(dir, 'Mods')],
+          out: join(dir, 'All.package'),
+          sort: 'name',
+        });
+
+        const broken = await parse(['basic', '--profile', 'broken', '--config', config]);
+        expect(broken.exitCode).toBe(1);
+        expect(broken.errorMessage).toContain('--max-size must be a positive number');
+        expect(broken.errorMessage).toContain("from profile 'broken': profiles.broken.maxSize");
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -10,8 +10,15 @@ describe('s4merge basic --help', () => {
     const expectedFlags = [
       '--in',
       '--files',
+      '--include',
+      '--exclude',
+      '--no-ignore-files',
       '--out',
       '--by-folder',
+      '--group-by',
+      '--group-depth',
+      '--group-regex',
+      '--group-map',
       '--out-root',
       '--sort',
       '--reverse',
@@ -22,6 +29,16 @@ describe('s4merge basic --help', () => {
       '--verify',
       '--dry-run',
       '--progress',
+      '--watch',
+      '--watch-debounce',
+      '--jobs',
+      '--memory-budget',
+      '--no-cache',
+      '--cache-dir',
+      '--cache-content-hash',
+      '--resume',
+      '--profile',
+      '--config',
     ];
 
     for (const flag of expectedFlags) {
@@ -33,10 +50,101 @@ describe('s4merge basic --help', () => {
     const cli = buildCli();
     const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-    await cli.parseAsync(['basic', '--dry-run', '--in', './', '--out', 'D:/Merged/All.package'], { from: 'user' });
+    await cli.parseAsync(['basic', '--dry-run', '--no-cache', '--in', './', '--out', 'D:/Merged/All.package'], { from: 'user' });
 
     // expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('basic: planned'));
     logSpy.mockRestore();
     process.exitCode = undefined;
   });
 });
+
+describe('s4merge conflicts --help', () => {
+  it('lists the documented options for the conflicts subcommand', () => {
+    const program = buildCli();
+    const conflicts = program.commands.find(c => c.name() === 'conflicts');
+    const help = conflicts ? conflicts.helpInformation() : '';
+
+    for (const flag of ['--in', '--files', '--sort', '--reverse', '--format', '--out', '--no-cache', '--cache-dir', '--cache-content-hash']) {
+      expect(help).toContain(flag);
+    }
+  });
+});
+
+describe('s4merge update --help', () => {
+  it('lists the documented options for the update subcommand', () => {
+    const program = buildCli();
+    const update = program.commands.find(c => c.name() === 'update');
+    const help = update ? update.helpInformation() : '';
+
+    for (const flag of ['--merged', '--replace', '--add', '--remove', '--in', '--out', '--manifest-out', '--dry-run']) {
+      expect(help).toContain(flag);
+    }
+  });
+});
+
+describe('s4merge verify --help', () => {
+  it('lists the documented options for the verify subcommand', () => {
+    const program = buildCli();
+    const verify = program.commands.find(c => c.name() === 'verify');
+    const help = verify ? verify.helpInformation() : '';
+
+    for (const flag of ['<packages...>', '--manifest', '--format', '--no-cache', '--cache-dir', '--cache-content-hash']) {
+      expect(help).toContain(flag);
+    }
+  });
+});
+
+describe('s4merge inspect --help', () => {
+  it('lists the documented options for the inspect subcommand', () => {
+    const program = buildCli();
+    const inspect = program.commands.find(c => c.name() === 'inspect');
+    const help = inspect ? inspect.helpInformation() : '';
+
+    for (const flag of ['<package>', '--type', '--instance', '--format', '--extract', '--raw']) {
+      expect(help).toContain(flag);
+    }
+  });
+});
+
+describe('s4merge lint --help', () => {
+  it('lists the documented options for the lint subcommand', () => {
+    const program = buildCli();
+    const lint = program.commands.find(c => c.name() === 'lint');
+    const help = lint ? lint.helpInformation() : '';
+
+    for (const flag of ['<mods>', '--format']) {
+      expect(help).toContain(flag);
+    }
+  });
+});
+
+describe('s4merge clean --help', () => {
+  it('lists the documented options for the clean subcommand', () => {
+    const program = buildCli();
+    const clean = program.commands.find(c => c.name() === 'clean');
+    const help = clean ? clean.helpInformation() : '';
+
+    for (const flag of ['<roots...>', '--yes', '--min-age', '--format']) {
+      expect(help).toContain(flag);
+    }
+  });
+});
+
+describe('s4merge cache prune --help', () => {
+  it('lists the documented options for the cache prune subcommand', () => {
+    const program = buildCli();
+    const cache = program.commands.find(c => c.name() === 'cache');
+    const prune = cache?.commands.find(c => c.name() === 'prune');
+    const help = prune ? prune.helpInformation() : '';
+
+    for (const flag of ['--cache-dir', '--all', '--dry-run', '--format']) {
+      expect(help).toContain(flag);
+    }
+  });
+});
+
+describe('s4merge --help', () => {
+  it('lists the global --resource-types option', () => {
+    expect(buildCli().helpInformation()).toContain('--resource-types');
+  });
+});
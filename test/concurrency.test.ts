@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { LoadLimiter, loadInOrder, mapInOrder } from '../src/util/concurrency.js';
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('concurrency', () => {
+  it('yields results in item order while loading up to jobs items at once', async () => {
+    const limiter = new LoadLimiter(3, 1000);
+    let running = 0;
+    let peak = 0;
+    const load = async (item: number): Promise<number> => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await delay((5 - item) * 3);
+      running -= 1;
+      return item * 10;
+    };
+
+    const results: number[] = [];
+    for await (const value of loadInOrder([0, 1, 2, 3, 4], limiter, () => 1, load)) {
+      results.push(value);
+    }
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(peak).toBe(3);
+  });
+
+  it('holds loaded items within the memory budget until they are consumed', async () => {
+    const limiter = new LoadLimiter(4, 100);
+    const started: number[] = [];
+    const consumed: number[] = [];
+    const load = async (item: number): Promise<number> => {
+      started.push(item);
+      return item;
+    };
+
+    for await (const value of loadInOrder([0, 1, 2, 3], limiter, () => 60, load)) {
+      // Only one 60-byte item fits the 100-byte budget, so none is loaded before the previous one is consumed.
+      expect(started).toEqual(consumed.length === 3 ? [0, 1, 2, 3] : [...consumed, value]);
+      consumed.push(value);
+    }
+    expect(consumed).toEqual([0, 1, 2, 3]);
+  });
+
+  it('loads an item larger than the budget once nothing else is held', async () => {
+    const limiter = new LoadLimiter(2, 10);
+    const results: number[] = [];
+
+    for await (const value of loadInOrder([5, 50, 5], limiter, (item) => item, async (item) => item)) {
+      results.push(value);
+    }
+
+    expect(results).toEqual([5, 50, 5]);
+  });
+
+  it('throws a failed load in its turn and leaves the limiter usable', async () => {
+    const limiter = new LoadLimiter(2, 10);
+    const results: number[] = [];
+    const load = async (item: number): Promise<number> => {
+      if (item === 1) {
+        throw new Error('unreadable');
+      }
+      return item;
+    };
+
+    await expect(async () => {
+      for await (const value of loadInOrder([0, 1, 2], limiter, () => 8, load)) {
+        results.push(value);
+      }
+    }).rejects.toThrow('unreadable');
+    expect(results).toEqual([0]);
+
+    const again: number[] = [];
+    for await (const value of loadInOrder([7], limiter, () => 8, async (item) => item)) {
+      again.push(value);
+    }
+    expect(again).toEqual([7]);
+  });
+
+  it('maps with bounded concurrency and keeps item order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapInOrder([3, 1, 2, 0], 2, async (item, index) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await delay(item * 3);
+      running -= 1;
+      return `${index}:${item}`;
+    });
+
+    expect(results).toEqual(['0:3', '1:1', '2:2', '3:0']);
+    expect(peak).toBe(2);
+  });
+
+  it('rejects jobs below 1', () => {
+    expect(() => new LoadLimiter(0, 10)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,143 @@
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigError, expandProfile, explainProfileError, findConfigFile, parseConfig } from '../src/basic/config.js';
+import type { BasicCliOptions } from '../src/basic/types.js';
+
+const defaults: BasicCliOptions = {
+  in: [],
+  include: [],
+  exclude: [],
+  ignoreFiles: true,
+  byFolder: false,
+  sort: 'path',
+  reverse: false,
+  changelog: true,
+  verify: false,
+  dryRun: false,
+  progress: false,
+  collisionPolicy: 'shadow-original',
+  dedupeIdentical: false,
+  skipDuplicates: false,
+  watch: false,
+  watchDebounce: 500,
+  resume: false,
+  jobs: 1,
+  memoryBudget: 256,
+  cache: true,
+  cacheContentHash: false,
+};
+
+const WEEKLY = `profiles:
+  weekly:
+    in: [Mods/CC, Mods/Gameplay]
+    groupBy: category
+    outRoot: Merged
+    sort: mtime
+    maxSize: 500
+    collisionPolicy: keep-last
+`;
+
+describe('Config Module', () => {
+  let sandbox: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  it('parses YAML profiles and resolves paths against the config folder', () => {
+    const config = parseConfig(WEEKLY, join(sandbox, 's4merge.config.yaml'));
+    expect(config.profiles.weekly).toEqual({
+      in: [join(sandbox, 'Mods/CC'), join(sandbox, 'Mods/Gameplay')],
+      groupBy: 'category',
+      outRoot: join(sandbox, 'Merged'),
+      sort: 'mtime',
+      maxSize: 500,
+      collisionPolicy: 'keep-last',
+    });
+    expect(parseConfig('{"profiles": {"a": {"in": "Mods", "verify": true}}}', join(sandbox, 'c.json')).profiles.a).toEqual({
+      in: [join(sandbox, 'Mods')],
+      verify: true,
+    });
+  });
+
+  it('reads block lists at the indentation of their key, followed by a sibling key', () => {
+    const text = ['profiles:', '  weekly:', '    in:', '    - Mods/A', '    - Mods/B', '    out: All.package', ''].join('\n');
+    expect(parseConfig(text, join(sandbox, 's4merge.config.yaml')).profiles.weekly).toEqual({
+      in: [join(sandbox, 'Mods/A'), join(sandbox, 'Mods/B')],
+      out: join(sandbox, 'All.package'),
+    });
+  });
+
+  it('strips single quotes from block and flow values', () => {
+    const text = ['profiles:', '  weekly:', "    out: 'Merged/All.package'", "    exclude: ['_disabled/**', WIP/, 'it''s']", ''].join('\n');
+    expect(parseConfig(text, join(sandbox, 's4merge.config.yaml')).profiles.weekly).toEqual({
+      out: join(sandbox, 'Merged/All.package'),
+      exclude: ['_disabled/**', 'WIP/', "it's"],
+    });
+  });
+
+  it('names the offending profile field', () => {
+    const path = 's4merge.config.yaml';
+    expect(() => parseConfig('profiles:\n  weekly:\n    maxSize: big\n', path)).toThrow(
+      's4merge.config.yaml: profiles.weekly.maxSize must be a number',
+    );
+    expect(() => parseConfig('profiles:\n  weekly:\n    sort: size\n', path)).toThrow('profiles.weekly.sort must be one of name, path, mtime');
+    expect(() => parseConfig('profiles:\n  weekly:\n    outFile: x\n', path)).toThrow('profiles.weekly.outFile is not a known profile field');
+    expect(() => parseConfig('profile: {}\n', path)).toThrow(ConfigError);
+  });
+
+  it('finds the config file in the working directory', async () => {
+    expect(await findConfigFile(sandbox)).toBeUndefined();
+    await fs.writeFile(join(sandbox, 's4merge.config.yml'), WEEKLY);
+    expect(await findConfigFile(sandbox)).toBe(join(sandbox, 's4merge.config.yml'));
+  });
+
+  it('lets command-line flags override profile values', async () => {
+    await fs.writeFile(join(sandbox, 's4merge.config.yaml'), WEEKLY);
+    const options = { ...defaults, profile: 'weekly', sort: 'name' as const, maxSize: 100 };
+    const sources: Record<string, string> = { sort: 'cli', maxSize: 'cli', in: 'default', collisionPolicy: 'default' };
+
+    const expansion = await expandProfile(options, (key) => sources[key], sandbox);
+
+    expect(expansion.options).toMatchObject({
+      in: [join(sandbox, 'Mods/CC'), join(sandbox, 'Mods/Gameplay')],
+      groupBy: 'category',
+      sort: 'name',
+      maxSize: 100,
+      collisionPolicy: 'keep-last',
+    });
+    expect(expansion.fromProfile).toEqual(['in', 'groupBy', 'outRoot', 'collisionPolicy']);
+  });
+
+  it('reports missing config files and unknown profiles', async () => {
+    await expect(expandProfile({ ...defaults, profile: 'weekly' }, () => undefined, sandbox)).rejects.toThrow(
+      '--profile weekly needs a config file',
+    );
+    const config = join(sandbox, 'team.yaml');
+    await fs.writeFile(config, WEEKLY);
+    await expect(expandProfile({ ...defaults, profile: 'daily', config }, () => undefined, sandbox)).rejects.toThrow(
+      "Unknown profile 'daily' (available: weekly)",
+    );
+  });
+
+  it('points validation errors at the profile field behind a flag', () => {
+    const expansion = {
+      options: defaults,
+      profileName: 'weekly',
+      configPath: resolve('s4merge.config.yaml'),
+      fromProfile: ['out' as const, 'maxSize' as const],
+    };
+    const explained = explainProfileError(new Error('Validation error: --max-size must be a positive number.'), expansion);
+    expect(explained.message).toBe(
+      `Validation error: --max-size must be a positive number. (from profile 'weekly': profiles.weekly.maxSize in ${expansion.configPath})`,
+    );
+    const untouched = new Error('Output required: --by-folder also requires --out-root <dir>.');
+    expect(explainProfileError(untouched, expansion)).toBe(untouched);
+  });
+});
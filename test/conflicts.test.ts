@@ -0,0 +1,116 @@
+import { join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { Package, RawResource } from '@s4tk/models';
+import {
+  analyzeConflicts,
+  formatConflictReport,
+  reportFormatForPath,
+  serializeConflictReport,
+  writeConflictReport,
+} from '../src/basic/conflicts.js';
+import { packageInfo, useSandbox } from './helpers/fixtures.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Conflicts Module', () => {
+  const sandbox = useSandbox('s4merge-conflicts-');
+
+  it('reports no conflicts for packages with disjoint keys', async () => {
+    const inputs = await Promise.all(
+      ['test-file-1.package', 'test-file-2.package'].map((name) => packageInfo(join(testPackagesDir, name))),
+    );
+
+    const report = await analyzeConflicts(inputs);
+
+    expect(report.packageCount).toBe(2);
+    expect(report.resourceCount).toBe(37 + 58);
+    expect(report.conflictCount).toBe(0);
+    expect(report.errors).toEqual([]);
+  });
+
+  it('flags identical duplicates and picks the last provider as winner', async () => {
+    const original = join(testPackagesDir, 'test-file-1.package');
+    const copy = join(sandbox.path, 'copy.package');
+    await fs.copyFile(original, copy);
+
+    const report = await analyzeConflicts([await packageInfo(original), await packageInfo(copy)]);
+
+    expect(report.conflictCount).toBe(37);
+    expect(report.identicalCount).toBe(37);
+    for (const conflict of report.conflicts) {
+      expect(conflict.providers.map((provider) => provider.idx)).toEqual([1, 2]);
+      expect(conflict.winner.path).toBe(copy);
+      expect(conflict.payloadsDiffer).toBe(false);
+      expect(conflict.key).toMatch(/^0x[0-9a-f]{8}:0x[0-9a-f]{8}:0x[0-9a-f]{16}$/);
+    }
+
+    const keys = report.conflicts.map((conflict) => conflict.key);
+    expect(keys).toEqual(keys.slice().sort());
+  });
+
+  it('detects differing payloads for the same key', async () => {
+    const key = { type: 0x0166038c, group: 0x80000000, instance: 0x33ef4db3n };
+    const first = new Package();
+    first.add(key, RawResource.from(Buffer.from('first payload')));
+    const second = new Package();
+    second.add(key, RawResource.from(Buffer.from('second payload')));
+    second.add({ type: 1, group: 0, instance: 1n }, RawResource.from(Buffer.from('unique')));
+
+    const firstPath = join(sandbox.path, 'a.package');
+    const secondPath = join(sandbox.path, 'b.package');
+    await fs.writeFile(firstPath, first.getBuffer());
+    await fs.writeFile(secondPath, second.getBuffer());
+
+    const report = await analyzeConflicts([await packageInfo(firstPath), await packageInfo(secondPath)]);
+
+    expect(report.conflictCount).toBe(1);
+    expect(report.identicalCount).toBe(0);
+    expect(report.conflicts[0].key).toBe('0x0166038c:0x80000000:0x0000000033ef4db3');
+    expect(report.conflicts[0].payloadsDiffer).toBe(true);
+    expect(report.conflicts[0].winner.idx).toBe(2);
+
+    const text = formatConflictReport(report);
+    expect(text).toContain('1 colliding key(s)');
+    expect(text).toContain('[differs]');
+    expect(text).toContain(`* #2 ${secondPath}`);
+  });
+
+  it('records unreadable packages as errors and keeps going', async () => {
+    const broken = join(sandbox.path, 'broken.package');
+    await fs.writeFile(broken, 'not a package file');
+    const valid = await packageInfo(join(testPackagesDir, 'test-file-1.package'));
+
+    const report = await analyzeConflicts([await packageInfo(broken), valid]);
+
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0]).toContain('broken.package');
+    expect(report.resourceCount).toBe(37);
+  });
+
+  it('serializes reports as JSON and YAML with the same fields', async () => {
+    const original = join(testPackagesDir, 'test-file-1.package');
+    const copy = join(sandbox.path, 'copy.package');
+    await fs.copyFile(original, copy);
+    const report = await analyzeConflicts([await packageInfo(original), await packageInfo(copy)]);
+
+    const json = JSON.parse(serializeConflictReport(report, 'json'));
+    expect(json.conflicts).toBe(37);
+    expect(json.keys[0].providers).toHaveLength(2);
+    expect(json.keys[0].winner).toBe(copy);
+
+    const yaml = serializeConflictReport(report, 'yaml');
+    expect(yaml).toContain('conflicts: 37\n');
+    expect(yaml).toContain('payloads_differ: false');
+
+    expect(reportFormatForPath('report.YML')).toBe('yaml');
+    expect(reportFormatForPath('report.json')).toBe('json');
+
+    const target = join(sandbox.path, 'report.yaml');
+    await writeConflictReport(report, target);
+    expect(await fs.readFile(target, 'utf8')).toBe(yaml);
+  });
+});
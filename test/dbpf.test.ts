@@ -0,0 +1,97 @@
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { deflateSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CompressionType,
+  DbpfFormatError,
+  decompressPayload,
+  encodeDbpfHeader,
+  encodeDbpfIndex,
+  parseDbpfHeader,
+  parseDbpfIndex,
+  readDbpfIndex,
+} from '../src/core/dbpf.js';
+import { formatResourceKey, listResourceEntries, loadPackage } from '../src/core/s4tk.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('DBPF codec', () => {
+  let sandbox: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-dbpf-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  it('reads the same keys, in the same order, as S4TK', async () => {
+    const path = join(testPackagesDir, 'test-file-1.package');
+    const index = await readDbpfIndex(path);
+    const loaded = listResourceEntries(await loadPackage(path));
+
+    expect(index.map((entry) => formatResourceKey(entry.key))).toEqual(loaded.map((entry) => formatResourceKey(entry.key)));
+    expect(index.every((entry) => entry.compressedSize > 0 && entry.position >= 96)).toBe(true);
+  });
+
+  it('round-trips headers and index records', () => {
+    const entries = [
+      {
+        key: { type: 0x0166038c, group: 0x80000000, instance: 0xfedcba9876543210n },
+        position: 96,
+        compressedSize: 10,
+        uncompressedSize: 20,
+        compressionType: CompressionType.ZLIB,
+      },
+    ];
+    const index = encodeDbpfIndex(entries);
+    const header = parseDbpfHeader(encodeDbpfHeader(entries.length, 106, index.length));
+
+    expect(header).toMatchObject({ majorVersion: 2, minorVersion: 1, entryCount: 1, indexPosition: 106, indexSize: 36 });
+    expect(parseDbpfIndex(index, 1)).toEqual(entries);
+  });
+
+  it('honours constant type and group flags in the index', () => {
+    const index = Buffer.alloc(4 + 8 + 24);
+    index.writeUInt32LE(0b011, 0);
+    index.writeUInt32LE(0x0166038c, 4);
+    index.writeUInt32LE(0x7, 8);
+    index.writeUInt32LE(0x1, 12); // instance high
+    index.writeUInt32LE(0x2, 16); // instance low
+    index.writeUInt32LE(96, 20);
+    index.writeUInt32LE(5, 24); // not extended: uncompressed
+    index.writeUInt32LE(5, 28);
+
+    expect(parseDbpfIndex(index, 1)).toEqual([
+      {
+        key: { type: 0x0166038c, group: 0x7, instance: 0x100000002n },
+        position: 96,
+        compressedSize: 5,
+        uncompressedSize: 5,
+        compressionType: CompressionType.Uncompressed,
+      },
+    ]);
+  });
+
+  it('rejects files that are not DBPF 2.1 packages', async () => {
+    const path = join(sandbox, 'bogus.package');
+    await fs.writeFile(path, Buffer.alloc(128));
+    await expect(readDbpfIndex(path)).rejects.toThrow(DbpfFormatError);
+
+    const v3 = encodeDbpfHeader(0, 96, 4);
+    v3.writeUInt32LE(3, 4);
+    expect(() => parseDbpfHeader(v3)).toThrow(/version 2.1/);
+  });
+
+  it('decompresses stored payloads by compression type', () => {
+    const data = Buffer.from('payload');
+    expect(decompressPayload(deflateSync(data), CompressionType.ZLIB)).toEqual(data);
+    expect(decompressPayload(data, CompressionType.Uncompressed)).toEqual(data);
+    expect(() => decompressPayload(data, 0x1234)).toThrow(/Unsupported compression type 0x1234/);
+  });
+});
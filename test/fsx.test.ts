@@ -2,7 +2,7 @@ import { tmpdir } from 'node:os';
 import { dirname, join } from 'node:path';
 import { promises as fs } from 'node:fs';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { createTempFile, fsyncDir, fsyncFile, writeFileAtomic } from '../src/util/fsx.js';
+import { createTempFile, fsyncDir, fsyncFile, writeFileAtomic, writeStreamAtomic } from '../src/util/fsx.js';
 
 describe('fsx utilities', () => {
   let sandbox: string;
@@ -42,6 +42,24 @@ describe('fsx utilities', () => {
     expect(entries.filter(name => name.startsWith('.tmp-'))).toHaveLength(0);
   });
 
+  it('streams content through a handle and removes the temp file when writing fails', async () => {
+    const target = join(sandbox, 'stream.bin');
+
+    await writeStreamAtomic(target, async (handle) => {
+      await handle.write(Buffer.from('world'), 0, 5, 6);
+      await handle.write(Buffer.from('hello '), 0, 6, 0);
+    });
+    expect(await fs.readFile(target, 'utf8')).toBe('hello world');
+
+    await expect(
+      writeStreamAtomic(target, async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(await fs.readFile(target, 'utf8')).toBe('hello world');
+    expect((await fs.readdir(sandbox)).filter(name => name.startsWith('.tmp-'))).toHaveLength(0);
+  });
+
   it('leaves temp files behind when rename fails', async () => {
     const target = join(sandbox, 'fail.txt');
     const renameSpy = vi.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('rename failed'));
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { compileGlob, GlobSyntaxError, lastMatchingPattern, matchesGlob, parseIgnoreFile } from '../src/util/glob.js';
+
+const matches = (pattern: string, path: string, isDirectory = false): boolean => matchesGlob(compileGlob(pattern), path, isDirectory);
+
+describe('Glob Module', () => {
+  it('matches names at any depth unless the pattern has a slash', () => {
+    expect(matches('*.package', 'a.package')).toBe(true);
+    expect(matches('*.package', 'CC/Hair/a.package')).toBe(true);
+    expect(matches('CC/*.package', 'CC/a.package')).toBe(true);
+    expect(matches('CC/*.package', 'Other/CC/a.package')).toBe(false);
+    expect(matches('/loose.package', 'loose.package')).toBe(true);
+    expect(matches('/loose.package', 'CC/loose.package')).toBe(false);
+  });
+
+  it('supports ** across folders, ? and character classes', () => {
+    expect(matches('**/WIP', 'a/b/WIP', true)).toBe(true);
+    expect(matches('WIP/**', 'WIP/x/y.package')).toBe(true);
+    expect(matches('WIP/**', 'WIP', true)).toBe(false);
+    expect(matches('CC/**/old.package', 'CC/old.package')).toBe(true);
+    expect(matches('CC/**/old.package', 'CC/a/b/old.package')).toBe(true);
+    expect(matches('v?.package', 'v2.package')).toBe(true);
+    expect(matches('v[0-9].package', 'v7.package')).toBe(true);
+    expect(matches('v[!0-9].package', 'vx.package')).toBe(true);
+    expect(matches('v[!0-9].package', 'v7.package')).toBe(false);
+  });
+
+  it('ignores case and treats a trailing slash as folders only', () => {
+    expect(matches('_DISABLED/', '_disabled', true)).toBe(true);
+    expect(matches('_disabled/', '_disabled', false)).toBe(false);
+    expect(matches('\\!important.package', '!important.package')).toBe(true);
+  });
+
+  it('lets the last matching pattern decide, including negations', () => {
+    const patterns = parseIgnoreFile('# comment\n\n*.package   \n!keep.package\n');
+    expect(patterns.map((pattern) => [pattern.source, pattern.negated, pattern.line])).toEqual([
+      ['*.package', false, 3],
+      ['keep.package', true, 4],
+    ]);
+    expect(lastMatchingPattern(patterns, 'a.package', false)?.negated).toBe(false);
+    expect(lastMatchingPattern(patterns, 'x/keep.package', false)?.negated).toBe(true);
+    expect(lastMatchingPattern(patterns, 'readme.txt', false)).toBeUndefined();
+  });
+
+  it('rejects empty patterns and unterminated classes', () => {
+    expect(() => compileGlob('!')).toThrow(GlobSyntaxError);
+    expect(() => compileGlob('a[b')).toThrow("Invalid pattern 'a[b': unterminated character class");
+  });
+});
@@ -0,0 +1,128 @@
+import { spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { readDbpfIndex } from '../src/core/dbpf.js';
+import { formatResourceKey, isMergeMetadataKey } from '../src/core/s4tk.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+const cliPath = join(__dirname, '..', 'src', 'cli.ts');
+// Resolved here so the child processes can load TypeScript from any cwd
+const tsxLoader = pathToFileURL(createRequire(import.meta.url).resolve('tsx')).href;
+
+// Two deliberately different environments for the same merge
+const RUNS = [
+  { dir: 'run-a', env: { LC_ALL: 'C', LANG: 'C', TZ: 'UTC' }, mtime: new Date('2024-01-01T00:00:00Z') },
+  { dir: join('run-b', 'nested'), env: { LC_ALL: 'tr_TR.UTF-8', LANG: 'tr_TR.UTF-8', TZ: 'Pacific/Chatham' }, mtime: new Date('2001-09-09T01:46:40Z') },
+];
+
+describe('Golden output determinism', () => {
+  let sandbox: string;
+  let modsRoot: string;
+
+  beforeAll(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-golden-'));
+    modsRoot = join(sandbox, 'Mods');
+    await fs.mkdir(join(modsRoot, 'CAS', 'Hair'), { recursive: true });
+    await fs.mkdir(join(modsRoot, 'Build'), { recursive: true });
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(modsRoot, 'CAS', 'Hair', 'İlk.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-2.package'), join(modsRoot, 'CAS', 'second.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-3.package'), join(modsRoot, 'Build', 'third.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-4.package'), join(modsRoot, 'loose.package'));
+    // The same package twice so collision handling is part of the output
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(modsRoot, 'Build', 'copy.package'));
+    // ... and once more within one output, so it collides across parts when rolled over
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(modsRoot, 'CAS', 'zz-copy.package'));
+    for (const run of RUNS) {
+      await fs.mkdir(join(sandbox, run.dir), { recursive: true });
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  async function touchInputs(mtime: Date): Promise<void> {
+    for (const path of await listFiles(modsRoot)) {
+      await fs.utimes(path, mtime, mtime);
+    }
+  }
+
+  async function runCli(run: (typeof RUNS)[number], args: string[]): Promise<void> {
+    const cwd = join(sandbox, run.dir);
+    // The index cache stays in the sandbox instead of the per-user cache folder
+    const cliArgs = [...args, '--cache-dir', join(sandbox, 'cache'), '--in', relative(cwd, modsRoot)];
+    const result = spawnSync(process.execPath, ['--import', tsxLoader, cliPath, ...cliArgs], {
+      cwd,
+      env: { ...process.env, ...run.env },
+      encoding: 'utf8',
+      timeout: 120_000,
+    });
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(0);
+  }
+
+  // Manifests record the command line, timestamps and input mtimes, so only packages are compared.
+  async function hashTree(root: string): Promise<Record<string, string>> {
+    const hashes: Record<string, string> = {};
+    for (const path of (await listFiles(root)).filter((file) => file.endsWith('.package'))) {
+      hashes[relative(root, path)] = createHash('sha256').update(await fs.readFile(path)).digest('hex');
+    }
+    return hashes;
+  }
+
+  it.each([
+    ['single output', (out: string) => ['basic', '--out', join(out, 'All.package')]],
+    [
+      'by-folder, keep-last, rolled over',
+      (out: string) => ['basic', '--by-folder', '--out-root', out, '--collision-policy', 'keep-last', '--max-size', '3'],
+    ],
+  ])('produces byte-identical outputs across cwd, mtime, locale and time zone (%s)', async (label, argsFor) => {
+    const digests: Record<string, string>[] = [];
+    for (const [index, run] of RUNS.entries()) {
+      const out = join(sandbox, `out-${label.replace(/\W+/g, '-')}-${index}`);
+      await touchInputs(run.mtime);
+      await runCli(run, argsFor(out));
+      digests.push(await hashTree(out));
+    }
+
+    expect(Object.keys(digests[0]).length).toBeGreaterThan(0);
+    expect(digests[1]).toEqual(digests[0]);
+  }, 120_000);
+
+  it('keeps every key in only one part of a rolled-over output under keep-last', async () => {
+    const out = join(sandbox, 'out-parts');
+    await touchInputs(RUNS[0].mtime);
+    await runCli(RUNS[0], ['basic', '--by-folder', '--out-root', out, '--collision-policy', 'keep-last', '--max-size', '3']);
+
+    const keysByOutput = new Map<string, string[]>();
+    for (const path of (await listFiles(out)).filter((file) => file.endsWith('.package'))) {
+      const output = path.replace(/\.part\d+\.package$/u, '.package');
+      const entries = (await readDbpfIndex(path)).filter((entry) => !isMergeMetadataKey(entry.key));
+      keysByOutput.set(output, [...(keysByOutput.get(output) ?? []), ...entries.map((entry) => formatResourceKey(entry.key))]);
+    }
+
+    expect(await listFiles(out)).toContainEqual(expect.stringMatching(/CAS\.part2\.package$/u));
+    for (const keys of keysByOutput.values()) {
+      expect(new Set(keys).size).toBe(keys.length);
+    }
+  }, 120_000);
+});
+
+async function listFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(root, { withFileTypes: true })) {
+    const path = join(root, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
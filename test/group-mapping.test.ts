@@ -0,0 +1,41 @@
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { GroupMappingError, loadGroupMappingStrategy, parseGroupMapping } from '../src/basic/group-mapping.js';
+import type { PackageInfo } from '../src/basic/scanner.js';
+
+describe('Group Mapping Module', () => {
+  it('parses YAML and JSON mappings', () => {
+    expect(parseGroupMapping('Hair: CAS\n"Script Mods": Gameplay\n"*": Other\n', 'map.yaml')).toEqual({
+      Hair: 'CAS',
+      'Script Mods': 'Gameplay',
+      '*': 'Other',
+    });
+    expect(parseGroupMapping('{"Hair": "CAS"}', 'map.json')).toEqual({ Hair: 'CAS' });
+  });
+
+  it('rejects mappings that are not a map of prefixes to names', () => {
+    expect(() => parseGroupMapping('- Hair\n', 'map.yaml')).toThrow('map.yaml: Mapping must be a map');
+    expect(() => parseGroupMapping('Hair: 3\n')).toThrow("Group for 'Hair' must be a non-empty string");
+    expect(() => parseGroupMapping('{', 'map.json')).toThrow(GroupMappingError);
+    expect(() => parseGroupMapping('{}', 'map.json')).toThrow('Mapping is empty');
+  });
+
+  it('loads a mapping file into a strategy', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 's4merge-map-'));
+    try {
+      const file = join(dir, 'groups.yaml');
+      await fs.writeFile(file, 'Hair: CAS\n');
+      const strategy = await loadGroupMappingStrategy(file);
+      const root = resolve('/mods');
+      const input: PackageInfo = { path: join(root, 'Hair', 'a.package'), normalizedPath: '', name: 'a.package', size: 1, mtime: new Date(0) };
+
+      expect(strategy.mode).toBe('by-mapping');
+      expect(strategy.groupFor(input, [root])).toBe('CAS');
+      await expect(loadGroupMappingStrategy(join(dir, 'missing.yaml'))).rejects.toThrow('Cannot read mapping file');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
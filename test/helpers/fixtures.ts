@@ -0,0 +1,32 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach } from 'vitest';
+import type { PackageInfo } from '../../src/basic/scanner.js';
+
+/**
+ * Scanner-style info for a package file on disk.
+ */
+export async function packageInfo(path: string): Promise<PackageInfo> {
+  const stats = await fs.stat(path);
+  return { path, normalizedPath: path, name: path.split(/[/\\]/).pop() ?? path, size: stats.size, mtime: stats.mtime };
+}
+
+/**
+ * A fresh temp folder for every test of the calling `describe`, removed after each.
+ * Read `path` inside hooks and tests; earlier `beforeEach` hooks run first.
+ */
+export function useSandbox(prefix: string): { readonly path: string } {
+  let path = '';
+  beforeEach(async () => {
+    path = await fs.mkdtemp(join(tmpdir(), prefix));
+  });
+  afterEach(async () => {
+    await fs.rm(path, { recursive: true, force: true });
+  });
+  return {
+    get path() {
+      return path;
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { analyzeConflicts } from '../src/basic/conflicts.js';
+import { defaultCacheDir, IndexCache, pruneIndexCache } from '../src/basic/index-cache.js';
+import { registerResourceTypes, resetResourceTypes } from '../src/core/resource-types.js';
+import { verifyPackageFile } from '../src/basic/verify.js';
+import { CompressionType, readDbpfIndex } from '../src/core/dbpf.js';
+import { getPackageFileStats, PackageCorruptionError, readPackageIndex } from '../src/core/s4tk.js';
+import { packageInfo, useSandbox } from './helpers/fixtures.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+const MTIME = new Date('2024-05-01T12:00:00Z');
+
+async function cacheFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const shard of await fs.readdir(dir).catch(() => [])) {
+    files.push(...(await fs.readdir(join(dir, shard))).map((name) => join(dir, shard, name)));
+  }
+  return files;
+}
+
+/**
+ * Overwrite a package with zeros of the same size and give it back its mtime, so
+ * only a cache that did not read it again still sees the original index.
+ */
+async function corruptKeepingMtime(path: string): Promise<void> {
+  const { size } = await fs.stat(path);
+  await fs.writeFile(path, Buffer.alloc(size));
+  await fs.utimes(path, MTIME, MTIME);
+}
+
+/**
+ * Overwrite the first zlib payload of a package with zeros and give it back its mtime,
+ * so its header and index still read but that payload no longer decompresses.
+ */
+async function corruptPayloadKeepingMtime(path: string): Promise<void> {
+  const entry = (await readDbpfIndex(path)).find((candidate) => candidate.compressionType === CompressionType.ZLIB);
+  if (entry === undefined) {
+    throw new Error(`${path} has no zlib payload`);
+  }
+  const handle = await fs.open(path, 'r+');
+  try {
+    await handle.write(Buffer.alloc(entry.compressedSize), 0, entry.compressedSize, entry.position);
+  } finally {
+    await handle.close();
+  }
+  await fs.utimes(path, MTIME, MTIME);
+}
+
+describe('index cache', () => {
+  const sandbox = useSandbox('s4merge-cache-');
+  let cacheDir: string;
+  let pkg: string;
+
+  beforeEach(async () => {
+    cacheDir = join(sandbox.path, 'cache');
+    pkg = join(sandbox.path, 'Mods', 'a.package');
+    await fs.mkdir(dirname(pkg), { recursive: true });
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), pkg);
+    await fs.utimes(pkg, MTIME, MTIME);
+  });
+
+  it('returns what reading the package returns and keeps it for later runs', async () => {
+    const direct = await readPackageIndex(pkg);
+
+    expect(await new IndexCache(cacheDir).readIndex(pkg)).toEqual(direct);
+    expect(await cacheFiles(cacheDir)).toHaveLength(1);
+
+    await corruptKeepingMtime(pkg);
+    const later = new IndexCache(cacheDir);
+    expect(await later.readIndex(pkg)).toEqual(direct);
+    expect(await later.resourceTypes(pkg)).toEqual(
+      (await getPackageFileStats(join(testPackagesDir, 'test-file-1.package'))).uniqueTypes,
+    );
+  });
+
+  it('names cached types with the registry of the current run', async () => {
+    const [first] = await new IndexCache(cacheDir).resourceTypes(pkg);
+    registerResourceTypes([[Number.parseInt(first.typeId, 16), { name: 'CustomType', category: 'other' }]]);
+    try {
+      expect((await new IndexCache(cacheDir).resourceTypes(pkg))[0]).toEqual({
+        typeId: first.typeId,
+        count: first.count,
+        name: 'CustomType',
+        category: 'other',
+      });
+    } finally {
+      resetResourceTypes();
+    }
+  });
+
+  it('misses once the size or mtime changes', async () => {
+    await new IndexCache(cacheDir).readIndex(pkg);
+    await corruptKeepingMtime(pkg);
+    await fs.utimes(pkg, MTIME, new Date(MTIME.getTime() + 1000));
+
+    await expect(new IndexCache(cacheDir).readIndex(pkg)).rejects.toThrow(PackageCorruptionError);
+  });
+
+  it('misses on changed content with the same mtime when keyed by content hash', async () => {
+    await new IndexCache(cacheDir, { contentHash: true }).readIndex(pkg);
+    await corruptKeepingMtime(pkg);
+
+    await expect(new IndexCache(cacheDir, { contentHash: true }).readIndex(pkg)).rejects.toThrow(PackageCorruptionError);
+  });
+
+  it('reports conflicts and verifies the same with and without the cache', async () => {
+    const copy = join(sandbox.path, 'Mods', 'b.package');
+    await fs.copyFile(pkg, copy);
+    await fs.utimes(copy, MTIME, MTIME);
+    const inputs = [await packageInfo(pkg), await packageInfo(copy)];
+
+    const uncached = await analyzeConflicts(inputs);
+    expect(await analyzeConflicts(inputs, { cache: new IndexCache(cacheDir) })).toEqual(uncached);
+    expect(await analyzeConflicts(inputs, { cache: new IndexCache(cacheDir) })).toEqual(uncached);
+
+    const report = await verifyPackageFile(pkg);
+    expect(await verifyPackageFile(pkg, { cache: new IndexCache(cacheDir) })).toEqual(report);
+    expect(await verifyPackageFile(pkg, { cache: new IndexCache(cacheDir, { contentHash: true }) })).toEqual(report);
+  });
+
+  it('checks payloads again unless the cache is keyed by content hash', async () => {
+    expect((await verifyPackageFile(pkg, { cache: new IndexCache(cacheDir) })).issues).toEqual([]);
+    expect((await verifyPackageFile(pkg, { cache: new IndexCache(cacheDir, { contentHash: true }) })).issues).toEqual([]);
+    await corruptPayloadKeepingMtime(pkg);
+
+    const corrupted = await verifyPackageFile(pkg);
+    expect(corrupted.issues.map((issue) => issue.code)).toContain('decompress');
+    expect(await verifyPackageFile(pkg, { cache: new IndexCache(cacheDir) })).toEqual(corrupted);
+    expect(await verifyPackageFile(pkg, { cache: new IndexCache(cacheDir, { contentHash: true }) })).toEqual(corrupted);
+  });
+
+  it('prunes entries of packages that are gone or changed', async () => {
+    const other = join(sandbox.path, 'Mods', 'b.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-2.package'), other);
+    const cache = new IndexCache(cacheDir);
+    await cache.readIndex(pkg);
+    await cache.readIndex(other);
+    await fs.rm(other);
+    await fs.utimes(pkg, MTIME, new Date(MTIME.getTime() + 1000));
+    await cache.readIndex(pkg);
+    await fs.mkdir(join(cacheDir, 'zz'), { recursive: true });
+    await fs.writeFile(join(cacheDir, 'zz', 'broken.json'), '{');
+
+    const dryRun = await pruneIndexCache(cacheDir, { dryRun: true });
+    expect(dryRun.pruned.map((entry) => entry.reason).sort()).toEqual(['changed', 'missing', 'unreadable']);
+    expect(await cacheFiles(cacheDir)).toHaveLength(4);
+
+    const report = await pruneIndexCache(cacheDir);
+    expect(report.keptCount).toBe(1);
+    expect(report.reclaimedBytes).toBeGreaterThan(0);
+    expect(await cacheFiles(cacheDir)).toHaveLength(1);
+
+    expect((await pruneIndexCache(cacheDir, { all: true })).pruned).toHaveLength(1);
+    expect(await pruneIndexCache(join(sandbox.path, 'missing'))).toMatchObject({ pruned: [], errors: [] });
+  });
+
+  it('uses the per-user cache folder of the platform', () => {
+    expect(defaultCacheDir({ LOCALAPPDATA: 'C:\\Users\\a\\AppData\\Local' }, 'win32')).toBe(
+      join('C:\\Users\\a\\AppData\\Local', 's4merge', 'Cache'),
+    );
+    expect(defaultCacheDir({ XDG_CACHE_HOME: '/tmp/xdg' }, 'linux')).toBe(join('/tmp/xdg', 's4merge'));
+  });
+});
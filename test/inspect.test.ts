@@ -0,0 +1,90 @@
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Package, RawResource } from '@s4tk/models';
+import {
+  extractResources,
+  formatInspectCsv,
+  formatInspectTable,
+  inspectPackage,
+  parseInstanceFilter,
+  parseTypeFilter,
+} from '../src/basic/inspect.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Inspect Module', () => {
+  let sandbox: string;
+  let packagePath: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-inspect-'));
+    packagePath = join(sandbox, 'small.package');
+    const pkg = new Package();
+    pkg.add({ type: 0x0166038c, group: 0, instance: 1n }, RawResource.from(Buffer.from('hello, world')));
+    pkg.add({ type: 0x0166038c, group: 0x80000000, instance: 0xabcdef0123456789n }, RawResource.from(Buffer.from('second')));
+    pkg.add({ type: 0x220557da, group: 0, instance: 1n }, RawResource.from(Buffer.from('string table')));
+    await fs.writeFile(packagePath, pkg.getBuffer());
+  });
+
+  afterEach(async () => {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  it('lists entries in canonical hex with sizes and compression', async () => {
+    const report = await inspectPackage(packagePath);
+
+    expect(report.totalEntries).toBe(3);
+    expect(report.entries[1]).toMatchObject({
+      index: 2,
+      type: '0x0166038c',
+      name: 'NameMap',
+      group: '0x80000000',
+      instance: '0xabcdef0123456789',
+      compression: 'zlib',
+      size: 6,
+    });
+    expect(formatInspectTable(report).split('\n')[1]).toMatch(/^#\s+type\s+name\s+group\s+instance\s+compression\s+stored\s+size$/);
+  });
+
+  it('filters by type and instance', async () => {
+    expect((await inspectPackage(packagePath, { types: [0x220557da] })).entries.map((entry) => entry.index)).toEqual([3]);
+    expect((await inspectPackage(packagePath, { instances: [1n] })).entries.map((entry) => entry.index)).toEqual([1, 3]);
+    expect(
+      (await inspectPackage(packagePath, { types: [0x0166038c], instances: [1n] })).entries.map((entry) => entry.index),
+    ).toEqual([1]);
+  });
+
+  it('renders CSV with a header row', async () => {
+    const csv = formatInspectCsv(await inspectPackage(packagePath, { types: [0x220557da] }));
+    const [header, row] = csv.trimEnd().split('\n');
+    expect(header).toBe('index,type,name,category,group,instance,compression,storedSize,size,position');
+    expect(row).toMatch(/^3,0x220557da,STBL,string-table,0x00000000,0x0000000000000001,zlib,\d+,12,\d+$/);
+  });
+
+  it('extracts decompressed or raw resources', async () => {
+    const out = join(sandbox, 'out');
+    const [decompressed] = await extractResources(packagePath, out, { types: [0x220557da] });
+    expect(decompressed).toBe(join(out, '220557da_00000000_0000000000000001.bin'));
+    expect(await fs.readFile(decompressed, 'utf8')).toBe('string table');
+
+    const [raw] = await extractResources(packagePath, join(sandbox, 'raw'), { types: [0x220557da], raw: true });
+    expect((await fs.readFile(raw)).equals(Buffer.from('string table'))).toBe(false);
+  });
+
+  it('extracts every resource of a real package', async () => {
+    const written = await extractResources(join(testPackagesDir, 'test-file-1.package'), join(sandbox, 'all'));
+    expect(written).toHaveLength(37);
+  });
+
+  it('parses hex and decimal ids and rejects the rest', () => {
+    expect(parseTypeFilter('0x0166038C')).toBe(0x0166038c);
+    expect(parseTypeFilter('23462796')).toBe(23462796);
+    expect(parseInstanceFilter('0xFFFFFFFFFFFFFFFF')).toBe(0xffffffffffffffffn);
+    expect(() => parseTypeFilter('0x100000000')).toThrow('expected a 32-bit value');
+    expect(() => parseInstanceFilter('STBL')).toThrow("Invalid instance 'STBL'");
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { JOURNAL_FILE_NAME, JournalError, readJournal, removeStaleTempFiles, type RunJournal } from '../src/basic/journal.js';
+import { runBasic } from '../src/basic/main.js';
+import type { Plan } from '../src/basic/plan.js';
+import type { BasicCliOptions } from '../src/basic/types.js';
+import { normalizePath } from '../src/util/determinism.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+const SUFFIX = '0123456789abcdef01234567';
+
+function options(overrides: Partial<BasicCliOptions>): BasicCliOptions {
+  return {
+    in: [],
+    include: [],
+    exclude: [],
+    ignoreFiles: true,
+    byFolder: true,
+    sort: 'path',
+    reverse: false,
+    changelog: true,
+    verify: false,
+    dryRun: false,
+    progress: false,
+    collisionPolicy: 'shadow-original',
+    dedupeIdentical: false,
+    skipDuplicates: false,
+    watch: false,
+    watchDebounce: 500,
+    resume: false,
+    jobs: 1,
+    memoryBudget: 256,
+    cache: false,
+    cacheContentHash: false,
+    ...overrides,
+  };
+}
+
+describe('journal', () => {
+  let sandbox: string;
+  let mods: string;
+  let outRoot: string;
+  let logs: string[];
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-journal-'));
+    mods = join(sandbox, 'Mods');
+    outRoot = join(sandbox, 'out');
+    await fs.mkdir(join(mods, 'A'), { recursive: true });
+    await fs.mkdir(join(mods, 'B'), { recursive: true });
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(mods, 'A', 'x.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-2.package'), join(mods, 'B', 'y.package'));
+    logs = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => void logs.push(line));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  it('records the plan hash and every finished output with its content hash', async () => {
+    expect(await runBasic(options({ in: [mods], outRoot }))).toBe(0);
+
+    const journal = (await readJournal(join(outRoot, JOURNAL_FILE_NAME))) as RunJournal;
+    expect(journal.planHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(Object.keys(journal.outputs)).toEqual([join(outRoot, 'A.package'), join(outRoot, 'B.package')].map(normalizePath));
+    const [part] = journal.outputs[normalizePath(join(outRoot, 'A.package'))].parts;
+    expect(part).toMatchObject({ outputPath: join(outRoot, 'A.package'), sha256: expect.stringMatching(/^[0-9a-f]{64}$/) });
+  });
+
+  it('resumes by keeping unchanged outputs and merging changed ones again', async () => {
+    await runBasic(options({ in: [mods], outRoot }));
+    const before = await fs.stat(join(outRoot, 'B.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-3.package'), join(mods, 'A', 'x.package'));
+    logs = [];
+
+    expect(await runBasic(options({ in: [mods], outRoot, resume: true }))).toBe(0);
+
+    expect(logs.some((line) => line.startsWith(`basic: kept ${join(outRoot, 'B.package')} `))).toBe(true);
+    expect(logs.some((line) => line.startsWith(`basic: wrote ${join(outRoot, 'A.package')} `))).toBe(true);
+    expect((await fs.stat(join(outRoot, 'B.package'))).mtimeMs).toBe(before.mtimeMs);
+  });
+
+  it('merges an output again when its file no longer matches the journal', async () => {
+    await runBasic(options({ in: [mods], outRoot }));
+    await fs.writeFile(join(outRoot, 'B.package'), 'truncated');
+    logs = [];
+
+    await runBasic(options({ in: [mods], outRoot, resume: true }));
+
+    expect(logs.some((line) => line.startsWith(`basic: wrote ${join(outRoot, 'B.package')} `))).toBe(true);
+    expect(logs.some((line) => line.startsWith(`basic: kept ${join(outRoot, 'A.package')} `))).toBe(true);
+  });
+
+  it('merges everything again when a flag changed', async () => {
+    await runBasic(options({ in: [mods], outRoot }));
+    logs = [];
+
+    await runBasic(options({ in: [mods], outRoot, resume: true, collisionPolicy: 'keep-first' }));
+
+    expect(logs.filter((line) => line.startsWith('basic: wrote ') && line.endsWith('bytes)'))).toHaveLength(2);
+    expect(logs.some((line) => line.startsWith('basic: kept '))).toBe(false);
+  });
+
+  it('removes only the temp files left for planned outputs, parts, manifests and the journal', async () => {
+    await fs.mkdir(outRoot, { recursive: true });
+    const stale = [`.tmp-A.package-${SUFFIX}`, `.tmp-A.part2.package-${SUFFIX}`, `.tmp-A.manifest.yaml-${SUFFIX}`, `.tmp-${JOURNAL_FILE_NAME}-${SUFFIX}`];
+    const kept = [`.tmp-Other.package-${SUFFIX}`, '.tmp-A.package-notatempsuffix', 'A.package'];
+    for (const name of [...stale, ...kept]) {
+      await fs.writeFile(join(outRoot, name), '');
+    }
+    const plan: Plan = {
+      mode: 'by-folder',
+      inDirs: [mods],
+      outputs: [{ outputPath: join(outRoot, 'A.package'), inputs: [], totalSize: 0 }],
+      totalInputs: 0,
+      totalSize: 0,
+    };
+
+    const removed = await removeStaleTempFiles(plan, [join(outRoot, 'A.manifest.yaml'), join(outRoot, JOURNAL_FILE_NAME)]);
+
+    expect(removed.sort()).toEqual(stale.map((name) => join(outRoot, name)).sort());
+    expect((await fs.readdir(outRoot)).sort()).toEqual([...kept].sort());
+  });
+
+  it('rejects journals of another version', async () => {
+    const path = join(sandbox, JOURNAL_FILE_NAME);
+    await fs.writeFile(path, JSON.stringify({ version: 99, planHash: 'x', outputs: {} }));
+
+    await expect(readJournal(path)).rejects.toThrow(JournalError);
+    expect(await readJournal(join(sandbox, 'missing.json'))).toBeUndefined();
+  });
+});
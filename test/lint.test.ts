@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  formatLintReport,
+  lintExitCode,
+  lintModsFolder,
+  LINT_EXIT_ERRORS,
+  LINT_EXIT_OK,
+  LINT_EXIT_WARNINGS,
+  parseResourceCfg,
+} from '../src/basic/lint.js';
+import { matchesGlob } from '../src/util/glob.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackage = join(__dirname, 'packages', 'test-file-4.package');
+
+const DEFAULT_CFG = [
+  'Priority 500',
+  'PackedFile *.package',
+  'PackedFile */*.package',
+  'PackedFile */*/*.package',
+  'PackedFile */*/*/*.package',
+  'PackedFile */*/*/*/*.package',
+  'PackedFile */*/*/*/*/*.package',
+  '',
+].join('\r\n');
+
+describe('lint', () => {
+  let mods: string;
+
+  async function addPackage(relPath: string): Promise<void> {
+    await fs.mkdir(join(mods, relPath, '..'), { recursive: true });
+    await fs.copyFile(testPackage, join(mods, relPath));
+  }
+
+  async function addFile(relPath: string, content: string): Promise<void> {
+    await fs.mkdir(join(mods, relPath, '..'), { recursive: true });
+    await fs.writeFile(join(mods, relPath), content);
+  }
+
+  beforeEach(async () => {
+    mods = await fs.mkdtemp(join(tmpdir(), 's4merge-lint-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(mods, { recursive: true, force: true });
+  });
+
+  it('passes a well-formed Mods folder', async () => {
+    await addFile('Resource.cfg', DEFAULT_CFG);
+    await addPackage('a.package');
+    await addPackage('1/2/3/4/5/deep.package');
+    await addFile('Scripts/tool.ts4script', 'PK');
+
+    const report = await lintModsFolder(mods);
+
+    expect(report).toMatchObject({ packages: 2, scripts: 1, issues: [], errorCount: 0, warningCount: 0, infoCount: 0 });
+    expect(lintExitCode(report)).toBe(LINT_EXIT_OK);
+  });
+
+  it('reports depth, broken packages, hidden and temp copies and archives', async () => {
+    await addFile('Resource.cfg', DEFAULT_CFG);
+    await addPackage('1/2/3/4/5/6/too-deep.package');
+    await addFile('Scripts/Nested/tool.ts4script', 'PK');
+    await addFile('empty.package', '');
+    await addFile('readme.package', 'not a package at all');
+    await addPackage('.hidden/inside.package');
+    await addPackage('~draft.package');
+    await addPackage('hair.bak.package');
+    await addFile('Pack.zip', 'PK');
+
+    const report = await lintModsFolder(mods);
+
+    expect(report.issues.map((issue) => [issue.severity, issue.code, issue.path])).toEqual([
+      ['warning', 'hidden-file', '.hidden/inside.package'],
+      ['error', 'package-depth', '1/2/3/4/5/6/too-deep.package'],
+      ['error', 'empty-package', 'empty.package'],
+      ['warning', 'temp-file', 'hair.bak.package'],
+      ['warning', 'zip-archive', 'Pack.zip'],
+      ['error', 'not-dbpf', 'readme.package'],
+      ['error', 'script-depth', 'Scripts/Nested/tool.ts4script'],
+      ['warning', 'temp-file', '~draft.package'],
+    ]);
+    expect(report.packages).toBe(6);
+    expect(lintExitCode(report)).toBe(LINT_EXIT_ERRORS);
+    expect(formatLintReport(report)).toContain(
+      '  error [package-depth] 1/2/3/4/5/6/too-deep.package: 6 folders deep; packages load at most 5 folders below Mods',
+    );
+  });
+
+  it('checks Resource.cfg against the depths packages are at', async () => {
+    await addFile('Resource.cfg', 'Priority 500\nPackedFile *.package\nPackedFile */*/*/*/*/*/*.package\n');
+    await addPackage('a.package');
+    await addPackage('CC/b.package');
+
+    const report = await lintModsFolder(mods);
+
+    expect(report.issues).toEqual([
+      { severity: 'error', code: 'resource-cfg', path: 'Resource.cfg', message: 'no PackedFile line covers packages 1 folder(s) deep' },
+      {
+        severity: 'warning',
+        code: 'resource-cfg',
+        path: 'Resource.cfg',
+        message: "line 3: 'PackedFile */*/*/*/*/*/*.package' reaches 6 folders deep; the game stops at 5",
+      },
+    ]);
+  });
+
+  it('only notes a missing Resource.cfg', async () => {
+    await addPackage('a.package');
+
+    const report = await lintModsFolder(mods);
+
+    expect(report.issues).toEqual([
+      { severity: 'info', code: 'resource-cfg', path: 'Resource.cfg', message: 'missing; the game writes a default one on its next start' },
+    ]);
+    expect(lintExitCode(report)).toBe(LINT_EXIT_OK);
+  });
+
+  it('parses PackedFile lines as anchored patterns', () => {
+    const patterns = parseResourceCfg('Priority 500\r\nPackedFile */*.package\r\nDirectoryFiles Shaders autoupdate\r\n');
+
+    expect(patterns.map((pattern) => pattern.line)).toEqual([2]);
+    expect(matchesGlob(patterns[0], 'CC/a.package', false)).toBe(true);
+    expect(matchesGlob(patterns[0], 'a.package', false)).toBe(false);
+    expect(matchesGlob(patterns[0], 'CC/Hair/a.package', false)).toBe(false);
+  });
+
+  it('exits with the warning code when there are only warnings', async () => {
+    await addFile('Resource.cfg', DEFAULT_CFG);
+    await addPackage('x.old.package');
+
+    expect(lintExitCode(await lintModsFolder(mods))).toBe(LINT_EXIT_WARNINGS);
+  });
+});
@@ -0,0 +1,159 @@
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import {
+  formatCommandLine,
+  ManifestError,
+  parseManifest,
+  readManifest,
+  serializeManifest,
+  writeManifests,
+  type Manifest,
+} from '../src/basic/manifest.js';
+import { mergeAll } from '../src/basic/merge.js';
+import { planMerge } from '../src/basic/plan.js';
+import { removeStagingDir, scanInputs } from '../src/basic/scanner.js';
+import { copyScripts, planScriptCopies } from '../src/basic/scripts.js';
+import { buildZip } from './helpers/zip.js';
+import { packageInfo, useSandbox } from './helpers/fixtures.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+const CREATED_AT = new Date('2025-09-19T21:20:00.123Z');
+
+describe('Manifests', () => {
+  const sandbox = useSandbox('s4merge-manifest-');
+
+  it('writes a manifest next to a single output and reads it back', async () => {
+    const inputs = await Promise.all(
+      ['test-file-1.package', 'test-file-2.package'].map((name) => packageInfo(join(testPackagesDir, name))),
+    );
+    const plan = planMerge(inputs, { out: join(sandbox.path, 'All.package'), byFolder: false, inDirs: [] });
+    const results = await mergeAll(plan, { progress: false, collisionPolicy: 'keep-last' });
+
+    const written = await writeManifests(plan, results, {
+      command: 's4merge basic --out All.package',
+      order: { key: 'path', reverse: false },
+      collisionPolicy: 'keep-last',
+      createdAt: CREATED_AT,
+    });
+
+    expect(written).toEqual([join(sandbox.path, 'All.manifest.yaml')]);
+    const manifest = await readManifest(written[0]);
+    expect(manifest.schema).toBe(1);
+    expect(manifest.created_utc).toBe('2025-09-19T21:20:00Z');
+    expect(manifest.output).toEqual({ path: plan.outputs[0].outputPath, bytes: results[0].bytes, parts: 1, resources: 96 });
+    expect(manifest.inputs.files.map((file) => [file.idx, file.bytes, file.part])).toEqual([
+      [1, inputs[0].size, 1],
+      [2, inputs[1].size, 1],
+    ]);
+    expect(manifest.inputs.files[0].sha1).toMatch(/^[0-9a-f]{40}$/);
+    expect(manifest.rollover).toEqual({ max_mb: null });
+    expect(manifest.notes).toEqual(['collision policy: keep-last']);
+
+    const text = await fs.readFile(written[0], 'utf8');
+    expect(text.split('\n').filter((line) => /^\S/.test(line)).map((line) => line.split(':')[0])).toEqual([
+      'command',
+      'created_utc',
+      'inputs',
+      'metadata',
+      'notes',
+      'output',
+      'rollover',
+      'schema',
+      'tool',
+    ]);
+  });
+
+  it('writes one manifest per by-folder output into --manifest-out', async () => {
+    const root = join(sandbox.path, 'Mods');
+    for (const folder of ['A', 'B']) {
+      await fs.mkdir(join(root, folder), { recursive: true });
+      await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(root, folder, 'x.package'));
+    }
+    const inputs = await Promise.all(['A', 'B'].map((folder) => packageInfo(join(root, folder, 'x.package'))));
+    const plan = planMerge(inputs, { byFolder: true, outRoot: join(sandbox.path, 'out'), inDirs: [root] });
+    const results = await mergeAll(plan, { progress: false });
+
+    const written = await writeManifests(plan, results, {
+      manifestOut: join(sandbox.path, 'manifests'),
+      command: 's4merge basic --by-folder',
+      order: { key: 'name', reverse: true },
+      createdAt: CREATED_AT,
+    });
+
+    expect(written).toEqual([join(sandbox.path, 'manifests', 'A.manifest.yaml'), join(sandbox.path, 'manifests', 'B.manifest.yaml')]);
+    expect((await readManifest(written[1])).inputs.order).toEqual({ key: 'name', reverse: true });
+  });
+
+  it('lists packages from archives and copied scripts separately', async () => {
+    const root = join(sandbox.path, 'Mods');
+    await fs.mkdir(root, { recursive: true });
+    await fs.copyFile(join(testPackagesDir, 'test-file-2.package'), join(root, 'loose.package'));
+    await fs.writeFile(join(root, 'Tool.ts4script'), 'script bytes');
+    await fs.writeFile(
+      join(root, 'Pack.zip'),
+      buildZip([{ name: 'Hair/hair.package', data: await fs.readFile(join(testPackagesDir, 'test-file-1.package')) }]),
+    );
+    const scan = await scanInputs({ inDirs: [root], sortBy: 'path', reverse: false });
+    try {
+      const out = join(sandbox.path, 'out', 'All.package');
+      const plan = planMerge(scan.packages, { out, byFolder: false, inDirs: [root] });
+      const results = await mergeAll(plan, { progress: false });
+      const scripts = await copyScripts(planScriptCopies(scan.scripts, dirname(out)));
+
+      const [written] = await writeManifests(plan, results, {
+        command: 's4merge basic',
+        order: { key: 'path', reverse: false },
+        scripts,
+        createdAt: CREATED_AT,
+      });
+
+      const manifest = await readManifest(written);
+      expect(manifest.inputs.files.map((file) => [file.path, file.archive, typeof file.sha1])).toEqual([
+        [join(root, 'loose.package'), undefined, 'string'],
+        [join(root, 'Pack.zip', 'Hair', 'hair.package'), join(root, 'Pack.zip'), 'string'],
+      ]);
+      expect(manifest.scripts).toEqual([
+        { path: join(sandbox.path, 'out', 'Tool.ts4script'), source: join(root, 'Tool.ts4script'), bytes: 12, sha1: expect.stringMatching(/^[0-9a-f]{40}$/) },
+      ]);
+      expect(manifest.output.resources).toBe(results[0].resourceCount);
+    } finally {
+      await removeStagingDir(scan);
+    }
+  });
+
+  it('rejects unknown schema versions and schema violations', () => {
+    const manifest: Manifest = {
+      schema: 1,
+      tool: 's4merge',
+      command: 's4merge basic',
+      created_utc: '2025-09-19T21:20:00Z',
+      output: { path: 'All.package', bytes: 10, parts: 1, resources: 1 },
+      inputs: { order: { key: 'path', reverse: false }, files: [{ idx: 1, path: 'a.package', bytes: 5, part: 1 }] },
+      rollover: { max_mb: null },
+      metadata: { enabled: true, resource_count: 1, unmerge_capable: true },
+      notes: [],
+    };
+    const text = serializeManifest(manifest);
+    expect(parseManifest(text)).toEqual(manifest);
+
+    expect(() => parseManifest(text.replace('schema: 1', 'schema: 2'))).toThrow(
+      "Unsupported manifest schema '2' (expected 1)",
+    );
+    expect(() => parseManifest(text.replace('bytes: 5', 'bytes: -5'), 'm.yaml')).toThrow(
+      'm.yaml: inputs.files[0].bytes must be a non-negative integer',
+    );
+    expect(() => parseManifest(text.replace('part: 1', 'part: 3'))).toThrow('inputs.files[0].part must be between 1 and 1');
+    expect(() => parseManifest(`${text}scripts:\n  - path: Tool.ts4script\n    bytes: 3\n`)).toThrow('scripts[0].source must be a string');
+    expect(() => parseManifest('schema: 1\n  bad: indent\n')).toThrow(ManifestError);
+  });
+
+  it('quotes command line arguments that contain spaces', () => {
+    expect(formatCommandLine(['s4merge', 'basic', '--out', 'D:/My Mods/All.package'])).toBe(
+      's4merge basic --out "D:/My Mods/All.package"',
+    );
+  });
+});
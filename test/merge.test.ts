@@ -0,0 +1,147 @@
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { mergeAll, partOutputPath, planParts } from '../src/basic/merge.js';
+import { planMerge } from '../src/basic/plan.js';
+import type { PackageInfo } from '../src/basic/scanner.js';
+import { getResourceCount, loadPackage } from '../src/core/s4tk.js';
+import { WorkerPool } from '../src/util/worker-pool.js';
+import { packageInfo, useSandbox } from './helpers/fixtures.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Merger Module', () => {
+  const sandbox = useSandbox('s4merge-merge-');
+
+  it('writes each planned output and reports per-input stats', async () => {
+    const inputs = await Promise.all(
+      ['test-file-1.package', 'test-file-2.package'].map((name) => packageInfo(join(testPackagesDir, name))),
+    );
+    const outputPath = join(sandbox.path, 'nested', 'All.package');
+    const plan = planMerge(inputs, { out: outputPath, byFolder: false, inDirs: [] });
+
+    const results = await mergeAll(plan, { progress: false, collisionPolicy: 'keep-last' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].resourceCount).toBe(37 + 58 + 1);
+    expect(results[0].inputs.map((input) => input.keptCount)).toEqual([37, 58]);
+    expect((await fs.stat(outputPath)).size).toBe(results[0].bytes);
+    expect(getResourceCount(await loadPackage(outputPath))).toBe(37 + 58 + 1);
+
+    const leftovers = (await fs.readdir(dirname(outputPath))).filter((name) => name.startsWith('.tmp-'));
+    expect(leftovers).toEqual([]);
+  });
+
+  it('applies the collision policy when the same package is merged twice', async () => {
+    const original = join(testPackagesDir, 'test-file-1.package');
+    const copy = join(sandbox.path, 'copy.package');
+    await fs.copyFile(original, copy);
+    const plan = planMerge([await packageInfo(original), await packageInfo(copy)], {
+      out: join(sandbox.path, 'All.package'),
+      byFolder: false,
+      inDirs: [],
+    });
+
+    const [result] = await mergeAll(plan, { progress: false, collisionPolicy: 'keep-first' });
+
+    expect(result.resourceCount).toBe(37 + 1);
+    expect(result.inputs[1]).toMatchObject({ keptCount: 0, overwrittenCount: 37 });
+  });
+
+  it('rolls over into .partN.package outputs without splitting inputs', async () => {
+    const inputs = await Promise.all(
+      ['test-file-1.package', 'test-file-2.package', 'test-file-3.package', 'test-file-4.package'].map((name) =>
+        packageInfo(join(testPackagesDir, name)),
+      ),
+    );
+    const outputPath = join(sandbox.path, 'All.package');
+    const plan = planMerge(inputs, { out: outputPath, byFolder: false, inDirs: [] });
+
+    const results = await mergeAll(plan, { progress: false, maxSizeMb: 5 });
+
+    expect(results.map((result) => result.outputPath)).toEqual([
+      outputPath,
+      join(sandbox.path, 'All.part2.package'),
+      join(sandbox.path, 'All.part3.package'),
+    ]);
+    expect(results.map((result) => result.inputs.length)).toEqual([2, 1, 1]);
+    for (const result of results) {
+      expect(result.bytes).toBeLessThanOrEqual(5 * 1024 * 1024);
+      expect(result.oversized).toBe(false);
+      expect((await fs.stat(result.outputPath)).size).toBe(result.bytes);
+    }
+  });
+
+  it('resolves collisions across parts before rolling over', async () => {
+    const original = join(testPackagesDir, 'test-file-1.package');
+    const copy = join(sandbox.path, 'copy.package');
+    await fs.copyFile(original, copy);
+    const inputs = [await packageInfo(original), await packageInfo(join(testPackagesDir, 'test-file-2.package')), await packageInfo(copy)];
+    const plan = planMerge(inputs, { out: join(sandbox.path, 'All.package'), byFolder: false, inDirs: [] });
+
+    const results = await mergeAll(plan, { progress: false, maxSizeMb: 3, collisionPolicy: 'keep-last' });
+
+    expect(results.map((result) => result.inputs.map((input) => [input.keptCount, input.overwrittenCount]))).toEqual([
+      [
+        [0, 37],
+        [58, 0],
+      ],
+      [[37, 0]],
+    ]);
+    expect(results.map((result) => result.resourceCount)).toEqual([58 + 1, 37 + 1]);
+  });
+
+  it('writes an input larger than the cap as its own oversized part', async () => {
+    const inputs = await Promise.all(
+      ['test-file-1.package', 'test-file-2.package'].map((name) => packageInfo(join(testPackagesDir, name))),
+    );
+    const plan = planMerge(inputs, { out: join(sandbox.path, 'All.package'), byFolder: false, inDirs: [] });
+
+    const results = await mergeAll(plan, { progress: false, maxSizeMb: 2 });
+
+    expect(results.map((result) => [result.part, result.partCount, result.oversized])).toEqual([
+      [1, 2, false],
+      [2, 2, true],
+    ]);
+  });
+
+  it('writes the same bytes with --jobs and a worker pool as sequentially, across by-folder outputs', async () => {
+    const names = ['test-file-1.package', 'test-file-2.package', 'test-file-3.package', 'test-file-4.package'];
+    const inputs: PackageInfo[] = [];
+    for (const [index, name] of names.entries()) {
+      const path = join(sandbox.path, 'Mods', index < 2 ? 'A' : 'B', name);
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.copyFile(join(testPackagesDir, name), path);
+      inputs.push(await packageInfo(path));
+    }
+    const planFor = (outRoot: string) =>
+      planMerge(inputs, { byFolder: true, outRoot: join(sandbox.path, outRoot), inDirs: [join(sandbox.path, 'Mods')] });
+
+    const sequential = await mergeAll(planFor('seq'), { progress: false });
+    const pool = new WorkerPool(3);
+    const parallel = await mergeAll(planFor('par'), { progress: false, jobs: 3, memoryBudgetMb: 0.01, pool }).finally(() => pool.close());
+
+    expect(parallel.map((result) => result.outputPath)).toEqual(
+      sequential.map((result) => result.outputPath.replace(join(sandbox.path, 'seq'), join(sandbox.path, 'par'))),
+    );
+    expect(parallel.map((result) => result.inputs)).toEqual(sequential.map((result) => result.inputs));
+    for (const result of sequential) {
+      const twin = result.outputPath.replace(join(sandbox.path, 'seq'), join(sandbox.path, 'par'));
+      expect((await fs.readFile(twin)).equals(await fs.readFile(result.outputPath))).toBe(true);
+    }
+  });
+
+  it('plans parts greedily at input boundaries', () => {
+    expect(planParts([4, 4, 4], 10, 1)).toEqual([[0, 1], [2]]);
+    expect(planParts([20, 1, 1], 10, 1)).toEqual([[0], [1, 2]]);
+    expect(planParts([], 10, 1)).toEqual([]);
+  });
+
+  it('names later parts Name.partN.package', () => {
+    expect(partOutputPath('out/All.package', 1)).toBe('out/All.package');
+    expect(partOutputPath('out/All.package', 3)).toBe('out/All.part3.package');
+    expect(partOutputPath('out/All', 2)).toBe('out/All.part2');
+  });
+});
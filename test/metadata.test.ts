@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalJson,
+  decodeMergeMetadata,
+  encodeMergeMetadata,
+  MergeMetadataError,
+  type MergeMetadata,
+} from '../src/core/metadata.js';
+
+function sampleMetadata(): MergeMetadata {
+  return {
+    version: '1.0',
+    toolVersion: '0.1.0',
+    s4tkVersion: '0.6.14',
+    originalPackages: [
+      {
+        basename: 'hair.package',
+        relPath: 'Hair/hair.package',
+        size: 10,
+        mtime: 1700000000000,
+        resourceCount: 1,
+        keptCount: 1,
+        overwrittenCount: 0,
+        resourceRanges: [{ startIndex: 0, endIndex: 0 }],
+        entries: [{ type: '0x0166038c', group: '0x00000000', instance: '0x000000000000002a', dataHash: 'a'.repeat(64) }],
+      },
+    ],
+    mergeOptions: { deduplication: false, compression: true, collisionPolicy: 'keep-last' },
+  };
+}
+
+describe('merge metadata encoding', () => {
+  it('produces canonical JSON with sorted keys and no whitespace', () => {
+    expect(canonicalJson({ b: 1, a: [true, { d: null, c: 'x' }], skipped: undefined })).toBe(
+      '{"a":[true,{"c":"x","d":null}],"b":1}',
+    );
+  });
+
+  it('round-trips through encode/decode', () => {
+    const metadata = sampleMetadata();
+    const decoded = decodeMergeMetadata(encodeMergeMetadata(metadata));
+    expect(decoded).toEqual(metadata);
+    expect(encodeMergeMetadata(decoded).equals(encodeMergeMetadata(metadata))).toBe(true);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => decodeMergeMetadata(Buffer.from('{'))).toThrow(MergeMetadataError);
+  });
+
+  it('rejects unsupported versions', () => {
+    const metadata = { ...sampleMetadata(), version: '2.0' };
+    expect(() => decodeMergeMetadata(Buffer.from(JSON.stringify(metadata)))).toThrow("Unsupported merge metadata version '2.0'");
+  });
+
+  it('rejects non-canonical hex keys', () => {
+    const metadata = sampleMetadata();
+    metadata.originalPackages[0].entries[0].type = '0x166038C';
+    expect(() => decodeMergeMetadata(encodeMergeMetadata(metadata))).toThrow(
+      'originalPackages[0].entries[0].type has non-canonical value',
+    );
+  });
+
+  it('rejects inverted resource ranges', () => {
+    const metadata = sampleMetadata();
+    metadata.originalPackages[0].resourceRanges = [{ startIndex: 3, endIndex: 1 }];
+    expect(() => decodeMergeMetadata(encodeMergeMetadata(metadata))).toThrow('ends before it starts');
+  });
+});
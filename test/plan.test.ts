@@ -0,0 +1,142 @@
+import { join, resolve } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  categoryStrategy,
+  folderDepthStrategy,
+  formatPlan,
+  generateOutputPath,
+  groupByTopFolder,
+  groupInputs,
+  mappingStrategy,
+  planMerge,
+  regexStrategy,
+  sanitizeGroupName,
+  topFolderStrategy,
+} from '../src/basic/plan.js';
+import type { PackageInfo } from '../src/basic/scanner.js';
+
+const modsRoot = resolve('/mods');
+
+function info(relPath: string, size = 100): PackageInfo {
+  const path = join(modsRoot, relPath);
+  return { path, normalizedPath: path, name: relPath.split('/').pop() ?? relPath, size, mtime: new Date(0) };
+}
+
+describe('Planner Module', () => {
+  it('maps every input to a single output in input order', () => {
+    const inputs = [info('b.package'), info('Hair/a.package', 50)];
+    const plan = planMerge(inputs, { out: 'Merged/All.package', byFolder: false, inDirs: [modsRoot] });
+
+    expect(plan.mode).toBe('single');
+    expect(plan.outputs).toHaveLength(1);
+    expect(plan.outputs[0].outputPath).toBe('Merged/All.package');
+    expect(plan.outputs[0].inputs).toEqual(inputs);
+    expect(plan.totalSize).toBe(150);
+  });
+
+  it('plans no outputs when there are no inputs', () => {
+    const plan = planMerge([], { out: 'All.package', byFolder: false, inDirs: [] });
+    expect(plan.outputs).toEqual([]);
+  });
+
+  it('groups by top-level folder with a root group for loose files', () => {
+    const inputs = [info('Hair/x.package'), info('loose.package'), info('Build/deep/y.package'), info('Hair/z.package')];
+    const plan = planMerge(inputs, { byFolder: true, outRoot: 'out', inDirs: [modsRoot] });
+
+    expect(plan.mode).toBe('by-folder');
+    expect(plan.outputs.map((output) => output.groupName)).toEqual(['Build', 'Hair', 'root']);
+    expect(plan.outputs[1].inputs.map((input) => input.name)).toEqual(['x.package', 'z.package']);
+    expect(plan.outputs[1].outputPath).toBe(generateOutputPath('out', 'Hair'));
+  });
+
+  it('groups by content category so CAS and gameplay never share an output', () => {
+    const inputs = [
+      { ...info('Mixed/hair.package'), category: 'cas' as const },
+      { ...info('Mixed/buff.package'), category: 'gameplay' as const },
+      { ...info('Other/dress.package'), category: 'cas' as const },
+    ];
+    const plan = planMerge(inputs, { byFolder: false, strategy: categoryStrategy, outRoot: 'out', inDirs: [modsRoot] });
+
+    expect(plan.mode).toBe('by-category');
+    expect(plan.outputs.map((output) => output.groupName)).toEqual(['CAS', 'Gameplay']);
+    expect(plan.outputs[0].inputs.map((input) => input.name)).toEqual(['hair.package', 'dress.package']);
+    expect(plan.outputs[1].outputPath).toBe(generateOutputPath('out', 'Gameplay'));
+    expect(() => planMerge([info('a.package')], { byFolder: false, strategy: categoryStrategy, outRoot: 'out', inDirs: [] })).toThrow(
+      'has not been classified',
+    );
+  });
+
+  it('prefers the deepest matching --in root', () => {
+    const groups = groupByTopFolder([info('CC/Hair/a.package')], [modsRoot, join(modsRoot, 'CC')]);
+    expect(Array.from(groups.keys())).toEqual(['Hair']);
+  });
+
+  it('sanitizes group names for file systems', () => {
+    expect(sanitizeGroupName('Hair: Long?')).toBe('Hair_ Long_');
+    expect(sanitizeGroupName('trailing. ')).toBe('trailing');
+    expect(sanitizeGroupName('')).toBe('root');
+    expect(sanitizeGroupName('CON')).toBe('CON_');
+    expect(sanitizeGroupName('nul.old')).toBe('nul.old_');
+  });
+
+  it('groups by the first N folders below the root', () => {
+    const inputs = [info('CC/Hair/Long/a.package'), info('CC/Hair/b.package'), info('CC/c.package'), info('d.package')];
+    const plan = planMerge(inputs, { byFolder: false, strategy: folderDepthStrategy(2), outRoot: 'out', inDirs: [modsRoot] });
+
+    expect(plan.mode).toBe('by-depth');
+    expect(plan.outputs.map((output) => [output.groupName, output.inputs.length])).toEqual([
+      ['CC', 1],
+      ['CC_Hair', 2],
+      ['root', 1],
+    ]);
+    expect(() => folderDepthStrategy(0)).toThrow('positive integer');
+  });
+
+  it('groups by a regex on the relative path', () => {
+    const inputs = [info('Creator A/Hair/x.package'), info('Creator B/y.package'), info('z.package')];
+    const groups = groupInputs(inputs, regexStrategy(/^Creator (?<group>\w+)\//u), [modsRoot]);
+    expect(Array.from(groups.keys())).toEqual(['A', 'B', 'root']);
+
+    const byExtension = groupInputs([info('x.package')], regexStrategy(/\.(\w+)$/u), [modsRoot]);
+    expect(Array.from(byExtension.keys())).toEqual(['package']);
+  });
+
+  it('groups by a mapping with the longest matching prefix and a fallback', () => {
+    const strategy = mappingStrategy({ Hair: 'CAS', 'hair/Maxis Match': 'CAS-MM', '*': 'Other' });
+    const inputs = [info('Hair/a.package'), info('Hair/Maxis Match/b.package'), info('Scripts/c.package'), info('d.package')];
+    const plan = planMerge(inputs, { byFolder: false, strategy, outRoot: 'out', inDirs: [modsRoot] });
+
+    expect(plan.mode).toBe('by-mapping');
+    expect(plan.outputs.map((output) => [output.groupName, output.inputs.map((input) => input.name)])).toEqual([
+      ['CAS', ['a.package']],
+      ['CAS-MM', ['b.package']],
+      ['Other', ['c.package', 'd.package']],
+    ]);
+  });
+
+  it('keeps colliding group names apart regardless of input order', () => {
+    const inputs = [info('hair/a.package'), info('Hair:/b.package'), info('Hair_/c.package'), info('Hair/d.package')];
+    const forward = groupInputs(inputs, topFolderStrategy, [modsRoot]);
+    const backward = groupInputs([...inputs].reverse(), topFolderStrategy, [modsRoot]);
+
+    const names = (groups: Map<string, PackageInfo[]>): Record<string, string> =>
+      Object.fromEntries(Array.from(groups.entries()).map(([name, members]) => [members[0].name, name]));
+    expect(names(forward)).toEqual({ 'a.package': 'hair-2', 'b.package': 'Hair_', 'c.package': 'Hair_-2', 'd.package': 'Hair' });
+    expect(names(backward)).toEqual(names(forward));
+  });
+
+  it('formats the plan for --dry-run without touching the disk', () => {
+    const plan = planMerge([info('Hair/a.package'), info('b.package')], { byFolder: true, outRoot: 'out', inDirs: [modsRoot] });
+    expect(formatPlan(plan).split('\n')).toEqual([
+      'basic: planned 2 output(s) from 2 input package(s), 200 bytes (by-folder)',
+      `  ${generateOutputPath('out', 'Hair')}`,
+      `    #1 ${join(modsRoot, 'Hair/a.package')}`,
+      `  ${generateOutputPath('out', 'root')}`,
+      `    #2 ${join(modsRoot, 'b.package')}`,
+    ]);
+  });
+
+  it('requires an output root for by-folder plans', () => {
+    expect(() => planMerge([], { byFolder: true, inDirs: [] })).toThrow('requires an output root');
+  });
+});
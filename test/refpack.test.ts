@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { decompressRefPack, RefPackError } from '../src/core/refpack.js';
+
+describe('RefPack decoder', () => {
+  it('copies literal runs', () => {
+    // size 5, literal run of 4, then a terminating code carrying 1 literal
+    const stream = Buffer.from([0x10, 0xfb, 0x00, 0x00, 0x05, 0xe0, ...Buffer.from('abcd'), 0xfd, ...Buffer.from('e')]);
+    expect(decompressRefPack(stream).toString()).toBe('abcde');
+  });
+
+  it('expands overlapping back-references', () => {
+    // 3 literals followed by a 6-byte copy from 3 bytes back
+    const stream = Buffer.from([0x10, 0xfb, 0x00, 0x00, 0x09, 0x0f, 0x02, ...Buffer.from('abc'), 0xfc]);
+    expect(decompressRefPack(stream).toString()).toBe('abcabcabc');
+  });
+
+  it('rejects streams without the magic byte or that run past their input', () => {
+    expect(() => decompressRefPack(Buffer.from([0x10, 0x00, 0x00, 0x00, 0x01]))).toThrow(RefPackError);
+    expect(() => decompressRefPack(Buffer.from([0x10, 0xfb, 0x00, 0x00, 0x05, 0xe0, 0x61]))).toThrow(RefPackError);
+  });
+});
@@ -0,0 +1,59 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  describeResourceType,
+  loadResourceTypesFile,
+  lookupResourceType,
+  parseResourceTypesJson,
+  resetResourceTypes,
+} from '../src/core/resource-types.js';
+import { countResourceTypes } from '../src/core/s4tk.js';
+
+describe('Resource Types Module', () => {
+  afterEach(() => {
+    resetResourceTypes();
+  });
+
+  it('names well-known types and their categories', () => {
+    expect(describeResourceType(0x034aeecb)).toEqual({ name: 'CASP', category: 'cas' });
+    expect(describeResourceType(0xc0db5ae7)).toEqual({ name: 'OBJD', category: 'build-buy' });
+    expect(describeResourceType(0x545ac67a)).toEqual({ name: 'SimData', category: 'simdata' });
+    expect(describeResourceType(0x220557da)).toEqual({ name: 'STBL', category: 'string-table' });
+    expect(describeResourceType(0x00b2d882)).toEqual({ name: 'DST', category: 'image' });
+    expect(describeResourceType(0x6017e896)).toEqual({ name: 'Buff Tuning', category: 'tuning' });
+  });
+
+  it('falls back to the hex ID for unregistered types', () => {
+    expect(lookupResourceType(0x12345678)).toBeUndefined();
+    expect(describeResourceType(0x12345678)).toEqual({ name: '0x12345678', category: 'unknown' });
+  });
+
+  it('counts types with their names in first-seen order', () => {
+    expect(countResourceTypes([0x220557da, 0x545ac67a, 0x220557da])).toEqual([
+      { typeId: '0x220557da', count: 2, name: 'STBL', category: 'string-table' },
+      { typeId: '0x545ac67a', count: 1, name: 'SimData', category: 'simdata' },
+    ]);
+  });
+
+  it('extends and overrides the registry from a JSON file', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 's4merge-types-'));
+    const file = join(dir, 'types.json');
+    await fs.writeFile(file, JSON.stringify({ '0x12345678': { name: 'MyType', category: 'cas' }, '0x220557DA': 'Strings' }));
+    try {
+      expect(await loadResourceTypesFile(file)).toBe(2);
+      expect(describeResourceType(0x12345678)).toEqual({ name: 'MyType', category: 'cas' });
+      expect(describeResourceType(0x220557da)).toEqual({ name: 'Strings', category: 'other' });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects invalid extension files with the offending field', () => {
+    expect(() => parseResourceTypesJson('[]', 'types.json')).toThrow('types.json: Expected a JSON object');
+    expect(() => parseResourceTypesJson('{"CASP": "x"}')).toThrow("Invalid resource type ID 'CASP'");
+    expect(() => parseResourceTypesJson('{"0x1": {"name": "x", "category": "furniture"}}')).toThrow('0x1.category must be one of');
+    expect(() => parseResourceTypesJson('{"0x1": {"category": "cas"}}')).toThrow('0x1.name must be a non-empty string');
+  });
+});
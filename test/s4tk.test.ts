@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { promises as fs } from 'node:fs';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -12,14 +12,24 @@ import {
   writePackage,
   estimateSerializedSize,
   getPackageStats,
+  getPackageFileStats,
+  getPackageFileTypes,
+  readPackageIndex,
   validatePackageIntegrity,
   mergePackages,
+  mergePackagesDetailed,
+  hasMergeMetadata,
+  getMergeMetadata,
+  unmergePackage,
+  formatResourceKey,
+  listResourceEntries,
   S4TKError,
   PackageLoadError,
   PackageCorruptionError,
   type S4Package,
   type PackageStats,
 } from '../src/core/s4tk.js';
+import { useSandbox } from './helpers/fixtures.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const testPackagesDir = join(__dirname, 'packages');
@@ -31,7 +41,7 @@ describe('S4TK Adapter', () => {
       
       expect(pkg).toBeDefined();
       expect(pkg.resourceCount).toBe(0);
-      expect(pkg.estimatedSize).toBe(0);
+      expect(pkg.estimatedSize).toBe(100);
       expect(pkg._internal).toBeDefined();
     });
   });
@@ -205,7 +215,36 @@ describe('S4TK Adapter', () => {
       expect(stats).toBeDefined();
       expect(stats.resourceCount).toBe(0);
       expect(stats.uniqueTypes).toEqual([]);
-      expect(stats.estimatedSize).toBe(0);
+      expect(stats.estimatedSize).toBe(100);
+    });
+  });
+
+  describe('package index', () => {
+    it('reports the same stats and types as a loaded package', async () => {
+      const path = join(testPackagesDir, 'test-file-2.package');
+      const loaded = await loadPackage(path);
+
+      const stats = await getPackageFileStats(path);
+      expect(stats.resourceCount).toBe(getResourceCount(loaded));
+      expect(stats.uniqueTypes).toEqual(getPackageStats(loaded).uniqueTypes);
+      expect(await getPackageFileTypes(path)).toEqual(getResourceTypes(loaded));
+    });
+
+    it('returns sizes, compression and offsets for every entry', async () => {
+      const { entries, fileSize, deletedCount } = await readPackageIndex(join(testPackagesDir, 'test-file-1.package'));
+
+      expect(entries).toHaveLength(37);
+      expect(deletedCount).toBe(0);
+      for (const entry of entries) {
+        expect(entry.position + entry.compressedSize).toBeLessThanOrEqual(fileSize);
+        expect(entry.uncompressedSize).toBeGreaterThan(0);
+        expect(typeof entry.compressionType).toBe('number');
+      }
+    });
+
+    it('maps unreadable files to the adapter error types', async () => {
+      await expect(readPackageIndex(join(testPackagesDir, 'missing.package'))).rejects.toThrow(PackageLoadError);
+      await expect(readPackageIndex(join(__dirname, 's4tk.test.ts'))).rejects.toThrow(PackageCorruptionError);
     });
   });
 
@@ -252,7 +291,9 @@ describe('S4TK Adapter', () => {
         
         // Verify merge was successful
         expect(merged).toBeDefined();
-        expect(merged.resourceCount).toBe(expectedTotalResources);
+        // Every merge also carries its METG metadata resource
+        expect(merged.resourceCount).toBe(expectedTotalResources + 1);
+        expect(hasMergeMetadata(merged)).toBe(true);
         expect(merged.resourceCount).toBeGreaterThan(0);
         
         // Verify resource types are preserved
@@ -269,6 +310,131 @@ describe('S4TK Adapter', () => {
     });
   });
 
+  describe('collision policies', () => {
+    const sharedKey = { type: 0x0166038c, group: 0, instance: 42n };
+    const sandbox = useSandbox('s4merge-policy-');
+    let olderPath: string;
+    let newerPath: string;
+
+    beforeEach(async () => {
+      const { Package, RawResource } = await import('@s4tk/models');
+
+      const older = new Package();
+      older.add(sharedKey, RawResource.from(Buffer.from('older override')));
+      older.add({ type: 0x0166038c, group: 0, instance: 1n }, RawResource.from(Buffer.from('older only')));
+      const newer = new Package();
+      newer.add(sharedKey, RawResource.from(Buffer.from('newer override')));
+
+      olderPath = join(sandbox.path, 'older.package');
+      newerPath = join(sandbox.path, 'newer.package');
+      await fs.writeFile(olderPath, older.getBuffer());
+      await fs.writeFile(newerPath, newer.getBuffer());
+    });
+
+    function payloadFor(pkg: S4Package, id: string): string[] {
+      return pkg._internal.entries
+        .filter((entry) => formatResourceKey({ ...entry.key, instance: BigInt(entry.key.instance) }) === id)
+        .map((entry) => entry.value.getBuffer().toString());
+    }
+
+    it('keeps both entries with shadow-original (the default)', async () => {
+      const result = await mergePackagesDetailed([olderPath, newerPath]);
+
+      expect(result.collisionPolicy).toBe('shadow-original');
+      expect(result.package.resourceCount).toBe(3 + 1);
+      expect(payloadFor(result.package, formatResourceKey(sharedKey))).toEqual(['older override', 'newer override']);
+      expect(result.inputs.map((input) => [input.keptCount, input.overwrittenCount])).toEqual([[2, 1], [1, 0]]);
+    });
+
+    it('replaces earlier entries with keep-last', async () => {
+      const result = await mergePackagesDetailed([olderPath, newerPath], { collisionPolicy: 'keep-last' });
+
+      expect(result.package.resourceCount).toBe(2 + 1);
+      expect(payloadFor(result.package, formatResourceKey(sharedKey))).toEqual(['newer override']);
+      expect(result.inputs.map((input) => [input.keptCount, input.overwrittenCount])).toEqual([[1, 1], [1, 0]]);
+    });
+
+    it('skips later entries with keep-first', async () => {
+      const result = await mergePackagesDetailed([olderPath, newerPath], { collisionPolicy: 'keep-first' });
+
+      expect(result.package.resourceCount).toBe(2 + 1);
+      expect(payloadFor(result.package, formatResourceKey(sharedKey))).toEqual(['older override']);
+      expect(result.inputs.map((input) => [input.keptCount, input.overwrittenCount])).toEqual([[2, 0], [0, 1]]);
+    });
+
+    it('reports colliding keys from appendAllResources', async () => {
+      const target = await loadPackage(olderPath);
+      const source = await loadPackage(newerPath);
+
+      const result = appendAllResources(target, source, { collisionPolicy: 'keep-first' });
+
+      expect(result.appendedCount).toBe(0);
+      expect(result.collidingKeys.map(formatResourceKey)).toEqual(['0x0166038c:0x00000000:0x000000000000002a']);
+      expect(listResourceEntries(target)).toHaveLength(2);
+    });
+  });
+
+  describe('merge metadata', () => {
+    const filePaths = ['test-file-1.package', 'test-file-2.package'].map((name) => join(testPackagesDir, name));
+
+    it('records package boundaries, canonical keys and payload hashes', async () => {
+      const result = await mergePackagesDetailed(filePaths, {
+        sources: [{ relPath: 'Hair/test-file-1.package', inputRoot: '/mods' }, {}],
+      });
+      const metadata = getMergeMetadata(result.package);
+
+      expect(metadata).toEqual(result.metadata);
+      expect(metadata!.version).toBe('1.0');
+      expect(metadata!.mergeOptions.collisionPolicy).toBe('shadow-original');
+
+      const [first, second] = metadata!.originalPackages;
+      expect(first.basename).toBe('test-file-1.package');
+      expect(first.relPath).toBe('Hair/test-file-1.package');
+      expect(first.pathHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(second.relPath).toBeUndefined();
+      expect(first.resourceRanges).toEqual([{ startIndex: 0, endIndex: 36 }]);
+      expect(second.resourceRanges).toEqual([{ startIndex: 37, endIndex: 94 }]);
+      expect(first.entries).toHaveLength(37);
+      expect(first.entries[0].type).toMatch(/^0x[0-9a-f]{8}$/);
+      expect(first.entries[0].instance).toMatch(/^0x[0-9a-f]{16}$/);
+      expect(first.entries[0].dataHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('unmerges back into packages with the original resources', async () => {
+      const { tmpdir } = await import('node:os');
+      const mergedPath = join(tmpdir(), `test-unmerge-${Date.now()}.package`);
+      try {
+        await writePackage(await mergePackages(filePaths), mergedPath);
+        const unmerged = await unmergePackage(await loadPackage(mergedPath));
+
+        expect(unmerged.map((item) => item.originalPath)).toEqual(['test-file-1.package', 'test-file-2.package']);
+        for (const [index, item] of unmerged.entries()) {
+          const original = await loadPackage(filePaths[index]);
+          const hashes = (pkg: S4Package) =>
+            listResourceEntries(pkg, { hashData: true }).map((entry) => `${formatResourceKey(entry.key)}=${entry.dataHash}`);
+          expect(hashes(item.package)).toEqual(hashes(original));
+        }
+      } finally {
+        await fs.unlink(mergedPath).catch(() => {});
+      }
+    });
+
+    it('returns null for packages without metadata and rejects unmerging them', async () => {
+      const pkg = await loadPackage(filePaths[0]);
+      expect(hasMergeMetadata(pkg)).toBe(false);
+      expect(getMergeMetadata(pkg)).toBeNull();
+      await expect(unmergePackage(pkg)).rejects.toThrow('no merge metadata');
+    });
+
+    it('reports corrupted metadata', async () => {
+      const { RawResource } = await import('@s4tk/models');
+      const pkg = createEmptyPackage();
+      pkg._internal.add({ type: 0x4d455447, group: 0, instance: 0n }, RawResource.from(Buffer.from('{not json')));
+
+      expect(() => getMergeMetadata(pkg)).toThrow('Merge metadata is corrupted');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should create proper error types', () => {
       const s4tkError = new S4TKError('Test error');
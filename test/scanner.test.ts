@@ -1,13 +1,18 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { buildZip } from './helpers/zip.js';
 import { 
   scanInputs, 
   expandFilesList, 
   enumerateDirectory, 
   deduplicatePaths, 
+  findDuplicatePackages,
+  removeStagingDir,
   sortPackages,
+  sourcePathOf,
   type PackageInfo,
   type ScanOptions 
 } from '../src/basic/scanner.js';
@@ -341,6 +346,190 @@ describe('Scanner Module', () => {
     });
   });
 
+  describe('duplicate packages', () => {
+    it('reports byte-identical copies and can skip them', async () => {
+      const dir = await fs.mkdtemp(join(tmpdir(), 's4merge-dupes-'));
+      try {
+        await fs.writeFile(join(dir, 'a.package'), 'same bytes');
+        await fs.writeFile(join(dir, 'b copy.package'), 'same bytes');
+        await fs.writeFile(join(dir, 'c.package'), 'diff bytes');
+
+        const reported = await scanInputs({ inDirs: [dir], sortBy: 'path', reverse: false });
+        expect(reported.packages).toHaveLength(3);
+        expect(reported.duplicates).toEqual([
+          expect.objectContaining({ path: join(dir, 'b copy.package'), duplicateOf: join(dir, 'a.package'), size: 10 }),
+        ]);
+
+        const skipped = await scanInputs({ inDirs: [dir], sortBy: 'path', reverse: true, skipDuplicates: true });
+        expect(skipped.packages.map((pkg) => pkg.name)).toEqual(['c.package', 'b copy.package']);
+        expect(skipped.skippedFiles).toEqual([
+          { path: join(dir, 'a.package'), reason: 'duplicate', cause: `identical to ${join(dir, 'b copy.package')}` },
+        ]);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('only hashes files that share a size', async () => {
+      const packages = [
+        createPackageInfo('/missing/a.package', 'a.package', 1, new Date(0)),
+        createPackageInfo('/missing/b.package', 'b.package', 2, new Date(0)),
+      ];
+      const errors: string[] = [];
+      expect(await findDuplicatePackages(packages, errors)).toEqual([]);
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('include/exclude globs and .s4mergeignore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 's4merge-filters-'));
+      for (const file of ['CC/hair.package', 'CC/_disabled/old.package', 'CC/WIP/draft.package', 'Gameplay/mod.package', 'Gameplay/keep.package', 'loose.package', 'notes.tmp', '.hidden.package']) {
+        await fs.mkdir(join(dir, file, '..'), { recursive: true });
+        await fs.writeFile(join(dir, file), file);
+      }
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('applies .s4mergeignore files with gitignore semantics and records the cause', async () => {
+      await fs.writeFile(join(dir, '.s4mergeignore'), '# work in progress\n_disabled/\nGameplay/*.package\n!Gameplay/keep.package\n');
+      await fs.writeFile(join(dir, 'CC', '.s4mergeignore'), 'WIP\n');
+
+      const result = await scanInputs({ inDirs: [dir], sortBy: 'path', reverse: false });
+
+      expect(result.packages.map((pkg) => pkg.name)).toEqual(['hair.package', 'keep.package', 'loose.package']);
+      expect(result.skippedFiles).toEqual([
+        { path: join(dir, '.hidden.package'), reason: 'hidden', cause: 'name starts with a dot' },
+        { path: join(dir, 'CC', '_disabled'), reason: 'ignored', cause: `'_disabled/' in ${join(dir, '.s4mergeignore')}:2` },
+        { path: join(dir, 'CC', 'WIP'), reason: 'ignored', cause: `'WIP' in ${join(dir, 'CC', '.s4mergeignore')}:1` },
+        { path: join(dir, 'Gameplay', 'mod.package'), reason: 'ignored', cause: `'Gameplay/*.package' in ${join(dir, '.s4mergeignore')}:3` },
+        { path: join(dir, 'notes.tmp'), reason: 'temporary', cause: 'temporary file name' },
+      ]);
+
+      const unfiltered = await scanInputs({ inDirs: [dir], sortBy: 'path', reverse: false, ignoreFiles: false });
+      expect(unfiltered.packages).toHaveLength(6);
+    });
+
+    it('filters with --include and --exclude globs relative to the root', async () => {
+      const result = await scanInputs({
+        inDirs: [dir],
+        sortBy: 'path',
+        reverse: false,
+        include: ['CC/**', 'loose.*'],
+        exclude: ['_disabled/', '**/WIP/**'],
+      });
+
+      expect(result.packages.map((pkg) => pkg.name)).toEqual(['hair.package', 'loose.package']);
+      const causes = Object.fromEntries(
+        result.skippedFiles.map((skipped) => [skipped.path.slice(dir.length + 1).replace(/\\/g, '/'), `${skipped.reason}: ${skipped.cause}`]),
+      );
+      expect(causes['CC/_disabled']).toBe('excluded: --exclude _disabled/');
+      expect(causes['CC/WIP/draft.package']).toBe('excluded: --exclude **/WIP/**');
+      expect(causes['Gameplay/mod.package']).toBe('not-included: no --include pattern matches');
+    });
+
+    it('applies --exclude to --files entries, including their folders', async () => {
+      const list = join(dir, 'list.txt');
+      await fs.writeFile(list, 'CC/hair.package\nCC/WIP/draft.package\n');
+
+      const result = await scanInputs({ inDirs: [], filesList: list, sortBy: 'path', reverse: false, exclude: ['WIP/'] });
+
+      expect(result.packages.map((pkg) => pkg.name)).toEqual(['hair.package']);
+      expect(result.skippedFiles).toEqual([
+        { path: join(dir, 'CC', 'WIP', 'draft.package'), reason: 'excluded', cause: '--exclude WIP/' },
+      ]);
+    });
+  });
+
+  describe('scripts and archives', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 's4merge-archives-test-'));
+      await fs.mkdir(join(dir, 'CC'), { recursive: true });
+      await fs.writeFile(join(dir, 'CC', 'loose.package'), 'loose');
+      await fs.writeFile(join(dir, 'CC', 'Tool.ts4script'), 'script');
+      await fs.writeFile(
+        join(dir, 'CC', 'Pack.zip'),
+        buildZip([
+          { name: 'b.package', data: 'second' },
+          { name: 'Sub/a.package', data: 'first' },
+          { name: 'Pack.ts4script', data: 'zipped script' },
+          { name: '__MACOSX/._b.package', data: 'fork' },
+          { name: 'readme.txt', data: 'ignored' },
+        ]),
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('reports scripts and extracts archive contents in a stable order', async () => {
+      const result = await scanInputs({ inDirs: [dir], sortBy: 'path', reverse: false });
+
+      try {
+        expect(result.packages.map(sourcePathOf)).toEqual([
+          join(dir, 'CC', 'loose.package'),
+          join(dir, 'CC', 'Pack.zip', 'b.package'),
+          join(dir, 'CC', 'Pack.zip', 'Sub', 'a.package'),
+        ]);
+        const staged = result.packages[2];
+        expect(staged.archive).toEqual({ path: join(dir, 'CC', 'Pack.zip'), entry: 'Sub/a.package' });
+        expect(staged.name).toBe('a.package');
+        expect(staged.size).toBe(5);
+        expect(staged.path.startsWith(result.stagingDir as string)).toBe(true);
+        expect(await fs.readFile(staged.path, 'utf8')).toBe('first');
+
+        expect(result.scripts.map(sourcePathOf)).toEqual([join(dir, 'CC', 'Pack.zip', 'Pack.ts4script'), join(dir, 'CC', 'Tool.ts4script')]);
+        expect(result.archives).toEqual([{ path: join(dir, 'CC', 'Pack.zip'), packages: ['b.package', 'Sub/a.package'], scripts: ['Pack.ts4script'] }]);
+        expect(result.skippedFiles).toContainEqual({
+          path: join(dir, 'CC', 'Pack.zip', '__MACOSX', '._b.package'),
+          reason: 'hidden',
+          cause: 'hidden entry in archive',
+        });
+        expect(result.totalCount).toBe(3);
+      } finally {
+        await removeStagingDir(result);
+      }
+      await expect(fs.access(result.stagingDir as string)).rejects.toThrow();
+    });
+
+    it('matches globs against the path inside an archive and reports unreadable archives', async () => {
+      await fs.writeFile(join(dir, 'broken.zip'), 'not a zip');
+
+      const result = await scanInputs({ inDirs: [dir], sortBy: 'path', reverse: false, exclude: ['Sub/'] });
+
+      try {
+        expect(result.packages.map((pkg) => pkg.name)).toEqual(['loose.package', 'b.package']);
+        expect(result.skippedFiles).toContainEqual({
+          path: join(dir, 'CC', 'Pack.zip', 'Sub', 'a.package'),
+          reason: 'excluded',
+          cause: '--exclude Sub/',
+        });
+        expect(result.errors).toEqual([expect.stringContaining(`Failed to read archive '${join(dir, 'broken.zip')}'`)]);
+      } finally {
+        await removeStagingDir(result);
+      }
+    });
+
+    it('leaves scripts and archives out of enumerateDirectory unless asked for', async () => {
+      const scripts: string[] = [];
+      const archives: string[] = [];
+
+      expect(await enumerateDirectory(dir)).toEqual([join(dir, 'CC', 'loose.package')]);
+      await enumerateDirectory(dir, undefined, { scripts, archives });
+
+      expect(scripts).toEqual([join(dir, 'CC', 'Tool.ts4script')]);
+      expect(archives).toEqual([join(dir, 'CC', 'Pack.zip')]);
+    });
+  });
+
   describe('Cross-platform compatibility', () => {
     it('should normalize paths consistently', () => {
       const windowsPath = 'C:\\Users\\test\\file.package';
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ScriptInfo } from '../src/basic/scanner.js';
+import { copyScripts, formatScriptPlan, planScriptCopies } from '../src/basic/scripts.js';
+
+function script(path: string, size = 1): ScriptInfo {
+  return { path, normalizedPath: path.replace(/\\/g, '/'), name: path.split(/[/\\]/).pop() ?? path, size, mtime: new Date(0) };
+}
+
+describe('Scripts', () => {
+  let sandbox: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-scripts-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  it('plans one copy per file name and reports later scripts with the same name', () => {
+    const outRoot = join(sandbox, 'out');
+    const plan = planScriptCopies([script(join('A', 'mc_cmd.ts4script')), script(join('B', 'MC_CMD.ts4script')), script(join('B', 'tool.ts4script'))], outRoot);
+
+    expect(plan.copies.map((copy) => copy.destination)).toEqual([join(outRoot, 'mc_cmd.ts4script'), join(outRoot, 'tool.ts4script')]);
+    expect(plan.clashes).toEqual([
+      { script: script(join('B', 'MC_CMD.ts4script')), destination: join(outRoot, 'MC_CMD.ts4script'), keptFrom: join('A', 'mc_cmd.ts4script') },
+    ]);
+    expect(formatScriptPlan(plan).split('\n')).toEqual([
+      `basic: 2 script(s) copied to ${outRoot} (not merged)`,
+      `  ${join('A', 'mc_cmd.ts4script')} -> ${join(outRoot, 'mc_cmd.ts4script')}`,
+      `  ${join('B', 'tool.ts4script')} -> ${join(outRoot, 'tool.ts4script')}`,
+      `  ${join('B', 'MC_CMD.ts4script')}: skipped, ${join('A', 'mc_cmd.ts4script')} already goes to ${join(outRoot, 'MC_CMD.ts4script')}`,
+    ]);
+  });
+
+  it('copies scripts byte for byte and leaves scripts already in place alone', async () => {
+    const outRoot = join(sandbox, 'out');
+    await fs.mkdir(join(sandbox, 'Mods'), { recursive: true });
+    await fs.mkdir(outRoot, { recursive: true });
+    await fs.writeFile(join(sandbox, 'Mods', 'a.ts4script'), Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    await fs.writeFile(join(outRoot, 'b.ts4script'), 'in place');
+
+    const copied = await copyScripts(planScriptCopies([script(join(sandbox, 'Mods', 'a.ts4script')), script(join(outRoot, 'b.ts4script'))], outRoot));
+
+    expect(copied).toHaveLength(2);
+    expect(await fs.readFile(join(outRoot, 'a.ts4script'))).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    expect(await fs.readFile(join(outRoot, 'b.ts4script'), 'utf8')).toBe('in place');
+    expect((await fs.readdir(outRoot)).sort()).toEqual(['a.ts4script', 'b.ts4script']);
+  });
+});
@@ -0,0 +1,37 @@
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { mergeAll } from '../src/basic/merge.js';
+import { planMerge } from '../src/basic/plan.js';
+import { writeStatsJson, type RunStats } from '../src/basic/stats.js';
+import { packageInfo, useSandbox } from './helpers/fixtures.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Stats Module', () => {
+  const sandbox = useSandbox('s4merge-stats-');
+
+  it('writes named type histograms per output and in total, identically on every run', async () => {
+    const inputs = await Promise.all(
+      ['test-file-1.package', 'test-file-2.package'].map((name) => packageInfo(join(testPackagesDir, name))),
+    );
+    const plan = planMerge(inputs, { out: join(sandbox.path, 'All.package'), byFolder: false, inDirs: [] });
+    const results = await mergeAll(plan, { progress: false });
+
+    const first = join(sandbox.path, 'stats-1.json');
+    const second = join(sandbox.path, 'stats-2.json');
+    await writeStatsJson(plan, results, first);
+    await writeStatsJson(plan, results, second);
+
+    const text = await fs.readFile(first, 'utf8');
+    expect(await fs.readFile(second, 'utf8')).toBe(text);
+    const stats = JSON.parse(text) as RunStats;
+    expect(stats.inputs).toBe(2);
+    expect(stats.outputs).toHaveLength(1);
+    expect(stats.types.reduce((sum, type) => sum + type.count, 0)).toBe(37 + 58 + 1);
+    expect(stats.types.map((type) => type.typeId)).toEqual([...stats.types.map((type) => type.typeId)].sort());
+    expect(stats.types.find((type) => type.typeId === '0x4d455447')).toMatchObject({ name: 'METG', category: 'metadata' });
+  });
+});
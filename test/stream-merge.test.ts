@@ -0,0 +1,119 @@
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  formatResourceKey,
+  listResourceEntries,
+  loadPackage,
+  mergePackagesDetailed,
+  type CollisionPolicy,
+} from '../src/core/s4tk.js';
+import { CompressionType, encodeDbpfHeader, encodeDbpfIndex } from '../src/core/dbpf.js';
+import { streamMergePackages } from '../src/core/stream-merge.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Streaming merge', () => {
+  let sandbox: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-stream-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  async function describeEntries(path: string): Promise<string[]> {
+    const entries = listResourceEntries(await loadPackage(path), { hashData: true });
+    return entries.map((entry) => `${formatResourceKey(entry.key)}=${entry.dataHash}`);
+  }
+
+  it.each<CollisionPolicy>(['shadow-original', 'keep-last', 'keep-first'])(
+    'produces the same entries and metadata as the in-memory merge (%s)',
+    async (collisionPolicy) => {
+      const copy = join(sandbox, 'copy.package');
+      await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), copy);
+      const inputs = [join(testPackagesDir, 'test-file-1.package'), join(testPackagesDir, 'test-file-2.package'), copy];
+      const outputPath = join(sandbox, 'All.package');
+
+      const streamed = await streamMergePackages(inputs, outputPath, { collisionPolicy });
+      const inMemory = await mergePackagesDetailed(inputs, { collisionPolicy });
+
+      expect(streamed.metadata).toEqual(inMemory.metadata);
+      expect(streamed.inputs).toEqual(inMemory.inputs);
+      expect(streamed.resourceCount).toBe(inMemory.package.resourceCount);
+      expect((await fs.stat(outputPath)).size).toBe(streamed.bytes);
+
+      const expected = listResourceEntries(inMemory.package, { hashData: true }).map(
+        (entry) => `${formatResourceKey(entry.key)}=${entry.dataHash}`,
+      );
+      expect(await describeEntries(outputPath)).toEqual(expected);
+    },
+  );
+
+  it('drops only resources whose key and payload are already appended with --dedupe-identical', async () => {
+    const copy = join(sandbox, 'copy.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), copy);
+    const inputs = [join(testPackagesDir, 'test-file-1.package'), join(testPackagesDir, 'test-file-2.package'), copy];
+    const outputPath = join(sandbox, 'All.package');
+
+    const streamed = await streamMergePackages(inputs, outputPath, { dedupeIdentical: true });
+    const inMemory = await mergePackagesDetailed(inputs, { dedupeIdentical: true });
+
+    expect(streamed.inputs.map((input) => [input.keptCount, input.dedupedCount])).toEqual([[37, 0], [58, 0], [0, 37]]);
+    expect(streamed.resourceCount).toBe(37 + 58 + 1);
+    expect(streamed.metadata.mergeOptions.deduplication).toBe(true);
+    expect(streamed.metadata.originalPackages.map((original) => original.dedupedCount)).toEqual([0, 0, 37]);
+    expect(streamed.metadata).toEqual(inMemory.metadata);
+    expect(streamed.inputs).toEqual(inMemory.inputs);
+    expect(await describeEntries(outputPath)).toEqual(
+      listResourceEntries(inMemory.package, { hashData: true }).map((entry) => `${formatResourceKey(entry.key)}=${entry.dataHash}`),
+    );
+  });
+
+  it('drops METG metadata carried by a merged input', async () => {
+    const first = join(sandbox, 'First.package');
+    await streamMergePackages([join(testPackagesDir, 'test-file-1.package')], first);
+
+    const result = await streamMergePackages([first, join(testPackagesDir, 'test-file-2.package')], join(sandbox, 'All.package'));
+
+    expect(result.inputs.map((input) => input.resourceCount)).toEqual([37, 58]);
+    expect(result.resourceCount).toBe(37 + 58 + 1);
+  });
+
+  it('leaves no output or temp file behind when an input is not a package', async () => {
+    const bogus = join(sandbox, 'bogus.package');
+    await fs.writeFile(bogus, 'not a package');
+    const outputPath = join(sandbox, 'All.package');
+
+    await expect(streamMergePackages([join(testPackagesDir, 'test-file-1.package'), bogus], outputPath)).rejects.toThrow(
+      /Failed to merge packages/,
+    );
+    expect(await fs.readdir(sandbox)).toEqual(['bogus.package']);
+  });
+
+  it('rejects an output past the 4 GiB that index positions can address before writing it', async () => {
+    // Only the index is real: three records that claim 2 GiB of stored bytes each
+    const entries = [1n, 2n, 3n].map((instance) => ({
+      key: { type: 0x0166038c, group: 0, instance },
+      position: 96,
+      compressedSize: 0x7fffffff,
+      uncompressedSize: 0x7fffffff,
+      compressionType: CompressionType.Uncompressed,
+    }));
+    const index = encodeDbpfIndex(entries);
+    const huge = join(sandbox, 'huge.package');
+    await fs.writeFile(huge, Buffer.concat([encodeDbpfHeader(entries.length, 96, index.length), index]));
+    const outputPath = join(sandbox, 'All.package');
+
+    const error = await streamMergePackages([huge], outputPath).catch((caught: Error) => caught);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(((error as Error).cause as Error).message).toMatch(/more than the 4 GiB a package index can address/);
+    expect(await fs.readdir(sandbox)).toEqual(['huge.package']);
+  });
+});
@@ -0,0 +1,92 @@
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mergeAll } from '../src/basic/merge.js';
+import { planMerge } from '../src/basic/plan.js';
+import type { PackageInfo } from '../src/basic/scanner.js';
+import { resolveUnmergeTarget, runUnmerge } from '../src/basic/unmerge.js';
+import { createEmptyPackage, getResourceCount, loadPackage } from '../src/core/s4tk.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Unmerge Module', () => {
+  let sandbox: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-unmerge-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  async function mergeFixtures(): Promise<string> {
+    const modsRoot = join(sandbox, 'Mods');
+    await fs.mkdir(join(modsRoot, 'Hair'), { recursive: true });
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(modsRoot, 'Hair', 'one.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-2.package'), join(modsRoot, 'two.package'));
+
+    const inputs: PackageInfo[] = [];
+    for (const path of [join(modsRoot, 'Hair', 'one.package'), join(modsRoot, 'two.package')]) {
+      const stats = await fs.stat(path);
+      inputs.push({ path, normalizedPath: path, name: path.split(/[/\\]/).pop() ?? path, size: stats.size, mtime: stats.mtime });
+    }
+    const mergedPath = join(sandbox, 'All.package');
+    await mergeAll(planMerge(inputs, { out: mergedPath, byFolder: false, inDirs: [modsRoot] }), { progress: false });
+    return mergedPath;
+  }
+
+  it('writes originals back under their recorded relative paths', async () => {
+    const mergedPath = await mergeFixtures();
+    const outDir = join(sandbox, 'restored');
+
+    const code = await runUnmerge(mergedPath, { outDir, force: false, dryRun: false });
+
+    expect(code).toBe(0);
+    expect(getResourceCount(await loadPackage(join(outDir, 'Hair', 'one.package')))).toBe(37);
+    expect(getResourceCount(await loadPackage(join(outDir, 'two.package')))).toBe(58);
+  });
+
+  it('refuses to overwrite existing files without --force', async () => {
+    const mergedPath = await mergeFixtures();
+    const outDir = join(sandbox, 'restored');
+    await fs.mkdir(outDir, { recursive: true });
+    await fs.writeFile(join(outDir, 'two.package'), 'keep me');
+
+    expect(await runUnmerge(mergedPath, { outDir, force: false, dryRun: false })).toBe(1);
+    expect(await fs.readFile(join(outDir, 'two.package'), 'utf8')).toBe('keep me');
+
+    expect(await runUnmerge(mergedPath, { outDir, force: true, dryRun: false })).toBe(0);
+  });
+
+  it('writes nothing in dry-run mode', async () => {
+    const mergedPath = await mergeFixtures();
+    const outDir = join(sandbox, 'restored');
+
+    expect(await runUnmerge(mergedPath, { outDir, force: false, dryRun: true })).toBe(0);
+    await expect(fs.access(outDir)).rejects.toThrow();
+  });
+
+  it('never lets a recorded relative path escape the output directory', () => {
+    const item = {
+      package: createEmptyPackage(),
+      originalPath: '../../evil.package',
+      original: {
+        basename: 'evil.package',
+        relPath: '../../evil.package',
+        size: 0,
+        mtime: 0,
+        resourceCount: 0,
+        resourceRanges: [],
+        entries: [],
+      },
+    };
+    expect(resolveUnmergeTarget('/out', item)).toBe(join('/out', 'evil.package'));
+  });
+});
@@ -0,0 +1,146 @@
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mergeAll } from '../src/basic/merge.js';
+import { planMerge } from '../src/basic/plan.js';
+import type { PackageInfo } from '../src/basic/scanner.js';
+import type { UpdateCliOptions } from '../src/basic/types.js';
+import { parseReplaceSpec, runUpdate } from '../src/basic/update.js';
+import { getMergeMetadata, getResourceCount, loadPackage, unmergePackage } from '../src/core/s4tk.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Update Module', () => {
+  let sandbox: string;
+  let modsRoot: string;
+  let mergedPath: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-update-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    modsRoot = join(sandbox, 'Mods');
+    await fs.mkdir(join(modsRoot, 'Hair'), { recursive: true });
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(modsRoot, 'Hair', 'one.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-2.package'), join(modsRoot, 'two.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-3.package'), join(modsRoot, 'three.package'));
+
+    const inputs: PackageInfo[] = [];
+    for (const path of [join(modsRoot, 'Hair', 'one.package'), join(modsRoot, 'two.package'), join(modsRoot, 'three.package')]) {
+      const stats = await fs.stat(path);
+      inputs.push({ path, normalizedPath: path, name: path.split(/[/\\]/).pop() ?? path, size: stats.size, mtime: stats.mtime });
+    }
+    mergedPath = join(sandbox, 'All.package');
+    await mergeAll(planMerge(inputs, { out: mergedPath, byFolder: false, inDirs: [modsRoot] }), { progress: false });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  function options(overrides: Partial<UpdateCliOptions>): UpdateCliOptions {
+    return { merged: mergedPath, replace: [], add: [], remove: [], in: [], dryRun: false, ...overrides };
+  }
+
+  async function recordedPaths(path: string): Promise<string[]> {
+    const metadata = getMergeMetadata(await loadPackage(path));
+    return (metadata?.originalPackages ?? []).map((original) => original.relPath ?? original.basename);
+  }
+
+  it('replaces an original in its slot and keeps the remaining order', async () => {
+    const replacement = join(sandbox, 'two-v2.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-4.package'), replacement);
+
+    expect(await runUpdate(options({ replace: [`two.package=${replacement}`] }))).toBe(0);
+
+    expect(await recordedPaths(mergedPath)).toEqual(['Hair/one.package', 'two-v2.package', 'three.package']);
+    const unmerged = await unmergePackage(await loadPackage(mergedPath));
+    expect(unmerged.map((item) => getResourceCount(item.package))).toEqual([37, 58, 58]);
+  });
+
+  it('removes and adds originals', async () => {
+    const extra = join(modsRoot, 'Hair', 'four.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-4.package'), extra);
+
+    await runUpdate(options({ remove: ['Hair/one.package'], add: [extra], in: [modsRoot] }));
+
+    expect(await recordedPaths(mergedPath)).toEqual(['two.package', 'three.package', 'Hair/four.package']);
+    expect(getResourceCount(await loadPackage(mergedPath))).toBe(58 * 3 + 1);
+  });
+
+  it('writes the same bytes as a fresh merge of the updated inputs', async () => {
+    const extra = join(modsRoot, 'Hair', 'four.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-4.package'), extra);
+    const inputs: PackageInfo[] = [];
+    for (const path of [join(modsRoot, 'two.package'), join(modsRoot, 'three.package'), extra]) {
+      const stats = await fs.stat(path);
+      inputs.push({ path, normalizedPath: path, name: path.split(/[/\\]/).pop() ?? path, size: stats.size, mtime: stats.mtime });
+    }
+    const freshPath = join(sandbox, 'Fresh.package');
+    await mergeAll(planMerge(inputs, { out: freshPath, byFolder: false, inDirs: [modsRoot] }), { progress: false });
+
+    await runUpdate(options({ remove: ['Hair/one.package'], add: [extra], in: [modsRoot] }));
+
+    expect((await fs.readFile(mergedPath)).equals(await fs.readFile(freshPath))).toBe(true);
+  });
+
+  it('rewrites the manifest next to the output unless --manifest-out is given', async () => {
+    await runUpdate(options({ remove: ['three.package'] }));
+    expect(await fs.readFile(join(sandbox, 'All.manifest.yaml'), 'utf8')).toMatch(/two\.package/);
+
+    const manifestOut = join(sandbox, 'manifests', 'custom.yaml');
+    await runUpdate(options({ remove: ['two.package'], manifestOut }));
+    expect(await fs.readFile(manifestOut, 'utf8')).not.toMatch(/two\.package/);
+  });
+
+  it('writes to --out and leaves the merged package alone', async () => {
+    const original = await fs.readFile(mergedPath);
+    const outPath = join(sandbox, 'out', 'Updated.package');
+
+    await runUpdate(options({ remove: ['three.package'], out: outPath }));
+
+    expect((await fs.readFile(mergedPath)).equals(original)).toBe(true);
+    expect(await recordedPaths(outPath)).toEqual(['Hair/one.package', 'two.package']);
+  });
+
+  it('writes nothing in dry-run mode', async () => {
+    const original = await fs.readFile(mergedPath);
+    await runUpdate(options({ remove: ['three.package'], dryRun: true }));
+    expect((await fs.readFile(mergedPath)).equals(original)).toBe(true);
+  });
+
+  it('plans a dry run from the indexes with the same report as the update', async () => {
+    const extra = join(modsRoot, 'Hair', 'four.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-4.package'), extra);
+    const log = vi.mocked(console.log);
+    const update = { remove: ['three.package'], add: [extra], in: [modsRoot] };
+
+    await runUpdate(options({ ...update, dryRun: true }));
+    const planned = log.mock.calls.map(([line]) => line as string);
+    log.mockClear();
+    await runUpdate(options(update));
+    const written = log.mock.calls.map(([line]) => line as string);
+
+    expect(planned).toEqual([
+      'update: 0 replaced, 1 removed, 1 added (3 -> 3 input package(s), shadow-original)',
+      '  #1 Hair/one.package (37 resources)',
+      '  #2 two.package (58 resources)',
+      '  #3 Hair/four.package (58 resources)',
+    ]);
+    expect(written.slice(0, planned.length)).toEqual(planned);
+  });
+
+  it('rejects unknown and doubly-targeted originals', async () => {
+    await expect(runUpdate(options({ remove: ['missing.package'] }))).rejects.toThrow(/No original package named/);
+    await expect(runUpdate(options({ remove: ['two.package', 'two.package'] }))).rejects.toThrow(/more than one change/);
+  });
+
+  it('parses --replace values', () => {
+    expect(parseReplaceSpec('old.package=new.package')).toEqual({ target: 'old.package', path: 'new.package' });
+    expect(() => parseReplaceSpec('old.package')).toThrow(/expected <old>=<new>/);
+  });
+});
@@ -0,0 +1,135 @@
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { writeManifests } from '../src/basic/manifest.js';
+import { mergeAll } from '../src/basic/merge.js';
+import { planMerge } from '../src/basic/plan.js';
+import {
+  formatVerifyReport,
+  verifyExitCode,
+  verifyPackageFile,
+  verifyPackages,
+  VERIFY_EXIT_ERRORS,
+  VERIFY_EXIT_OK,
+  VERIFY_EXIT_WARNINGS,
+} from '../src/basic/verify.js';
+import { CompressionType, readDbpfFileIndex } from '../src/core/dbpf.js';
+import { packageInfo, useSandbox } from './helpers/fixtures.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+describe('Verify Module', () => {
+  const sandbox = useSandbox('s4merge-verify-');
+  let merged: string;
+
+  beforeEach(async () => {
+    merged = join(sandbox.path, 'All.package');
+    const inputs = await Promise.all(
+      ['test-file-1.package', 'test-file-2.package'].map((name) => packageInfo(join(testPackagesDir, name))),
+    );
+    const plan = planMerge(inputs, { out: merged, byFolder: false, inDirs: [] });
+    const results = await mergeAll(plan, { progress: false });
+    await writeManifests(plan, results, { command: 's4merge basic', order: { key: 'path', reverse: false } });
+  });
+
+  it('passes a freshly merged package together with its metadata and manifest', async () => {
+    const report = await verifyPackageFile(merged);
+
+    expect(report.issues).toEqual([]);
+    expect(report.hasMetadata).toBe(true);
+    expect(report.manifestPath).toBe(join(sandbox.path, 'All.manifest.yaml'));
+    expect(report.resourceCount).toBe(37 + 58 + 1);
+    expect(report.types.reduce((sum, type) => sum + type.count, 0)).toBe(report.resourceCount);
+    expect(report.types).toContainEqual({ typeId: '0x4d455447', count: 1, name: 'METG', category: 'metadata' });
+    expect(formatVerifyReport({ packages: [report], errorCount: 0, warningCount: 0 })).toMatch(/\n {2}types: .*METG 1/);
+  });
+
+  it('passes plain packages without metadata or manifest', async () => {
+    const report = await verifyPackages([join(testPackagesDir, 'test-file-1.package')]);
+    expect(verifyExitCode(report)).toBe(VERIFY_EXIT_OK);
+    expect(report.packages[0].hasMetadata).toBe(false);
+    expect(formatVerifyReport(report)).toContain('0 error(s), 0 warning(s)');
+  });
+
+  it('reports payloads that no longer decompress', async () => {
+    const { entries } = await readDbpfFileIndex(merged);
+    const target = entries.find((entry) => entry.compressionType === CompressionType.ZLIB && entry.compressedSize > 16);
+    expect(target).toBeDefined();
+    const bytes = await fs.readFile(merged);
+    bytes.fill(0xff, target!.position + 2, target!.position + target!.compressedSize);
+    await fs.writeFile(merged, bytes);
+
+    const report = await verifyPackages([merged]);
+
+    expect(report.packages[0].issues.map((issue) => issue.code)).toContain('decompress');
+    expect(verifyExitCode(report)).toBe(VERIFY_EXIT_ERRORS);
+  });
+
+  it('reports headers, indexes and records that do not fit the file', async () => {
+    const notPackage = join(sandbox.path, 'text.package');
+    await fs.writeFile(notPackage, 'x'.repeat(200));
+    expect((await verifyPackageFile(notPackage)).issues[0]).toMatchObject({ severity: 'error', code: 'header' });
+
+    const bytes = await fs.readFile(merged);
+    const truncated = join(sandbox.path, 'Truncated.package');
+    await fs.writeFile(truncated, bytes.subarray(0, bytes.length - 10));
+    expect((await verifyPackageFile(truncated)).issues.map((issue) => issue.code)).toEqual(['index-bounds']);
+
+    const { entries, header } = await readDbpfFileIndex(merged);
+    const overlapping = Buffer.from(bytes);
+    // Point the second record at the first record's payload, shifted by one byte.
+    const recordOffset = header.indexPosition + 4 + 32 + 16;
+    overlapping.writeUInt32LE(entries[0].position + 1, recordOffset);
+    const overlapPath = join(sandbox.path, 'Overlap.package');
+    await fs.writeFile(overlapPath, overlapping);
+    const codes = (await verifyPackageFile(overlapPath)).issues.map((issue) => issue.code);
+    expect(codes).toContain('overlap');
+  });
+
+  it('warns about shared payloads and checks the manifest', async () => {
+    const bytes = await fs.readFile(merged);
+    const { entries, header } = await readDbpfFileIndex(merged);
+    const shared = Buffer.from(bytes);
+    // Point a record whose payload really differs at the first record's payload.
+    const other = entries.findIndex((entry) => entry.uncompressedSize !== entries[0].uncompressedSize);
+    const second = header.indexPosition + 4 + 32 * other;
+    shared.writeUInt32LE(entries[0].position, second + 16);
+    shared.writeUInt32LE((entries[0].compressedSize | 0x80000000) >>> 0, second + 20);
+    shared.writeUInt32LE(entries[0].uncompressedSize, second + 24);
+    shared.writeUInt16LE(entries[0].compressionType, second + 28);
+    await fs.writeFile(merged, shared);
+
+    const report = await verifyPackageFile(merged);
+    const codes = report.issues.map((issue) => `${issue.severity}:${issue.code}`);
+    expect(codes).toContain('warning:shared-payload');
+    // That record now decodes to another payload, so its recorded hash no longer matches.
+    expect(codes).toContain('error:hash-mismatch');
+
+    const alone = join(sandbox.path, 'Copy.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), alone);
+    const manifestReport = await verifyPackageFile(alone, { manifestPath: join(sandbox.path, 'All.manifest.yaml') });
+    expect(manifestReport.issues.map((issue) => issue.code)).toEqual(['manifest-bytes', 'manifest-count']);
+  });
+
+  it('passes a default shadow-original merge whose inputs share keys', async () => {
+    const copy = join(sandbox.path, 'copy.package');
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), copy);
+    const shadowed = join(sandbox.path, 'Shadowed.package');
+    const inputs = await Promise.all([join(testPackagesDir, 'test-file-1.package'), copy].map((path) => packageInfo(path)));
+    await mergeAll(planMerge(inputs, { out: shadowed, byFolder: false, inDirs: [] }), { progress: false });
+
+    const report = await verifyPackages([shadowed]);
+
+    expect(report.packages[0].resourceCount).toBe(37 + 37 + 1);
+    expect(report.packages[0].issues).toEqual([]);
+    expect(verifyExitCode(report)).toBe(VERIFY_EXIT_OK);
+  });
+
+  it('uses distinct exit codes for warnings and errors', () => {
+    const pkg = { path: 'a', fileSize: 0, resourceCount: 0, deletedCount: 0, hasMetadata: false, types: [], issues: [] };
+    expect(verifyExitCode({ packages: [pkg], errorCount: 0, warningCount: 1 })).toBe(VERIFY_EXIT_WARNINGS);
+    expect(verifyExitCode({ packages: [pkg], errorCount: 1, warningCount: 1 })).toBe(VERIFY_EXIT_ERRORS);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { fingerprintOutput, topFolderStrategy } from '../src/basic/plan.js';
+import type { BasicCliOptions } from '../src/basic/types.js';
+import { watchBasic, type WatchCycle } from '../src/basic/watch.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testPackagesDir = join(__dirname, 'packages');
+
+function options(overrides: Partial<BasicCliOptions>): BasicCliOptions {
+  return {
+    in: [],
+    include: [],
+    exclude: [],
+    ignoreFiles: true,
+    byFolder: true,
+    sort: 'path',
+    reverse: false,
+    changelog: true,
+    verify: false,
+    dryRun: false,
+    progress: false,
+    collisionPolicy: 'shadow-original',
+    dedupeIdentical: false,
+    skipDuplicates: false,
+    watch: true,
+    watchDebounce: 50,
+    resume: false,
+    jobs: 1,
+    memoryBudget: 256,
+    cache: false,
+    cacheContentHash: false,
+    ...overrides,
+  };
+}
+
+describe('watch', () => {
+  let sandbox: string;
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-watch-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  it('fingerprints outputs by input paths, sizes and mtimes', () => {
+    const input = { path: 'a.package', normalizedPath: 'a.package', name: 'a.package', size: 3, mtime: new Date(1000) };
+    const output = { outputPath: 'All.package', inputs: [input], totalSize: 3 };
+
+    expect(fingerprintOutput(output)).toBe(fingerprintOutput({ ...output, inputs: [{ ...input }] }));
+    expect(fingerprintOutput(output)).not.toBe(fingerprintOutput({ ...output, inputs: [{ ...input, size: 4 }] }));
+    expect(fingerprintOutput(output)).not.toBe(fingerprintOutput({ ...output, inputs: [{ ...input, mtime: new Date(2000) }] }));
+  });
+
+  it('merges everything once, then only the outputs whose inputs changed', async () => {
+    const mods = join(sandbox, 'Mods');
+    const outRoot = join(sandbox, 'out');
+    await fs.mkdir(join(mods, 'A'), { recursive: true });
+    await fs.mkdir(join(mods, 'B'), { recursive: true });
+    await fs.copyFile(join(testPackagesDir, 'test-file-1.package'), join(mods, 'A', 'x.package'));
+    await fs.copyFile(join(testPackagesDir, 'test-file-2.package'), join(mods, 'B', 'y.package'));
+
+    const cycles: WatchCycle[] = [];
+    let notify: (() => void) | undefined;
+    const nextCycle = (): Promise<void> => new Promise((resolve) => (notify = resolve));
+    const controller = new AbortController();
+    const first = nextCycle();
+    const done = watchBasic(options({ in: [mods], outRoot }), topFolderStrategy, {
+      signal: controller.signal,
+      onCycle: (cycle) => {
+        cycles.push(cycle);
+        notify?.();
+      },
+    });
+
+    await first;
+    expect(cycles[0].merged).toEqual([join(outRoot, 'A.package'), join(outRoot, 'B.package')]);
+    const before = await fs.stat(join(outRoot, 'B.package'));
+
+    const second = nextCycle();
+    await fs.copyFile(join(testPackagesDir, 'test-file-3.package'), join(mods, 'A', 'x.package'));
+    await second;
+
+    controller.abort();
+    expect(await done).toBe(0);
+    expect(cycles[1]).toMatchObject({ merged: [join(outRoot, 'A.package')], unchanged: [join(outRoot, 'B.package')], errors: [] });
+    expect((await fs.stat(join(outRoot, 'B.package'))).mtimeMs).toBe(before.mtimeMs);
+    expect((await fs.readdir(outRoot)).filter((name) => name.startsWith('.tmp-'))).toEqual([]);
+  }, 20000);
+});
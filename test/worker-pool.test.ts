@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateSync, inflateSync } from 'node:zlib';
+import { PoolTaskError, WorkerPool } from '../src/util/worker-pool.js';
+
+const DATA = Buffer.from('The Sims 4 package payload '.repeat(200));
+const SHA256 = createHash('sha256').update(DATA).digest('hex');
+
+describe('worker pool', () => {
+  let sandbox: string;
+  const pools: WorkerPool[] = [];
+
+  beforeEach(async () => {
+    sandbox = await fs.mkdtemp(join(tmpdir(), 's4merge-pool-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(pools.splice(0).map((pool) => pool.close()));
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  function pool(size: number): WorkerPool {
+    const created = new WorkerPool(size);
+    pools.push(created);
+    return created;
+  }
+
+  it.each([1, 2])('gives the same results with %i job(s)', async (size) => {
+    const file = join(sandbox, 'input.bin');
+    await fs.writeFile(file, DATA);
+    const workers = pool(size);
+
+    expect(await workers.run({ kind: 'digest', algorithm: 'sha256', data: DATA })).toEqual({ hex: SHA256, length: DATA.length });
+    expect(await workers.run({ kind: 'digest', algorithm: 'sha256', data: deflateSync(DATA), inflate: true })).toEqual({
+      hex: SHA256,
+      length: DATA.length,
+    });
+    expect(await workers.run({ kind: 'digest-file', algorithm: 'sha1', path: file })).toEqual({
+      hex: createHash('sha1').update(DATA).digest('hex'),
+      length: DATA.length,
+    });
+    expect((await workers.run({ kind: 'inflate', data: deflateSync(DATA) })).equals(DATA)).toBe(true);
+    expect(inflateSync(await workers.run({ kind: 'deflate', data: DATA, level: 9 })).equals(DATA)).toBe(true);
+  });
+
+  it('starts no worker for one job', () => {
+    expect(pool(1).highWaterMark).toBe(1);
+    expect(pool(3).highWaterMark).toBe(6);
+  });
+
+  it.each([1, 3])('yields outcomes in item order and keeps going after a failed task (%i job(s))', async (size) => {
+    const items = [0, 1, 2, 3, 4, 5, 6, 7];
+    const outcomes = [];
+    for await (const outcome of pool(size).runInOrder(items, (item) => {
+      if (item === 5) {
+        throw new Error('cannot build task');
+      }
+      // Larger payloads first, so later tasks tend to finish earlier.
+      const data = Buffer.alloc((items.length - item) * 50_000, item);
+      return { kind: 'digest', algorithm: 'sha1', data: item === 2 ? Buffer.from('not zlib') : data, inflate: item === 2 } as const;
+    })) {
+      outcomes.push(outcome);
+    }
+
+    expect(outcomes.map((outcome) => outcome.item)).toEqual(items);
+    expect(outcomes[2].error).toBeInstanceOf(PoolTaskError);
+    expect(outcomes[5].error?.message).toBe('cannot build task');
+    expect(outcomes[7].result?.length).toBe(50_000);
+  });
+
+  it('pulls no more items than its high-water mark ahead of the consumer', async () => {
+    const workers = pool(2);
+    let pulled = 0;
+    function* items(): Generator<number> {
+      for (let item = 0; item < 20; item += 1) {
+        pulled += 1;
+        yield item;
+      }
+    }
+
+    const seen: number[] = [];
+    for await (const { item } of workers.runInOrder(items(), () => ({ kind: 'digest', algorithm: 'sha1', data: DATA }) as const)) {
+      seen.push(pulled - item);
+    }
+
+    expect(Math.max(...seen)).toBe(workers.highWaterMark);
+  });
+
+  it('rejects tasks once closed', async () => {
+    const workers = pool(2);
+    await workers.close();
+
+    await expect(workers.run({ kind: 'inflate', data: DATA })).rejects.toThrow('Worker pool is closed');
+  });
+});
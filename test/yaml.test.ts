@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml, toYaml, YamlParseError } from '../src/util/yaml.js';
+
+describe('toYaml', () => {
+  it('emits nested mappings and sequences in block style', () => {
+    const yaml = toYaml({
+      schema: 1,
+      tool: 's4merge',
+      output: { path: 'D:/Merged/All.package', parts: 1 },
+      files: [
+        { idx: 1, path: 'a.package' },
+        { idx: 2, path: 'b.package' },
+      ],
+      notes: ['first', 'second'],
+    });
+
+    expect(yaml).toBe(
+      [
+        'schema: 1',
+        'tool: "s4merge"',
+        'output:',
+        '  path: "D:/Merged/All.package"',
+        '  parts: 1',
+        'files:',
+        '  - idx: 1',
+        '    path: "a.package"',
+        '  - idx: 2',
+        '    path: "b.package"',
+        'notes:',
+        '  - "first"',
+        '  - "second"',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders empty collections, nulls and omits undefined values', () => {
+    const yaml = toYaml({ empty: [], none: {}, max: null, skipped: undefined, flag: false });
+    expect(yaml).toBe('empty: []\nnone: {}\nmax: null\nflag: false\n');
+  });
+
+  it('quotes strings and keys that YAML would otherwise reinterpret', () => {
+    const yaml = toYaml({ 'with space': 'yes', value: 'line\nbreak', nan: Number.NaN });
+    expect(yaml).toBe('"with space": "yes"\nvalue: "line\\nbreak"\nnan: null\n');
+  });
+});
+
+describe('toYaml sortKeys', () => {
+  it('sorts mapping keys at every depth', () => {
+    const yaml = toYaml({ b: 1, a: { d: true, c: [{ z: 1, y: 2 }] } }, { sortKeys: true });
+    expect(yaml).toBe('a:\n  c:\n    - y: 2\n      z: 1\n  d: true\nb: 1\n');
+  });
+});
+
+describe('parseYaml', () => {
+  it('round-trips everything toYaml emits', () => {
+    const value = {
+      schema: 1,
+      'with space': 'line\nbreak',
+      ratio: 2.5,
+      big: 1e21,
+      empty: [],
+      none: {},
+      max: null,
+      files: [
+        { idx: 1, path: 'a.package', tags: ['x', 'y'] },
+        { idx: 2, path: '123' },
+      ],
+      nested: [['a', 'b'], []],
+    };
+    expect(parseYaml(toYaml(value))).toEqual(value);
+  });
+
+  it('accepts hand-written plain scalars, comments and flow collections', () => {
+    const text = [
+      '# manifest',
+      'tool: s4merge  # trailing comment',
+      'order: { key: "path", reverse: false }',
+      'files: [ 00001, "b" ]',
+      'list:',
+      '- one',
+      '- ~',
+      '',
+    ].join('\n');
+    expect(parseYaml(text)).toEqual({
+      tool: 's4merge',
+      order: { key: 'path', reverse: false },
+      files: [1, 'b'],
+      list: ['one', null],
+    });
+  });
+
+  it('reports the line of syntax errors', () => {
+    expect(() => parseYaml('a: 1\n   b: 2\n')).toThrow(YamlParseError);
+    expect(() => parseYaml('a: 1\n   b: 2\n')).toThrow(/line 2/);
+    expect(() => parseYaml('a: 1\na: 2\n')).toThrow(/Duplicate key 'a' \(line 2\)/);
+    expect(() => parseYaml('a: "open\n')).toThrow(/Unterminated string/);
+    expect(() => parseYaml('a: &anchor 1\n')).toThrow(/Unsupported YAML syntax/);
+  });
+});
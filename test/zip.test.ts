@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { crc32, readZipEntries, readZipEntry, ZipFormatError, ZipMethod } from '../src/util/zip.js';
+import { buildZip } from './helpers/zip.js';
+
+describe('zip reader', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 's4merge-zip-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('computes the zip CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('lists file entries and extracts stored and deflated data', async () => {
+    const archive = join(dir, 'pack.zip');
+    const large = Buffer.alloc(10_000, 'abc');
+    await fs.writeFile(
+      archive,
+      buildZip([
+        { name: 'Hair/', data: '' },
+        { name: 'Hair/long.package', data: large },
+        { name: 'readme.txt', data: 'hello', method: ZipMethod.Stored },
+      ]),
+    );
+
+    const entries = await readZipEntries(archive);
+
+    expect(entries.map((entry) => entry.name)).toEqual(['Hair/long.package', 'readme.txt']);
+    expect(entries[0].compressedSize).toBeLessThan(large.length);
+    expect(await readZipEntry(archive, entries[0])).toEqual(large);
+    expect((await readZipEntry(archive, entries[1])).toString()).toBe('hello');
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    const notZip = join(dir, 'fake.zip');
+    await fs.writeFile(notZip, Buffer.alloc(64, 1));
+
+    await expect(readZipEntries(notZip)).rejects.toThrow(ZipFormatError);
+    await expect(readZipEntries(notZip)).rejects.toThrow(/End of central directory not found/);
+  });
+
+  it('detects corrupt entry data', async () => {
+    const archive = join(dir, 'corrupt.zip');
+    const bytes = buildZip([{ name: 'a.package', data: 'payload', method: ZipMethod.Stored }]);
+    bytes[30 + 'a.package'.length] ^= 0xff;
+    await fs.writeFile(archive, bytes);
+
+    const [entry] = await readZipEntries(archive);
+
+    await expect(readZipEntry(archive, entry)).rejects.toThrow(/CRC-32 mismatch/);
+  });
+
+  it('rejects unsupported compression methods', async () => {
+    const archive = join(dir, 'bzip.zip');
+    await fs.writeFile(archive, buildZip([{ name: 'a.package', data: 'payload', method: 12 }]));
+
+    const [entry] = await readZipEntries(archive);
+
+    await expect(readZipEntry(archive, entry)).rejects.toThrow(/unsupported compression method 12/);
+  });
+});